@@ -0,0 +1,173 @@
+/**
+ * Mock Agent Server
+ *
+ * Local HTTP stand-in for the Lyzr agent, asset and RAG APIs (see
+ * mock-agent.ts). Run it with `npm run mock-agent` and point the app at it:
+ *
+ *   VITE_AGENT_API_URL=http://localhost:8788/v3
+ *   VITE_RAG_API_URL=http://localhost:8788/v3
+ *
+ * Environment:
+ *   MOCK_AGENT_PORT            - port to listen on (default 8788)
+ *   MOCK_AGENT_MODE            - "scripted" (default) or "replay"
+ *   MOCK_AGENT_RECORDINGS      - directory of recordings for replay mode
+ *                                (default response_schemas/test_results)
+ *   MOCK_AGENT_STREAM_DELAY_MS - delay between streamed chunks (default 30)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { createMockAgent, createMockKnowledgeBase, loadRecordings, type MockAgentMode } from './mock-agent'
+
+const port = Number(process.env.MOCK_AGENT_PORT) || 8788
+const mode: MockAgentMode = process.env.MOCK_AGENT_MODE === 'replay' ? 'replay' : 'scripted'
+const recordingsDir = process.env.MOCK_AGENT_RECORDINGS || 'response_schemas/test_results'
+const streamDelayMs = Number(process.env.MOCK_AGENT_STREAM_DELAY_MS ?? 30)
+const STREAM_CHUNK_SIZE = 24
+
+const agent = createMockAgent({
+  mode,
+  recordings: mode === 'replay' ? loadRecordings(recordingsDir) : [],
+})
+const knowledgeBase = createMockKnowledgeBase()
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, x-api-key',
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+/** File names from a multipart body */
+function readFileNames(body: string): string[] {
+  return [...body.matchAll(/filename="([^"]+)"/g)].map(match => match[1])
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Send text as SSE chunks followed by [DONE]
+ */
+async function streamText(res: ServerResponse, text: string) {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+  res.write(`event: chat_started\ndata: ${JSON.stringify({ type: 'chat_started' })}\n\n`)
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+    const chunk = text.slice(i, i + STREAM_CHUNK_SIZE)
+    // Multi-line chunks become several data lines, which the client joins with "\n"
+    res.write(`${chunk.split('\n').map(line => `data: ${line}`).join('\n')}\n\n`)
+    if (streamDelayMs > 0) await sleep(streamDelayMs)
+  }
+  res.write('data: [DONE]\n\n')
+  res.end()
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '')
+  const method = req.method ?? 'GET'
+
+  if (method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    res.end()
+    return
+  }
+
+  if (method === 'POST' && (path === '/v3/inference/chat' || path === '/v3/inference/stream')) {
+    const payload = JSON.parse(await readBody(req) || '{}')
+    if (typeof payload.message !== 'string' || !payload.agent_id) {
+      sendJson(res, 400, { error: 'message and agent_id are required' })
+      return
+    }
+    const reply = await agent.respond(payload)
+    if (path.endsWith('/stream')) {
+      await streamText(res, reply)
+    } else {
+      sendJson(res, 200, { response: reply, session_id: payload.session_id, agent_id: payload.agent_id })
+    }
+    return
+  }
+
+  if (method === 'POST' && path === '/v3/assets/upload') {
+    const results = readFileNames(await readBody(req)).map(file_name => ({
+      asset_id: randomUUID(),
+      file_name,
+      success: true,
+    }))
+    sendJson(res, 200, { results, total_files: results.length, successful_uploads: results.length, failed_uploads: 0 })
+    return
+  }
+
+  const documents = path.match(/^\/v3\/rag\/documents\/([^/]+)$/)
+  if (method === 'GET' && documents) {
+    sendJson(res, 200, knowledgeBase.list(documents[1]))
+    return
+  }
+
+  if (method === 'POST' && /^\/v3\/parse\/\w+$/.test(path)) {
+    const documents = readFileNames(await readBody(req)).map(name => ({
+      text: `Mock contents of ${name}`,
+      metadata: { source: `storage/${name}` },
+    }))
+    sendJson(res, 200, { documents })
+    return
+  }
+
+  const train = path.match(/^\/v3\/rag\/train\/([^/]+)$/)
+  if (method === 'POST' && train) {
+    const parsed: { metadata?: { source?: string } }[] = JSON.parse(await readBody(req) || '[]')
+    knowledgeBase.add(train[1], parsed.map(doc => doc.metadata?.source).filter((source): source is string => !!source))
+    sendJson(res, 200, { success: true })
+    return
+  }
+
+  const docs = path.match(/^\/v3\/rag\/([^/]+)\/docs$/)
+  if (method === 'DELETE' && docs) {
+    knowledgeBase.remove(docs[1], JSON.parse(await readBody(req) || '[]'))
+    sendJson(res, 200, { success: true })
+    return
+  }
+
+  sendJson(res, 404, { error: `No mock route for ${method} ${path}` })
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error('[MockAgent] Request failed:', error)
+    if (!res.headersSent) sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) })
+    else res.end()
+  })
+})
+
+server.listen(port, () => {
+  console.log(`[MockAgent] ${mode} mode, listening on http://localhost:${port}/v3`)
+})
+
+const shutdown = () => {
+  console.log('[MockAgent] Shutting down')
+  server.close(() => process.exit(0))
+  server.closeAllConnections()
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
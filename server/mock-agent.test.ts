@@ -0,0 +1,182 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createMockAgent, loadRecordings, type MockAgent } from './mock-agent'
+import { BUILT_IN_CATEGORIES, describeTopicsForPrompt } from '../src/lib/categories'
+import { describeRoundLength } from '../src/lib/trivia-turn'
+import type { BankQuestion, QuestionBank } from '../src/lib/offline-question-source'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const QUESTIONS: BankQuestion[] = [
+  {
+    text: 'Which planet is known as the Red Planet?',
+    options: ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn'],
+    correct_answer: 'B',
+    explanation: 'Iron oxide gives Mars its colour.',
+  },
+  {
+    text: 'What gas do plants absorb for photosynthesis?',
+    options: ['A) Oxygen', 'B) Nitrogen', 'C) Carbon dioxide', 'D) Helium'],
+    correct_answer: 'C',
+    explanation: 'Plants take in carbon dioxide and release oxygen.',
+  },
+]
+
+const BANK = { Science: { Easy: QUESTIONS, Medium: [], Hard: [] } } as unknown as QuestionBank
+
+// Prompts as the agent and batch question sources write them
+const TOPICS = describeTopicsForPrompt({ categories: BUILT_IN_CATEGORIES.filter(category => category.id === 'Science'), topic: null })
+const START = `Start a new trivia game. ${TOPICS} Difficulty: Easy. ${describeRoundLength(2)} Give me the first question.`
+const BATCH = (count: number) => `Generate a batch of ${count} new trivia questions. ${TOPICS} Difficulty: Easy. ${describeRoundLength(4)}`
+
+const turn = async (agent: MockAgent, message: string, session_id = 'trivia-1') =>
+  JSON.parse(await agent.respond({ message, agent_id: 'agent-1', session_id }))
+
+/** Option letter that answers the question right or wrong */
+const letter = (question: { text: string }, correct: boolean) => {
+  const entry = QUESTIONS.find(q => q.text === question.text)!
+  return correct ? entry.correct_answer : entry.correct_answer === 'A' ? 'B' : 'A'
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('createMockAgent (scripted)', () => {
+  let agent: MockAgent
+
+  beforeEach(() => {
+    agent = createMockAgent({ bank: BANK, random: () => 0 })
+  })
+
+  it('plays a round: start, answer, next, game over', async () => {
+    const first = await turn(agent, START)
+    expect(first).toMatchObject({ status: 'success', result: { game_state: 'question', score: { correct: 0, total: 0 } } })
+    expect(first.result.question).not.toHaveProperty('explanation')
+
+    const feedback = await turn(agent, `My answer is: ${letter(first.result.question, true)}`)
+    expect(feedback.result).toMatchObject({ game_state: 'feedback', feedback: { is_correct: true }, score: { correct: 1, total: 1 } })
+
+    const second = await turn(agent, 'Next question please')
+    expect(second.result.game_state).toBe('question')
+    expect(second.result.question.text).not.toBe(first.result.question.text)
+
+    const missed = await turn(agent, "I ran out of time and didn't answer this question.")
+    expect(missed.result).toMatchObject({ feedback: { is_correct: false }, score: { correct: 1, total: 2 } })
+
+    expect((await turn(agent, 'Next question please')).result.game_state).toBe('game_over')
+  })
+
+  it('keeps sessions apart', async () => {
+    await turn(agent, START, 'trivia-1')
+    await turn(agent, START, 'trivia-2')
+    const answer = await turn(agent, 'My answer is: B', 'trivia-2')
+    expect(answer.result.score.total).toBe(1)
+    expect((await turn(agent, 'My answer is: B', 'trivia-1')).result.score.total).toBe(1)
+  })
+
+  it('deals batches from one deck until it runs out', async () => {
+    const first = await turn(agent, BATCH(1))
+    expect(first.result.game_state).toBe('batch')
+    expect(first.result.questions).toHaveLength(1)
+    expect(first.result.questions[0]).toMatchObject({ explanation: expect.any(String), commentary: expect.any(String), reveal_commentary: expect.any(String) })
+
+    const second = await turn(agent, BATCH(5))
+    expect(second.result.questions.map((q: BankQuestion) => q.text)).toEqual(
+      QUESTIONS.map(q => q.text).filter(text => text !== first.result.questions[0].text)
+    )
+
+    expect(await turn(agent, BATCH(5))).toMatchObject({ result: { questions: [], commentary: 'The mock host is out of questions.' } })
+  })
+
+  it('echoes messages it has no script for', async () => {
+    expect((await turn(agent, 'Hello there')).result.text).toBe('Mock agent received: Hello there')
+  })
+})
+
+describe('createMockAgent (replay)', () => {
+  it('answers repeated messages in recorded order, repeating the last answer', async () => {
+    const agent = createMockAgent({
+      mode: 'replay',
+      recordings: [
+        { message: 'Next question please', raw_response: '"first"' },
+        { message: 'Start', raw_response: '"start"' },
+        { message: 'Next question please', raw_response: '"second"' },
+      ],
+    })
+    const replies = []
+    for (const message of ['Next question please', 'Start', 'Next question please', 'Next question please']) {
+      replies.push(await agent.respond({ message, agent_id: 'agent-1' }))
+    }
+    expect(replies).toEqual(['"first"', '"start"', '"second"', '"second"'])
+  })
+
+  it('serves every recording in turn for messages it has no match for', async () => {
+    const agent = createMockAgent({
+      mode: 'replay',
+      recordings: [{ message: null, raw_response: '"a"' }, { message: 'Start', raw_response: '"b"' }],
+    })
+    const replies = []
+    for (const message of ['one', 'two', 'three']) replies.push(await agent.respond({ message, agent_id: 'agent-1' }))
+    expect(replies).toEqual(['"a"', '"b"', '"a"'])
+  })
+
+  it('replies with an error when nothing was recorded', async () => {
+    const agent = createMockAgent({ mode: 'replay' })
+    expect(JSON.parse(await agent.respond({ message: 'Start', agent_id: 'agent-1' }))).toMatchObject({
+      status: 'error',
+      message: 'No recorded responses loaded',
+    })
+  })
+})
+
+describe('loadRecordings', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mock-agent-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const write = (file: string, data: unknown) =>
+    writeFileSync(join(dir, file), typeof data === 'string' ? data : JSON.stringify(data))
+
+  it('reads test results, raw responses and fixtures in file name order', () => {
+    write('02-fixture.json', {
+      version: 1,
+      name: 'game',
+      recorded_at: '2026-01-28T07:40:00Z',
+      exchanges: [
+        { message: 'Start', agent_id: 'agent-1', session_id: 's', raw_response: '"start"', success: true, started_at: '', duration_ms: 1 },
+        { message: 'Next', agent_id: 'agent-1', session_id: 's', raw_response: null, success: false, started_at: '', duration_ms: 1 },
+        { message: 'Next', agent_id: 'agent-1', session_id: 's', raw_response: '"next"', success: true, started_at: '', duration_ms: 1 },
+      ],
+    })
+    write('01-test-result.json', { test_message: 'Hello', actual_response: { status: 'success', result: {} } })
+    write('03-raw.json', { raw_response: 'not json' })
+    write('04-example.json', { message: 'Example', example_response: { status: 'success', result: { ok: true } } })
+    write('05-empty.json', { note: 'no response here' })
+    write('notes.txt', 'ignored')
+
+    expect(loadRecordings(dir)).toEqual([
+      { message: 'Hello', raw_response: '{"status":"success","result":{}}' },
+      { message: 'Start', raw_response: '"start"' },
+      { message: 'Next', raw_response: '"next"' },
+      { message: null, raw_response: 'not json' },
+      { message: 'Example', raw_response: '{"status":"success","result":{"ok":true}}' },
+    ])
+  })
+
+  it('loads the bundled test results', () => {
+    const recordings = loadRecordings('response_schemas/test_results')
+    expect(recordings.length).toBeGreaterThan(0)
+    recordings.forEach(recording => expect(typeof recording.raw_response).toBe('string'))
+  })
+})
@@ -0,0 +1,263 @@
+/**
+ * Mock Agent
+ *
+ * Transport-independent stand-in for the Lyzr agent and RAG APIs, so the app
+ * and its tests run with no network. The HTTP layer (mock-agent-server.ts)
+ * forwards requests here. Two modes:
+ *
+ *   scripted - plays real trivia games from the bundled question bank,
+ *              answering the same prompts the question sources send
+ *   replay   - returns recorded responses (files shaped like
+ *              response_schemas/test_results/*.json, or fixtures saved by
+ *              src/utils/agentRecorder.ts), matched by message and
+ *              otherwise served in order
+ */
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  DEFAULT_QUESTION_BANK,
+  createOfflineQuestionSource,
+  type BankQuestion,
+  type QuestionBank,
+} from '../src/lib/offline-question-source'
+import { BUILT_IN_CATEGORIES } from '../src/lib/categories'
+import type { AIAgentResponse } from '../src/utils/aiAgent'
+import type { AgentFixture } from '../src/utils/agentRecorder'
+import type { Difficulty } from '../src/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MockAgentMode = 'scripted' | 'replay'
+
+export interface MockAgentRequest {
+  message: string
+  agent_id: string
+  user_id?: string
+  session_id?: string
+}
+
+export interface MockRecording {
+  /** Message that produced the response, or null when it is only served in order */
+  message: string | null
+  /** Agent reply exactly as the API returned it */
+  raw_response: string
+}
+
+export interface MockAgentOptions {
+  mode?: MockAgentMode
+  /** Responses for replay mode */
+  recordings?: MockRecording[]
+  /** Question bank for scripted games */
+  bank?: QuestionBank
+  random?: () => number
+}
+
+export interface MockAgent {
+  mode: MockAgentMode
+  /** Reply text for one chat request */
+  respond: (request: MockAgentRequest) => Promise<string>
+}
+
+const AGENT_NAME = 'Trivia Host Agent (mock)'
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+// =============================================================================
+// Recordings
+// =============================================================================
+
+/**
+ * Load recordings from a directory of JSON files. Each file needs a
+ * `raw_response` string or an `actual_response` / `example_response` object;
+ * `test_message` (or `message`) says which request it answers. Agent
+ * fixtures contribute every successful exchange, in recorded order.
+ */
+export function loadRecordings(dir: string): MockRecording[] {
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap((file) => {
+      const data = JSON.parse(readFileSync(join(dir, file), 'utf8'))
+      if (Array.isArray(data.exchanges)) {
+        return (data as AgentFixture).exchanges
+          .filter(exchange => exchange.success && exchange.raw_response !== null)
+          .map(exchange => ({ message: exchange.message, raw_response: exchange.raw_response as string }))
+      }
+
+      const response = data.raw_response ?? data.actual_response ?? data.example_response
+      if (response === undefined) return []
+      return [{
+        message: data.test_message ?? data.message ?? null,
+        raw_response: typeof response === 'string' ? response : JSON.stringify(response),
+      }]
+    })
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Built-in categories named in the prompt, or all of them for anything else */
+function readCategories(message: string) {
+  const setup = message.split('Difficulty:')[0]
+  const named = BUILT_IN_CATEGORIES.filter(category => setup.includes(category.name))
+  return named.length > 0 ? named : BUILT_IN_CATEGORIES
+}
+
+function readDifficulty(message: string): Difficulty {
+  const match = message.match(/Difficulty:\s*(\w+)/)
+  return DIFFICULTIES.find(difficulty => difficulty === match?.[1]) ?? 'Medium'
+}
+
+function readRoundLength(message: string): number | null {
+  const match = message.match(/has (\d+) questions in total/)
+  return match ? Number(match[1]) : null
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+function toReply(result: AIAgentResponse): string {
+  if (!result.success) {
+    return JSON.stringify({ status: 'error', result: {}, message: result.error })
+  }
+  return JSON.stringify(result.response)
+}
+
+// =============================================================================
+// Mock Agent
+// =============================================================================
+
+/**
+ * Create a mock agent
+ */
+export function createMockAgent(options: MockAgentOptions = {}): MockAgent {
+  const mode = options.mode ?? 'scripted'
+  const bank = options.bank ?? DEFAULT_QUESTION_BANK
+  const random = options.random ?? Math.random
+  const source = createOfflineQuestionSource({ bank, random })
+  const recordings = options.recordings ?? []
+  const batchDecks = new Map<string, BankQuestion[]>()
+  const served = new Map<string, number>()
+  let replayIndex = 0
+
+  // Repeated messages get their recorded responses in order, the last one repeating
+  const replay = (message: string): string => {
+    const matched = recordings.filter(recording => recording.message === message)
+    if (matched.length > 0) {
+      const count = served.get(message) ?? 0
+      served.set(message, count + 1)
+      return matched[Math.min(count, matched.length - 1)].raw_response
+    }
+    if (recordings.length === 0) {
+      return JSON.stringify({ status: 'error', result: {}, message: 'No recorded responses loaded' })
+    }
+    const next = recordings[replayIndex % recordings.length]
+    replayIndex += 1
+    return next.raw_response
+  }
+
+  // One deck per level, so adaptive games can move between them
+  const batch = (message: string, session_id: string, count: number): string => {
+    const difficulty = readDifficulty(message)
+    const key = `${session_id}:${difficulty}`
+    if (!batchDecks.has(key)) {
+      const pool = readCategories(message).flatMap(category => bank[category.name as keyof QuestionBank]?.[difficulty] ?? [])
+      batchDecks.set(key, shuffle(pool, random))
+    }
+    const deck = batchDecks.get(key)!
+    const questions = deck.splice(0, count).map(question => ({
+      ...question,
+      commentary: 'The mock host picked this one for you.',
+      reveal_commentary: 'The mock host hopes you enjoyed that one.',
+    }))
+    return JSON.stringify({
+      status: 'success',
+      result: {
+        game_state: 'batch',
+        questions,
+        commentary: questions.length > 0 ? 'Here is your next batch!' : 'The mock host is out of questions.',
+      },
+      metadata: { agent_name: AGENT_NAME, timestamp: new Date().toISOString() },
+    })
+  }
+
+  const scripted = async (message: string, session_id: string): Promise<string> => {
+    const batchRequest = message.match(/Generate a batch of (\d+)/)
+    if (batchRequest) return batch(message, session_id, Number(batchRequest[1]))
+
+    if (message.includes('Start a new trivia game')) {
+      return toReply(await source.startGame({
+        topics: { categories: readCategories(message), topic: null },
+        difficulty: readDifficulty(message),
+        session_id,
+        round_length: readRoundLength(message),
+      }))
+    }
+
+    // The session lives on in memory here, so resuming just picks it up
+    if (message.includes('Resume our trivia game')) {
+      return toReply(await source.resumeGame({
+        topics: { categories: readCategories(message), topic: null },
+        difficulty: readDifficulty(message),
+        session_id,
+        round_length: readRoundLength(message),
+        question: null,
+        asked: [],
+        score: { correct: 0, total: 0, percentage: 0 },
+      }))
+    }
+
+    if (message.includes('ran out of time')) return toReply(await source.submitAnswer(null, session_id))
+
+    const answer = message.match(/My answer is:\s*(.+)/)
+    if (answer) return toReply(await source.submitAnswer(answer[1].trim(), session_id))
+
+    if (message.includes('Next question')) {
+      const difficulty = message.includes('Difficulty:') ? readDifficulty(message) : undefined
+      return toReply(await source.nextQuestion(session_id, { difficulty }))
+    }
+
+    return JSON.stringify({
+      status: 'success',
+      result: { text: `Mock agent received: ${message}` },
+      message: `Mock agent received: ${message}`,
+    })
+  }
+
+  return {
+    mode,
+    respond: async ({ message, session_id = 'mock-session' }) =>
+      mode === 'replay' ? replay(message) : scripted(message, session_id),
+  }
+}
+
+// =============================================================================
+// Mock Knowledge Base
+// =============================================================================
+
+/**
+ * In-memory RAG knowledge bases: document names per RAG id
+ */
+export function createMockKnowledgeBase() {
+  const bases = new Map<string, Set<string>>()
+  const documentsOf = (rag_id: string) => {
+    if (!bases.has(rag_id)) bases.set(rag_id, new Set())
+    return bases.get(rag_id)!
+  }
+
+  return {
+    /** Stored paths, e.g. ["storage/notes.pdf"] */
+    list: (rag_id: string) => [...documentsOf(rag_id)],
+    add: (rag_id: string, paths: string[]) => paths.forEach(path => documentsOf(rag_id).add(path)),
+    remove: (rag_id: string, paths: string[]) => paths.forEach(path => documentsOf(rag_id).delete(path)),
+  }
+}
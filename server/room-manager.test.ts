@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createRoomManager, type RoomManager } from './room-manager'
+import type { RoomSettings, RoomSnapshot, ServerMessage } from '../src/lib/room-protocol'
+import type { BankQuestion, QuestionBank } from '../src/lib/offline-question-source'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const QUESTIONS: BankQuestion[] = [
+  {
+    text: 'Which planet is known as the Red Planet?',
+    options: ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn'],
+    correct_answer: 'B',
+    explanation: 'Iron oxide gives Mars its colour.',
+  },
+  {
+    text: 'What gas do plants absorb for photosynthesis?',
+    options: ['A) Oxygen', 'B) Nitrogen', 'C) Carbon dioxide', 'D) Helium'],
+    correct_answer: 'C',
+    explanation: 'Plants take in carbon dioxide and release oxygen.',
+  },
+]
+
+const BANK = { Science: { Easy: QUESTIONS, Medium: [], Hard: [] } } as unknown as QuestionBank
+
+const SETTINGS: RoomSettings = { categories: ['Science'], difficulty: 'Easy', round_length: 2, timed: false }
+
+let manager: RoomManager
+let inbox: Map<string, ServerMessage[]>
+
+const messages = (connection_id: string) => inbox.get(connection_id) ?? []
+
+const lastMessage = <T extends ServerMessage['type']>(connection_id: string, type: T) =>
+  messages(connection_id).filter((message): message is Extract<ServerMessage, { type: T }> => message.type === type).at(-1)
+
+const room = (connection_id: string): RoomSnapshot => lastMessage(connection_id, 'room_state')!.room
+
+const joined = (connection_id: string) => lastMessage(connection_id, 'joined')!
+
+/** Ada hosts room; Grace joins it */
+function createRoomWithTwoPlayers() {
+  manager.handleMessage('ada', { type: 'create_room', name: 'Ada', settings: SETTINGS })
+  const { code } = joined('ada')
+  manager.handleMessage('grace', { type: 'join_room', code, name: 'Grace' })
+  return code
+}
+
+/** Option text for the question on screen, right or wrong */
+function option(connection_id: string, correct: boolean): string {
+  const question = room(connection_id).question!
+  const entry = QUESTIONS.find(q => q.text === question.text)!
+  return question.options.find(opt => opt.startsWith(`${entry.correct_answer})`) === correct)!
+}
+
+beforeEach(() => {
+  inbox = new Map()
+  manager = createRoomManager({
+    send: (connection_id, message) => inbox.set(connection_id, [...messages(connection_id), message]),
+    bank: BANK,
+    random: () => 0,
+    now: () => 0,
+  })
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('room manager', () => {
+  it('creates a room with the creator as host', () => {
+    manager.handleMessage('ada', { type: 'create_room', name: '  Ada  ', settings: SETTINGS })
+
+    const { code, player_id, rejoin_token } = joined('ada')
+    expect(code).toHaveLength(4)
+    expect(rejoin_token).toBeTruthy()
+    expect(room('ada')).toMatchObject({ code, phase: 'lobby', host_id: player_id, players: [{ id: player_id, name: 'Ada' }] })
+    expect(manager.roomCount()).toBe(1)
+  })
+
+  it('rejects invalid room settings', () => {
+    manager.handleMessage('ada', { type: 'create_room', name: 'Ada', settings: { ...SETTINGS, categories: [] } })
+    expect(lastMessage('ada', 'error')?.message).toBe('Invalid room settings')
+    expect(manager.roomCount()).toBe(0)
+  })
+
+  it('lets players join by code', () => {
+    const code = createRoomWithTwoPlayers()
+
+    expect(room('ada').players.map(player => player.name)).toEqual(['Ada', 'Grace'])
+    expect(joined('grace').rejoin_token).not.toBe(joined('ada').rejoin_token)
+
+    manager.handleMessage('lin', { type: 'join_room', code: code.toLowerCase(), name: 'grace' })
+    expect(lastMessage('lin', 'error')?.message).toBe('That name is already taken in this room')
+    manager.handleMessage('lin', { type: 'join_room', code: 'ZZZZ', name: 'Lin' })
+    expect(lastMessage('lin', 'error')?.message).toBe('Room not found')
+  })
+
+  it('re-sends the room to a player joining the room they are already in', () => {
+    manager.handleMessage('ada', { type: 'create_room', name: 'Ada', settings: SETTINGS })
+    const { code, player_id } = joined('ada')
+    const before = messages('ada').length
+
+    manager.handleMessage('ada', { type: 'join_room', code, name: 'Ada' })
+    expect(messages('ada').slice(before).map(message => message.type)).toEqual(['joined', 'room_state'])
+    expect(joined('ada').player_id).toBe(player_id)
+    expect(room('ada')).toMatchObject({ code, host_id: player_id, players: [{ id: player_id, connected: true }] })
+    expect(manager.roomCount()).toBe(1)
+  })
+
+  it('keeps rejoin tokens out of room snapshots', () => {
+    createRoomWithTwoPlayers()
+    const snapshot = JSON.stringify(room('ada'))
+    expect(snapshot).not.toContain(joined('ada').rejoin_token)
+    expect(snapshot).not.toContain(joined('grace').rejoin_token)
+  })
+
+  it('deals questions without their answers and reveals once everyone has answered', () => {
+    createRoomWithTwoPlayers()
+    manager.handleMessage('grace', { type: 'start_game' })
+    expect(lastMessage('grace', 'error')?.message).toBe('Only the host can start the game')
+
+    manager.handleMessage('ada', { type: 'start_game' })
+    expect(room('grace').phase).toBe('question')
+    expect(room('grace').question).toMatchObject({ index: 0, total: 2, time_limit_ms: null })
+    expect(JSON.stringify(room('grace').question)).not.toContain('correct_answer')
+
+    manager.handleMessage('ada', { type: 'submit_answer', answer: option('ada', true) })
+    expect(room('grace').phase).toBe('question')
+    expect(room('grace').players.find(player => player.name === 'Ada')?.locked_in).toBe(true)
+    manager.handleMessage('ada', { type: 'submit_answer', answer: option('ada', false) })
+    expect(lastMessage('ada', 'error')?.message).toBe('Your answer is already locked in')
+
+    manager.handleMessage('grace', { type: 'submit_answer', answer: option('grace', false) })
+    const { reveal, standings } = room('grace')
+    expect(room('grace').phase).toBe('reveal')
+    expect(reveal?.answers[joined('ada').player_id].is_correct).toBe(true)
+    expect(reveal?.answers[joined('grace').player_id].is_correct).toBe(false)
+    expect(standings[0].player.name).toBe('Ada')
+  })
+
+  it('rejects answers that are not options', () => {
+    createRoomWithTwoPlayers()
+    manager.handleMessage('ada', { type: 'start_game' })
+    manager.handleMessage('ada', { type: 'submit_answer', answer: 'Pluto' })
+    expect(lastMessage('ada', 'error')?.message).toBe('Unknown answer option')
+  })
+
+  it('moves through the round to game over', () => {
+    createRoomWithTwoPlayers()
+    manager.handleMessage('ada', { type: 'start_game' })
+    manager.handleMessage('ada', { type: 'next_question' })
+    expect(lastMessage('ada', 'error')?.message).toBe('The current question is still open')
+
+    for (let index = 0; index < 2; index++) {
+      manager.handleMessage('ada', { type: 'submit_answer', answer: option('ada', true) })
+      manager.handleMessage('grace', { type: 'submit_answer', answer: option('grace', true) })
+      manager.handleMessage('ada', { type: 'next_question' })
+    }
+    expect(room('grace').phase).toBe('game_over')
+  })
+
+  it('reveals when the only player still to answer disconnects', () => {
+    createRoomWithTwoPlayers()
+    manager.handleMessage('ada', { type: 'start_game' })
+    manager.handleMessage('ada', { type: 'submit_answer', answer: option('ada', true) })
+    manager.disconnect('grace')
+
+    expect(room('ada').phase).toBe('reveal')
+    expect(room('ada').players.find(player => player.name === 'Grace')?.connected).toBe(false)
+  })
+
+  it('lets a disconnected player rejoin with their token and keep their score', () => {
+    const code = createRoomWithTwoPlayers()
+    const { player_id, rejoin_token } = joined('grace')
+    manager.handleMessage('ada', { type: 'start_game' })
+    manager.handleMessage('ada', { type: 'submit_answer', answer: option('ada', false) })
+    manager.handleMessage('grace', { type: 'submit_answer', answer: option('grace', true) })
+    manager.disconnect('grace')
+
+    manager.handleMessage('grace-2', { type: 'join_room', code, name: 'Grace', rejoin_token })
+    expect(joined('grace-2')).toMatchObject({ player_id, rejoin_token })
+    expect(room('ada').players.find(player => player.id === player_id)?.connected).toBe(true)
+    expect(room('grace-2').reveal?.answers[player_id].is_correct).toBe(true)
+    expect(room('grace-2').standings[0].player.id).toBe(player_id)
+  })
+
+  it('does not hand a disconnected slot to someone without the token', () => {
+    const code = createRoomWithTwoPlayers()
+    const { player_id } = joined('grace')
+    manager.disconnect('grace')
+
+    manager.handleMessage('mallory', { type: 'join_room', code, name: 'Grace' })
+    expect(lastMessage('mallory', 'error')?.message).toBe('That name is already taken in this room')
+    manager.handleMessage('mallory', { type: 'join_room', code, name: 'Grace', rejoin_token: joined('ada').rejoin_token })
+    expect(lastMessage('mallory', 'error')?.message).toBe('That name is already taken in this room')
+
+    manager.handleMessage('ada', { type: 'start_game' })
+    manager.handleMessage('mallory', { type: 'join_room', code, name: 'Grace', rejoin_token: 'guess' })
+    expect(lastMessage('mallory', 'error')?.message).toBe('This game has already started')
+    expect(lastMessage('mallory', 'joined')).toBeUndefined()
+    expect(room('ada').players.find(player => player.id === player_id)?.connected).toBe(false)
+  })
+
+  it('closes the room when the last player leaves', () => {
+    createRoomWithTwoPlayers()
+    manager.handleMessage('ada', { type: 'leave_room' })
+    expect(lastMessage('ada', 'left')).toBeTruthy()
+    expect(room('grace').host_id).toBe(joined('grace').player_id)
+
+    manager.disconnect('grace')
+    expect(manager.roomCount()).toBe(0)
+  })
+})
@@ -0,0 +1,379 @@
+/**
+ * Room Manager
+ *
+ * Transport-independent state for multiplayer trivia rooms. Each room deals
+ * questions from the bundled question bank, grades locked-in answers with
+ * the client scoring engine and keeps one shared ledger for the leaderboard.
+ * The WebSocket layer (room-server.ts) forwards parsed client messages here
+ * and delivers whatever this module sends back.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { DEFAULT_QUESTION_BANK, type BankQuestion, type QuestionBank } from '../src/lib/offline-question-source'
+import { QUESTION_TIME_LIMITS_MS, recordAnswer, type ScoreLedger } from '../src/lib/trivia-scoring'
+import { rankPlayers } from '../src/lib/hot-seat'
+import {
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_ROOM_PLAYERS,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  normalizeRoomCode,
+  type ClientMessage,
+  type RoomPhase,
+  type RoomPlayer,
+  type RoomReveal,
+  type RoomSettings,
+  type RoomSnapshot,
+  type ServerMessage,
+} from '../src/lib/room-protocol'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface Room {
+  code: string
+  phase: RoomPhase
+  host_id: string
+  settings: RoomSettings
+  players: RoomPlayer[]
+  /** Player id -> connection id, for connected players only */
+  connections: Map<string, string>
+  /** Player id -> rejoin token, known only to that player */
+  rejoin_tokens: Map<string, string>
+  deck: BankQuestion[]
+  index: number
+  /** Locked-in answers for the current question, keyed by player id */
+  answers: Map<string, { answer: string; elapsed_ms: number }>
+  question_started_at: number
+  timer: ReturnType<typeof setTimeout> | null
+  ledger: ScoreLedger
+  reveal: RoomReveal | null
+}
+
+export interface RoomManagerOptions {
+  /** Deliver a message to a connection */
+  send: (connection_id: string, message: ServerMessage) => void
+  bank?: QuestionBank
+  random?: () => number
+  now?: () => number
+}
+
+export interface RoomManager {
+  handleMessage: (connection_id: string, message: ClientMessage) => void
+  /** Mark the connection's player as disconnected (they may rejoin with their token) */
+  disconnect: (connection_id: string) => void
+  roomCount: () => number
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+function cleanName(name: unknown): string {
+  return typeof name === 'string' ? name.trim().slice(0, MAX_PLAYER_NAME_LENGTH) : ''
+}
+
+function isValidSettings(settings: RoomSettings | undefined, bank: QuestionBank): boolean {
+  return !!settings
+    && Array.isArray(settings.categories)
+    && settings.categories.length > 0
+    && settings.categories.every(category => !!bank[category]?.[settings.difficulty]?.length)
+    && Number.isInteger(settings.round_length)
+    && settings.round_length > 0
+}
+
+// =============================================================================
+// Manager
+// =============================================================================
+
+/**
+ * Create an in-memory room manager
+ */
+export function createRoomManager(options: RoomManagerOptions): RoomManager {
+  const { send } = options
+  const bank = options.bank ?? DEFAULT_QUESTION_BANK
+  const random = options.random ?? Math.random
+  const now = options.now ?? Date.now
+
+  const rooms = new Map<string, Room>()
+  /** Connection id -> { room code, player id } */
+  const members = new Map<string, { code: string; player_id: string }>()
+  let playerCounter = 0
+
+  const error = (connection_id: string, message: string) => send(connection_id, { type: 'error', message })
+
+  const timeLimit = (room: Room) => (room.settings.timed ? QUESTION_TIME_LIMITS_MS[room.settings.difficulty] : null)
+
+  const generateCode = (): string => {
+    let code = ''
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () =>
+        ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)]
+      ).join('')
+    } while (rooms.has(code))
+    return code
+  }
+
+  const snapshot = (room: Room): RoomSnapshot => {
+    const limit = timeLimit(room)
+    const entry = room.phase === 'question' || room.phase === 'reveal' ? room.deck[room.index] : null
+
+    return {
+      code: room.code,
+      phase: room.phase,
+      host_id: room.host_id,
+      settings: room.settings,
+      players: room.players.map(player => ({ ...player, locked_in: room.answers.has(player.id) })),
+      question: entry
+        ? {
+            index: room.index,
+            total: room.deck.length,
+            text: entry.text,
+            options: entry.options,
+            time_limit_ms: limit,
+            remaining_ms: limit === null || room.phase !== 'question'
+              ? null
+              : Math.max(0, limit - (now() - room.question_started_at)),
+          }
+        : null,
+      reveal: room.reveal,
+      standings: rankPlayers(room.players, room.ledger).map(standing => ({
+        ...standing,
+        player: { id: standing.player.id, name: standing.player.name },
+      })),
+    }
+  }
+
+  const broadcast = (room: Room) => {
+    const message: ServerMessage = { type: 'room_state', room: snapshot(room) }
+    room.connections.forEach(connection_id => send(connection_id, message))
+  }
+
+  const clearTimer = (room: Room) => {
+    if (room.timer) clearTimeout(room.timer)
+    room.timer = null
+  }
+
+  const askQuestion = (room: Room) => {
+    room.phase = 'question'
+    room.answers = new Map()
+    room.reveal = null
+    room.question_started_at = now()
+
+    const limit = timeLimit(room)
+    if (limit !== null) {
+      room.timer = setTimeout(() => revealAnswer(room), limit)
+    }
+    broadcast(room)
+  }
+
+  const revealAnswer = (room: Room) => {
+    if (room.phase !== 'question') return
+    clearTimer(room)
+
+    const entry = room.deck[room.index]
+    const limit = timeLimit(room)
+    const answers: RoomReveal['answers'] = {}
+
+    // Players who didn't lock in score as unanswered
+    for (const player of room.players) {
+      const locked = room.answers.get(player.id)
+      room.ledger = recordAnswer(room.ledger, entry, locked?.answer ?? null, null, {
+        timing: { elapsed_ms: locked?.elapsed_ms ?? limit ?? 0, limit_ms: limit },
+        player_id: player.id,
+      })
+      const scored = room.ledger[room.ledger.length - 1]
+      answers[player.id] = {
+        selected_answer: scored.selected_answer,
+        is_correct: scored.is_correct,
+        points: scored.points,
+        bonus: scored.bonus,
+      }
+    }
+
+    room.phase = 'reveal'
+    room.reveal = { correct_answer: entry.correct_answer, explanation: entry.explanation, answers }
+    broadcast(room)
+  }
+
+  const allConnectedAnswered = (room: Room) =>
+    room.players.every(player => !player.connected || room.answers.has(player.id))
+
+  const removeMember = (connection_id: string) => {
+    const member = members.get(connection_id)
+    members.delete(connection_id)
+    if (!member) return
+
+    const room = rooms.get(member.code)
+    if (!room) return
+
+    const player = room.players.find(p => p.id === member.player_id)
+    if (player) player.connected = false
+    room.connections.delete(member.player_id)
+
+    if (room.connections.size === 0) {
+      clearTimer(room)
+      rooms.delete(room.code)
+      return
+    }
+
+    // Hand the host role to the next connected player
+    if (room.host_id === member.player_id) {
+      room.host_id = room.players.find(p => p.connected)?.id ?? room.host_id
+    }
+    if (room.phase === 'question' && allConnectedAnswered(room)) {
+      revealAnswer(room)
+      return
+    }
+    broadcast(room)
+  }
+
+  // A disconnected player rejoining with their token keeps their slot and score
+  const addPlayer = (connection_id: string, room: Room, name: string, existing: RoomPlayer | null = null) => {
+    const player: RoomPlayer = existing ?? { id: `player-${++playerCounter}`, name, connected: true, locked_in: false }
+    player.connected = true
+    if (!existing) {
+      room.players.push(player)
+      room.rejoin_tokens.set(player.id, randomUUID())
+    }
+
+    room.connections.set(player.id, connection_id)
+    members.set(connection_id, { code: room.code, player_id: player.id })
+    send(connection_id, { type: 'joined', code: room.code, player_id: player.id, rejoin_token: room.rejoin_tokens.get(player.id)! })
+    broadcast(room)
+  }
+
+  const handleMessage = (connection_id: string, message: ClientMessage) => {
+    const member = members.get(connection_id)
+    const room = member ? rooms.get(member.code) : null
+
+    switch (message.type) {
+      case 'create_room': {
+        const name = cleanName(message.name)
+        if (!name) return error(connection_id, 'Please enter your name')
+        if (!isValidSettings(message.settings, bank)) return error(connection_id, 'Invalid room settings')
+        if (member) removeMember(connection_id)
+
+        const { categories, difficulty, round_length, timed } = message.settings
+        const newRoom: Room = {
+          code: generateCode(),
+          phase: 'lobby',
+          host_id: '',
+          settings: { categories: [...new Set(categories)], difficulty, round_length, timed: !!timed },
+          players: [],
+          connections: new Map(),
+          rejoin_tokens: new Map(),
+          deck: [],
+          index: 0,
+          answers: new Map(),
+          question_started_at: 0,
+          timer: null,
+          ledger: [],
+          reveal: null,
+        }
+        rooms.set(newRoom.code, newRoom)
+        addPlayer(connection_id, newRoom, name)
+        newRoom.host_id = members.get(connection_id).player_id
+        broadcast(newRoom)
+        return
+      }
+
+      case 'join_room': {
+        const name = cleanName(message.name)
+        const target = rooms.get(normalizeRoomCode(String(message.code ?? '')))
+        if (!name) return error(connection_id, 'Please enter your name')
+        if (!target) return error(connection_id, 'Room not found')
+
+        // Already in this room: leaving first could close it, so just re-send where they are
+        if (member?.code === target.code) {
+          const { player_id } = member
+          send(connection_id, { type: 'joined', code: target.code, player_id, rejoin_token: target.rejoin_tokens.get(player_id)! })
+          send(connection_id, { type: 'room_state', room: snapshot(target) })
+          return
+        }
+
+        const token = typeof message.rejoin_token === 'string' ? message.rejoin_token : null
+        const rejoining = token
+          ? target.players.find(p => !p.connected && target.rejoin_tokens.get(p.id) === token) ?? null
+          : null
+        if (!rejoining) {
+          if (target.phase !== 'lobby') return error(connection_id, 'This game has already started')
+          if (target.players.length >= MAX_ROOM_PLAYERS) return error(connection_id, 'This room is full')
+          if (target.players.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+            return error(connection_id, 'That name is already taken in this room')
+          }
+        }
+        if (member) removeMember(connection_id)
+        addPlayer(connection_id, target, name, rejoining)
+        return
+      }
+
+      case 'leave_room':
+        removeMember(connection_id)
+        send(connection_id, { type: 'left' })
+        return
+    }
+
+    if (!room) return error(connection_id, 'You are not in a room')
+
+    switch (message.type) {
+      case 'start_game': {
+        if (member.player_id !== room.host_id) return error(connection_id, 'Only the host can start the game')
+        if (room.phase !== 'lobby' && room.phase !== 'game_over') return error(connection_id, 'The game is already running')
+
+        const questions = room.settings.categories.flatMap(category => bank[category][room.settings.difficulty])
+        room.deck = shuffle(questions, random).slice(0, room.settings.round_length)
+        room.index = 0
+        room.ledger = []
+        askQuestion(room)
+        return
+      }
+
+      case 'submit_answer': {
+        if (room.phase !== 'question') return error(connection_id, 'No question is open')
+        if (room.answers.has(member.player_id)) return error(connection_id, 'Your answer is already locked in')
+        if (!room.deck[room.index].options.includes(message.answer)) return error(connection_id, 'Unknown answer option')
+
+        room.answers.set(member.player_id, { answer: message.answer, elapsed_ms: now() - room.question_started_at })
+        if (allConnectedAnswered(room)) {
+          revealAnswer(room)
+        } else {
+          broadcast(room)
+        }
+        return
+      }
+
+      case 'next_question': {
+        if (member.player_id !== room.host_id) return error(connection_id, 'Only the host can move on')
+        if (room.phase !== 'reveal') return error(connection_id, 'The current question is still open')
+
+        room.index += 1
+        if (room.index >= room.deck.length) {
+          room.phase = 'game_over'
+          room.answers = new Map()
+          room.reveal = null
+          broadcast(room)
+          return
+        }
+        askQuestion(room)
+        return
+      }
+    }
+  }
+
+  return {
+    handleMessage,
+    disconnect: removeMember,
+    roomCount: () => rooms.size,
+  }
+}
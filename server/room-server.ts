@@ -0,0 +1,62 @@
+/**
+ * Trivia Room Server
+ *
+ * Reference WebSocket server for multiplayer trivia rooms. Run it next to the
+ * Vite dev server with `npm run room-server`; clients connect to
+ * VITE_ROOM_SERVER_URL (default ws://<host>:8787). Rooms live in memory and
+ * disappear when the last player disconnects.
+ *
+ * Environment:
+ *   ROOM_SERVER_PORT - port to listen on (default 8787)
+ */
+
+import { randomUUID } from 'node:crypto'
+import { WebSocketServer, WebSocket } from 'ws'
+import { createRoomManager } from './room-manager'
+import { ROOM_SERVER_PORT, parseClientMessage, type ServerMessage } from '../src/lib/room-protocol'
+
+const port = Number(process.env.ROOM_SERVER_PORT) || ROOM_SERVER_PORT
+const sockets = new Map<string, WebSocket>()
+
+const manager = createRoomManager({
+  send: (connection_id: string, message: ServerMessage) => {
+    const socket = sockets.get(connection_id)
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message))
+    }
+  },
+})
+
+const server = new WebSocketServer({ port })
+
+server.on('connection', (socket) => {
+  const connection_id = randomUUID()
+  sockets.set(connection_id, socket)
+
+  socket.on('message', (data) => {
+    const message = parseClientMessage(data.toString())
+    if (!message) {
+      socket.send(JSON.stringify({ type: 'error', message: 'Unrecognised message' } satisfies ServerMessage))
+      return
+    }
+    manager.handleMessage(connection_id, message)
+  })
+
+  socket.on('close', () => {
+    manager.disconnect(connection_id)
+    sockets.delete(connection_id)
+  })
+})
+
+server.on('listening', () => {
+  console.log(`[RoomServer] Listening on ws://localhost:${port}`)
+})
+
+const shutdown = () => {
+  console.log('[RoomServer] Shutting down')
+  server.close(() => process.exit(0))
+  sockets.forEach(socket => socket.terminate())
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
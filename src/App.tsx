@@ -2,6 +2,7 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
 import Home from './pages/Home'
+import Stats from './pages/Stats'
 import NotFound from './pages/NotFound'
 
 export default function App() {
@@ -11,6 +12,7 @@ export default function App() {
         <AgentInterceptorProvider>
           <Routes>
             <Route path="/" element={<Home />} />
+            <Route path="/stats" element={<Stats />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AgentInterceptorProvider>
@@ -0,0 +1,77 @@
+import {
+  Award,
+  BookOpen,
+  Building2,
+  Car,
+  Code,
+  Compass,
+  Cpu,
+  DollarSign,
+  Dumbbell,
+  Film,
+  Flag,
+  Flame,
+  Globe,
+  Heart,
+  Landmark,
+  Lightbulb,
+  Map,
+  Mic,
+  Music,
+  Plane,
+  Rocket,
+  Sparkles,
+  Star,
+  Sun,
+  Target,
+  Trophy,
+  Video,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react'
+
+/**
+ * Icons available for categories. Custom categories pick from the approved
+ * lucide-react icons in ICON_EXPORTS.ts; the rest are used by built-ins.
+ */
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Rocket,
+  BookOpen,
+  Globe,
+  Film,
+  Dumbbell,
+  Lightbulb,
+  Music,
+  Video,
+  Mic,
+  Code,
+  Cpu,
+  Map,
+  Compass,
+  Plane,
+  Car,
+  Landmark,
+  Building2,
+  DollarSign,
+  Heart,
+  Star,
+  Sparkles,
+  Flame,
+  Sun,
+  Zap,
+  Award,
+  Trophy,
+  Target,
+  Flag,
+}
+
+export const CUSTOM_CATEGORY_ICON_NAMES = Object.keys(CATEGORY_ICONS).filter(
+  name => !['Rocket', 'BookOpen', 'Film', 'Dumbbell'].includes(name)
+)
+
+export function CategoryIcon({ name, className }: { name: string; className?: string }) {
+  const Icon = CATEGORY_ICONS[name] ?? Lightbulb
+  return <Icon className={className} />
+}
+
+export default CategoryIcon
@@ -0,0 +1,230 @@
+import { useState } from 'react'
+import {
+  BUILT_IN_CATEGORIES,
+  MAX_TOPIC_LENGTH,
+  addCustomCategory,
+  removeCustomCategory,
+  type CategoryDefinition,
+} from '@/lib/categories'
+import { CategoryIcon, CUSTOM_CATEGORY_ICON_NAMES } from '@/components/CategoryIcon'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Plus, X } from 'lucide-react'
+
+interface CategoryPickerProps {
+  customCategories: CategoryDefinition[]
+  onCustomCategoriesChange: (categories: CategoryDefinition[]) => void
+  /** Ids of the selected categories */
+  selected: string[]
+  onSelectedChange: (ids: string[]) => void
+  topic: string
+  onTopicChange: (topic: string) => void
+}
+
+// Selectable category tile
+function CategoryCard({
+  category,
+  selected,
+  onClick,
+  onRemove
+}: {
+  category: CategoryDefinition
+  selected: boolean
+  onClick: () => void
+  onRemove?: () => void
+}) {
+  return (
+    <div className="relative">
+      <button
+        onClick={onClick}
+        aria-pressed={selected}
+        title={category.description}
+        className={`w-full h-full p-6 rounded-xl border-2 transition-all flex flex-col items-center justify-center ${
+          selected
+            ? 'border-red-500 bg-gradient-to-br from-red-500 to-rose-600 shadow-lg'
+            : 'border-gray-200 bg-white hover:border-red-300 hover:shadow-md'
+        }`}
+      >
+        <div className="mb-2">
+          <CategoryIcon name={category.icon} className={`h-10 w-10 ${selected ? 'text-white' : 'text-gray-600'}`} />
+        </div>
+        <div className={`font-semibold text-center ${selected ? 'text-white' : 'text-gray-800'}`}>{category.name}</div>
+      </button>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          aria-label={`Delete ${category.name}`}
+          className="absolute top-1 right-1 p-1 rounded-full bg-white/80 text-gray-500 hover:text-red-600"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+// Form for a new custom category
+function AddCategoryDialog({
+  open,
+  onOpenChange,
+  onAdded
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onAdded: (categories: CategoryDefinition[]) => void
+}) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [icon, setIcon] = useState(CUSTOM_CATEGORY_ICON_NAMES[0])
+  const [error, setError] = useState<string | null>(null)
+
+  const save = () => {
+    try {
+      onAdded(addCustomCategory({ name, description, icon }))
+      setName('')
+      setDescription('')
+      setError(null)
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New category</DialogTitle>
+          <DialogDescription>The AI host uses the name and description to write questions.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="custom-category-name">Name</Label>
+            <Input
+              id="custom-category-name"
+              value={name}
+              maxLength={40}
+              placeholder="e.g. Mythology"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-category-description">Description</Label>
+            <Textarea
+              id="custom-category-description"
+              value={description}
+              maxLength={200}
+              placeholder="e.g. Greek, Norse and Egyptian gods and legends"
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="grid grid-cols-8 gap-2">
+              {CUSTOM_CATEGORY_ICON_NAMES.map((iconName) => (
+                <button
+                  key={iconName}
+                  onClick={() => setIcon(iconName)}
+                  aria-label={iconName}
+                  aria-pressed={icon === iconName}
+                  className={`p-2 rounded-lg border-2 flex items-center justify-center ${
+                    icon === iconName ? 'border-red-500 bg-red-50 text-red-600' : 'border-gray-200 text-gray-600 hover:border-red-300'
+                  }`}
+                >
+                  <CategoryIcon name={iconName} className="h-5 w-5" />
+                </button>
+              ))}
+            </div>
+          </div>
+          {error && <p className="text-red-700 text-sm">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} disabled={!name.trim()} className="bg-gradient-to-r from-red-500 to-rose-600 text-white">
+            Add category
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * Multi-select category grid with custom categories and a free-form topic
+ */
+export function CategoryPicker({
+  customCategories,
+  onCustomCategoriesChange,
+  selected,
+  onSelectedChange,
+  topic,
+  onTopicChange,
+}: CategoryPickerProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const toggle = (id: string) => {
+    onSelectedChange(selected.includes(id) ? selected.filter(current => current !== id) : [...selected, id])
+  }
+
+  const remove = (id: string) => {
+    onCustomCategoriesChange(removeCustomCategory(id))
+    onSelectedChange(selected.filter(current => current !== id))
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[...BUILT_IN_CATEGORIES, ...customCategories].map((category) => (
+          <CategoryCard
+            key={category.id}
+            category={category}
+            selected={selected.includes(category.id)}
+            onClick={() => toggle(category.id)}
+            onRemove={category.custom ? () => remove(category.id) : undefined}
+          />
+        ))}
+        <button
+          onClick={() => setDialogOpen(true)}
+          className="p-6 rounded-xl border-2 border-dashed border-gray-300 bg-white hover:border-red-300 transition-all flex flex-col items-center justify-center text-gray-600"
+        >
+          <Plus className="h-10 w-10 mb-2" />
+          <span className="font-semibold">Custom</span>
+        </button>
+      </div>
+
+      <p className="text-gray-600 text-sm">Pick one or more categories to mix them in one round.</p>
+
+      <div className="space-y-2">
+        <Label htmlFor="free-form-topic" className="text-gray-900 font-semibold">Or add your own topic</Label>
+        <Input
+          id="free-form-topic"
+          value={topic}
+          maxLength={MAX_TOPIC_LENGTH}
+          placeholder='e.g. "1990s video games"'
+          onChange={(e) => onTopicChange(e.target.value)}
+        />
+      </div>
+
+      <AddCategoryDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onAdded={(categories) => {
+          onCustomCategoriesChange(categories)
+          onSelectedChange([...selected, categories[categories.length - 1].id])
+        }}
+      />
+    </div>
+  )
+}
+
+export default CategoryPicker
@@ -0,0 +1,56 @@
+import { NavLink } from 'react-router-dom'
+import { UserCircle } from 'lucide-react'
+
+const NAV_LINKS = [
+  { to: '/', label: 'Play' },
+  { to: '/stats', label: 'Stats' },
+]
+
+interface HeaderProps {
+  /** Name of the player whose turn it is (hot-seat games) */
+  currentPlayer?: string | null
+}
+
+export default function Header({ currentPlayer }: HeaderProps = {}) {
+  return (
+    <header className="w-full bg-white border-b border-gray-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <img
+              src="https://asset.lyzr.app/k7ESQXrU"
+              alt="Profile"
+              className="h-10 w-10 rounded-full object-cover"
+            />
+            <h1 className="text-2xl font-bold text-gray-900">Hello World</h1>
+          </div>
+          {currentPlayer && (
+            <div
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-red-500 to-rose-600 text-white font-semibold shadow-md"
+              aria-live="polite"
+            >
+              <UserCircle className="h-5 w-5" />
+              {currentPlayer}'s turn
+            </div>
+          )}
+          <nav className="flex items-center gap-2">
+            {NAV_LINKS.map((link) => (
+              <NavLink
+                key={link.to}
+                to={link.to}
+                end
+                className={({ isActive }) =>
+                  `px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                    isActive ? 'bg-red-50 text-red-600' : 'text-gray-600 hover:text-gray-900'
+                  }`
+                }
+              >
+                {link.label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -3,6 +3,7 @@
 import * as React from 'react'
 import { useRAGKnowledgeBase, SUPPORTED_FILE_TYPES, type RAGDocument } from '@/utils/ragKnowledgeBase'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import { cn } from '@/lib/utils'
 
 interface KnowledgeBaseUploadProps {
@@ -10,6 +11,9 @@ interface KnowledgeBaseUploadProps {
   className?: string
   onUploadSuccess?: (document: { documentId?: string; documentCount?: number }) => void
   onDeleteSuccess?: (fileName: string) => void
+  /** When set, each document gets a checkbox (e.g. to pick documents for a quiz) */
+  selectedDocuments?: string[]
+  onSelectionChange?: (fileNames: string[]) => void
 }
 
 export function KnowledgeBaseUpload({
@@ -17,6 +21,8 @@ export function KnowledgeBaseUpload({
   className,
   onUploadSuccess,
   onDeleteSuccess,
+  selectedDocuments,
+  onSelectionChange,
 }: KnowledgeBaseUploadProps) {
   const {
     documents,
@@ -91,6 +97,7 @@ export function KnowledgeBaseUpload({
     const result = await removeDocuments(ragId, [fileName])
 
     if (result.success) {
+      onSelectionChange?.((selectedDocuments ?? []).filter(name => name !== fileName))
       onDeleteSuccess?.(fileName)
     } else {
       alert(result.error || 'Delete failed')
@@ -185,6 +192,19 @@ export function KnowledgeBaseUpload({
                   className="flex items-center justify-between p-3"
                 >
                   <div className="flex items-center gap-3">
+                    {onSelectionChange && (
+                      <Checkbox
+                        checked={selectedDocuments?.includes(doc.fileName) ?? false}
+                        onCheckedChange={(checked) =>
+                          onSelectionChange(
+                            checked
+                              ? [...(selectedDocuments ?? []), doc.fileName]
+                              : (selectedDocuments ?? []).filter(name => name !== doc.fileName)
+                          )
+                        }
+                        aria-label={`Use ${doc.fileName}`}
+                      />
+                    )}
                     {getFileIcon(doc.fileType)}
                     <div>
                       <p className="text-sm font-medium">{doc.fileName}</p>
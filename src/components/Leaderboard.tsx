@@ -0,0 +1,68 @@
+import type { PlayerStanding } from '@/lib/hot-seat'
+import { Trophy, Medal } from 'lucide-react'
+
+interface LeaderboardProps {
+  standings: PlayerStanding[]
+  /** Highlight this player (e.g. whose turn it is, or yourself in a room) */
+  activePlayerId?: string | null
+  compact?: boolean
+}
+
+const RANK_STYLES: Record<number, string> = {
+  1: 'bg-gradient-to-br from-amber-50 to-yellow-50 border-amber-300',
+  2: 'bg-gray-50 border-gray-300',
+  3: 'bg-orange-50 border-orange-200',
+}
+
+/**
+ * Ranked multiplayer scoreboard (hot-seat games and online rooms)
+ */
+export function Leaderboard({ standings, activePlayerId, compact = false }: LeaderboardProps) {
+  if (compact) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        {standings.map(({ player, score }) => (
+          <div
+            key={player.id}
+            className={`px-3 py-1 rounded-full border text-sm ${
+              player.id === activePlayerId
+                ? 'border-red-400 bg-red-50 text-red-700 font-semibold'
+                : 'border-gray-200 bg-white text-gray-700'
+            }`}
+          >
+            {player.name}: {score.points ?? 0}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <ol className="space-y-3">
+      {standings.map(({ player, score, rank }) => (
+        <li
+          key={player.id}
+          className={`flex items-center justify-between p-4 rounded-xl border-2 ${RANK_STYLES[rank] ?? 'bg-white border-gray-200'}`}
+        >
+          <div className="flex items-center gap-3">
+            {rank === 1 ? (
+              <Trophy className="h-6 w-6 text-amber-500" />
+            ) : (
+              <Medal className={`h-6 w-6 ${rank <= 3 ? 'text-gray-500' : 'text-gray-300'}`} />
+            )}
+            <span className="text-gray-500 font-semibold w-6">#{rank}</span>
+            <span className="text-gray-900 font-semibold text-lg">{player.name}</span>
+          </div>
+          <div className="text-right">
+            <p className="text-gray-900 font-bold text-xl">{score.points ?? 0} pts</p>
+            <p className="text-gray-600 text-sm">
+              {score.correct}/{score.total} correct ({score.percentage}%)
+            </p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export default Leaderboard
@@ -0,0 +1,68 @@
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { MIN_PLAYERS, MAX_PLAYERS } from '@/lib/hot-seat'
+import { Plus, X } from 'lucide-react'
+
+interface PlayerSetupProps {
+  names: string[]
+  onChange: (names: string[]) => void
+}
+
+/**
+ * Name entry for hot-seat players (2-8 players)
+ */
+export function PlayerSetup({ names, onChange }: PlayerSetupProps) {
+  const updateName = (index: number, name: string) => {
+    onChange(names.map((current, i) => (i === index ? name : current)))
+  }
+
+  const addPlayer = () => {
+    if (names.length >= MAX_PLAYERS) return
+    onChange([...names, ''])
+  }
+
+  const removePlayer = (index: number) => {
+    if (names.length <= MIN_PLAYERS) return
+    onChange(names.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {names.map((name, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-gray-500 text-sm font-semibold w-6">{index + 1}.</span>
+            <Input
+              value={name}
+              placeholder={`Player ${index + 1}`}
+              maxLength={24}
+              aria-label={`Player ${index + 1} name`}
+              onChange={(e) => updateName(index, e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removePlayer(index)}
+              disabled={names.length <= MIN_PLAYERS}
+              aria-label={`Remove player ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={addPlayer}
+        disabled={names.length >= MAX_PLAYERS}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add player
+      </Button>
+    </div>
+  )
+}
+
+export default PlayerSetup
@@ -0,0 +1,193 @@
+import { getQuestionType, joinAnswer, splitAnswer, getDefaultAnswer, toggleOption } from '@/lib/question-types'
+import type { PartialQuestion } from '@/lib/partial-question'
+import { Input } from '@/components/ui/input'
+import { Kbd } from '@/components/ui/kbd'
+import { ArrowDown, ArrowUp, Check } from 'lucide-react'
+import type { Question } from '@/types'
+
+interface QuestionInputProps {
+  /** Question on screen, possibly still streaming in */
+  question: Question | PartialQuestion
+  /** Answer so far, in the format src/lib/question-types.ts grades */
+  value: string | null
+  onChange: (value: string) => void
+  disabled: boolean
+  /** Submit a typed answer with Enter */
+  onSubmit?: () => void
+  /** Show the number key that picks each option */
+  shortcutHints?: boolean
+}
+
+interface InputProps extends Omit<QuestionInputProps, 'question'> {
+  options: string[]
+}
+
+// Option button for choice and multi-select questions
+function OptionButton({
+  option,
+  selected,
+  disabled,
+  multiple = false,
+  shortcut,
+  onClick
+}: {
+  option: string
+  selected: boolean
+  disabled: boolean
+  multiple?: boolean
+  /** Key that picks this option, shown as a hint */
+  shortcut?: string
+  onClick: () => void
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={selected}
+      aria-keyshortcuts={shortcut}
+      className={`w-full p-4 rounded-lg border-2 text-left transition-all ${
+        selected
+          ? 'border-red-500 bg-red-50 shadow-md'
+          : 'border-gray-200 bg-white hover:border-red-300 hover:shadow-sm'
+      } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+    >
+      <div className={`flex items-center gap-3 font-medium ${selected ? 'text-red-900' : 'text-gray-900'}`}>
+        {multiple && (
+          <span className={`flex h-5 w-5 flex-shrink-0 items-center justify-center rounded border-2 ${
+            selected ? 'border-red-500 bg-red-500 text-white' : 'border-gray-300'
+          }`}>
+            {selected && <Check className="h-3 w-3" />}
+          </span>
+        )}
+        <span className="flex-1">{option}</span>
+        {shortcut && <Kbd aria-hidden="true">{shortcut}</Kbd>}
+      </div>
+    </button>
+  )
+}
+
+// Multiple choice and true/false: pick one
+function ChoiceInput({ options, value, onChange, disabled, shortcutHints }: InputProps) {
+  return (
+    <div className="space-y-3">
+      {options.map((option, index) => (
+        <OptionButton
+          key={index}
+          option={option}
+          selected={value === option}
+          disabled={disabled}
+          shortcut={shortcutHints && index < 9 ? String(index + 1) : undefined}
+          onClick={() => onChange(option)}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Multi-select: pick every option that applies
+function MultiSelectInput({ options, value, onChange, disabled, shortcutHints }: InputProps) {
+  const selected = value ? splitAnswer(value) : []
+
+  return (
+    <div className="space-y-3">
+      <p className="text-gray-600 text-sm">Select all that apply.</p>
+      {options.map((option, index) => (
+        <OptionButton
+          key={index}
+          option={option}
+          selected={selected.includes(option)}
+          disabled={disabled}
+          multiple
+          shortcut={shortcutHints && index < 9 ? String(index + 1) : undefined}
+          onClick={() => onChange(toggleOption(options, value, option))}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Ordering: move items up and down into the right order
+function OrderingInput({ options, value, onChange, disabled }: InputProps) {
+  const order = value ? splitAnswer(value) : options
+  const move = (index: number, by: number) => {
+    const next = [...order]
+    ;[next[index], next[index + by]] = [next[index + by], next[index]]
+    onChange(joinAnswer(next))
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-gray-600 text-sm">Put these in the right order, first at the top.</p>
+      <ol className="space-y-2">
+        {order.map((item, index) => (
+          <li key={item} className="flex items-center gap-3 p-3 rounded-lg border-2 border-gray-200 bg-white">
+            <span className="w-6 text-center font-semibold text-gray-500 tabular-nums">{index + 1}</span>
+            <span className="flex-1 font-medium text-gray-900">{item}</span>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={disabled || index === 0}
+              aria-label={`Move ${item} up`}
+              className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={disabled || index === order.length - 1}
+              aria-label={`Move ${item} down`}
+              className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+// Free text and numeric: type the answer
+function TypedInput({ value, onChange, disabled, onSubmit, numeric, unit }: InputProps & { numeric: boolean; unit?: string }) {
+  return (
+    <div className="flex items-center gap-3">
+      <Input
+        value={value ?? ''}
+        onChange={(event) => onChange(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' && value?.trim()) onSubmit?.()
+        }}
+        disabled={disabled}
+        inputMode={numeric ? 'decimal' : 'text'}
+        autoComplete="off"
+        aria-label={numeric ? 'Your estimate' : 'Your answer'}
+        placeholder={numeric ? 'Enter a number' : 'Type your answer'}
+        className="h-12 text-lg"
+      />
+      {unit && <span className="text-gray-700 font-medium">{unit}</span>}
+    </div>
+  )
+}
+
+/**
+ * Answer input for any question type: option buttons, checkboxes, a
+ * reorderable list or a text box
+ */
+export function QuestionInput({ question, ...props }: QuestionInputProps) {
+  const type = getQuestionType(question)
+  const options = question.options ?? []
+
+  switch (type) {
+    case 'multi_select':
+      return <MultiSelectInput options={options} {...props} />
+    case 'ordering':
+      return <OrderingInput options={options} {...props} value={props.value ?? getDefaultAnswer(question)} />
+    case 'free_text':
+      return <TypedInput options={options} {...props} numeric={false} />
+    case 'numeric':
+      return <TypedInput options={options} {...props} numeric unit={'unit' in question ? question.unit : undefined} />
+    default:
+      return <ChoiceInput options={options} {...props} />
+  }
+}
+
+export default QuestionInput
@@ -0,0 +1,162 @@
+import { useState, type ReactNode } from 'react'
+import { getDueCards, getNextDueDate, loadReviewDeck, replaceCard, reviewCard, saveReviewDeck, type ReviewCard } from '@/lib/review-deck'
+import { describeCorrectAnswer, getDefaultAnswer, gradeAnswerLocally } from '@/lib/question-types'
+import QuestionInput from '@/components/QuestionInput'
+import Header from '@/components/Header'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, CalendarClock, CheckCircle, XCircle } from 'lucide-react'
+
+interface ReviewSessionProps {
+  /** Return to single-player setup */
+  onExit: () => void
+}
+
+interface ReviewResult {
+  card: ReviewCard
+  correct: boolean
+}
+
+const primaryButton = 'w-full bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white shadow-lg'
+
+function describeInterval(days: number): string {
+  return days === 1 ? 'tomorrow' : `in ${days} days`
+}
+
+/**
+ * Review mode: replays the missed questions that are due, grades them
+ * locally and reschedules each one in the review deck
+ */
+export function ReviewSession({ onExit }: ReviewSessionProps) {
+  // Cards due when the session started; reviewing one doesn't add it back
+  const [cards] = useState(() => getDueCards(loadReviewDeck()))
+  const [index, setIndex] = useState(0)
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null)
+  const [results, setResults] = useState<ReviewResult[]>([])
+
+  const card = cards[index] ?? null
+  const result = results.length > index ? results[index] : null
+
+  const answer = card ? selectedAnswer ?? getDefaultAnswer(card.question) : null
+
+  const submitAnswer = () => {
+    const correct = gradeAnswerLocally(card.question, answer) === true
+    const deck = loadReviewDeck()
+    const reviewed = reviewCard(deck.find(entry => entry.id === card.id) ?? card, correct)
+    saveReviewDeck(replaceCard(deck, reviewed))
+    setResults([...results, { card: reviewed, correct }])
+  }
+
+  const nextCard = () => {
+    setSelectedAnswer(null)
+    setIndex(index + 1)
+  }
+
+  const shell = (children: ReactNode) => (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex items-center justify-center px-4 py-8">
+        <Card className="w-full max-w-3xl border-gray-200 shadow-xl bg-white">{children}</Card>
+      </div>
+    </div>
+  )
+
+  const backButton = (
+    <Button onClick={onExit} variant="outline" size="lg" className="w-full">
+      <ArrowLeft className="mr-2 h-5 w-5" />
+      Back to Setup
+    </Button>
+  )
+
+  // Nothing (left) to review
+  if (!card) {
+    const correct = results.filter(entry => entry.correct).length
+    const nextDue = getNextDueDate(loadReviewDeck())
+
+    return shell(
+      <>
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl text-gray-900">{cards.length > 0 ? 'Review Complete' : 'Nothing to Review'}</CardTitle>
+          <CardDescription>
+            {cards.length > 0
+              ? `You reviewed ${cards.length} ${cards.length === 1 ? 'question' : 'questions'} and got ${correct} right.`
+              : 'Questions you miss in a game show up here when they are due for review.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {nextDue && (
+            <p className="flex items-center justify-center gap-2 text-gray-600">
+              <CalendarClock className="h-4 w-4" />
+              Next review due {nextDue.toLocaleString()}
+            </p>
+          )}
+          {backButton}
+        </CardContent>
+      </>
+    )
+  }
+
+  const { question } = card
+  const correctOption = describeCorrectAnswer(question)
+
+  return shell(
+    <>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-gray-500 text-sm font-medium">Review {index + 1} of {cards.length}</p>
+          {card.topic && <Badge variant="outline" className="text-gray-700 border-gray-300 bg-gray-50">{card.topic}</Badge>}
+        </div>
+        <CardTitle className="text-2xl text-gray-900 leading-relaxed">{question.text}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <QuestionInput
+          question={question}
+          value={selectedAnswer}
+          onChange={setSelectedAnswer}
+          disabled={result !== null}
+          onSubmit={submitAnswer}
+        />
+
+        {result ? (
+          <>
+            <div className={`flex items-center gap-3 p-4 rounded-lg shadow-md border-2 ${
+              result.correct ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'
+            }`}>
+              {result.correct ? (
+                <CheckCircle className="h-8 w-8 text-green-600 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-8 w-8 text-red-600 flex-shrink-0" />
+              )}
+              <div>
+                <p className={`font-semibold text-lg ${result.correct ? 'text-green-800' : 'text-red-800'}`}>
+                  {result.correct ? 'Correct!' : `Not quite. The answer was ${correctOption}.`}
+                </p>
+                <p className="text-gray-700 text-sm">You'll see this question again {describeInterval(result.card.interval_days)}.</p>
+              </div>
+            </div>
+
+            {card.explanation && (
+              <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <h4 className="text-blue-900 font-semibold mb-2">Explanation</h4>
+                <p className="text-gray-700">{card.explanation}</p>
+              </div>
+            )}
+
+            <Button onClick={nextCard} size="lg" className={primaryButton}>
+              {index + 1 < cards.length ? 'Next Review' : 'Finish Review'}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={submitAnswer} disabled={!answer?.trim()} size="lg" className={primaryButton}>
+            Submit Answer
+          </Button>
+        )}
+
+        {backButton}
+      </CardContent>
+    </>
+  )
+}
+
+export default ReviewSession
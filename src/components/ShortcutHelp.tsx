@@ -0,0 +1,64 @@
+import type { KeyboardShortcut } from '@/hooks/useKeyboardShortcuts'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Kbd, KbdGroup } from '@/components/ui/kbd'
+import { Button } from '@/components/ui/button'
+import { Keyboard } from 'lucide-react'
+
+interface ShortcutHelpProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  shortcuts: KeyboardShortcut[]
+}
+
+/**
+ * Button that opens the shortcut help; also opened with "?"
+ */
+export function ShortcutHelpButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Button onClick={onClick} variant="ghost" size="sm" aria-keyshortcuts="?" className="text-gray-500">
+      <Keyboard className="mr-2 h-4 w-4" />
+      Keyboard shortcuts
+    </Button>
+  )
+}
+
+/**
+ * Overlay listing the keyboard shortcuts
+ */
+export function ShortcutHelp({ open, onOpenChange, shortcuts }: ShortcutHelpProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>Play the whole game without a mouse. Shortcuts pause while you type an answer.</DialogDescription>
+        </DialogHeader>
+        <dl className="divide-y divide-gray-100">
+          {shortcuts.map((shortcut) => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4 py-2">
+              <dt className="text-gray-700">{shortcut.description}</dt>
+              <dd>
+                <KbdGroup>
+                  {shortcut.label.map((key, index) => (
+                    <span key={key} className="inline-flex items-center gap-1">
+                      {index > 0 && <span className="text-gray-400 text-xs">or</span>}
+                      <Kbd>{key}</Kbd>
+                    </span>
+                  ))}
+                </KbdGroup>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ShortcutHelp
@@ -0,0 +1,391 @@
+import { useState, useEffect, useRef, type ReactNode } from 'react'
+import { useTriviaRoom } from '@/hooks/useTriviaRoom'
+import { normalizeRoomCode, ROOM_CODE_LENGTH, type RoomSettings, type RoomSnapshot } from '@/lib/room-protocol'
+import { findOption } from '@/lib/answer-options'
+import Header from '@/components/Header'
+import Leaderboard from '@/components/Leaderboard'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Separator } from '@/components/ui/separator'
+import { ArrowLeft, CheckCircle, Loader2, Lock, LogOut, Play, Timer, Users, Wifi, WifiOff, XCircle } from 'lucide-react'
+
+interface TriviaRoomProps {
+  /** Settings used when this player creates a room */
+  settings: RoomSettings
+  /** Return to single-player setup */
+  onExit: () => void
+}
+
+const primaryButton = 'w-full bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white shadow-lg'
+
+// Seconds left on the current question, counted down locally from the server's snapshot
+function useRoomCountdown(room: RoomSnapshot | null): number | null {
+  const [now, setNow] = useState(Date.now)
+  const deadlineRef = useRef<{ key: string; deadline: number } | null>(null)
+
+  const question = room?.phase === 'question' ? room.question : null
+  const key = question ? `${room.code}-${question.index}` : null
+
+  if (question?.remaining_ms != null && deadlineRef.current?.key !== key) {
+    deadlineRef.current = { key, deadline: Date.now() + question.remaining_ms }
+  }
+
+  useEffect(() => {
+    if (!key || question?.remaining_ms == null) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [key, question?.remaining_ms])
+
+  if (!question || question.remaining_ms == null || deadlineRef.current?.key !== key) return null
+  return Math.max(0, deadlineRef.current.deadline - now)
+}
+
+function ErrorMessage({ error }: { error: string | null }) {
+  if (!error) return null
+  return (
+    <div className="text-red-700 text-center p-3 bg-red-50 rounded-lg border border-red-200">
+      {error}
+    </div>
+  )
+}
+
+/**
+ * Real-time multiplayer room: create or join by code, then play the same
+ * questions as everyone else in the room
+ */
+export function TriviaRoom({ settings, onExit }: TriviaRoomProps) {
+  const room = useTriviaRoom()
+  const [name, setName] = useState('')
+  const [code, setCode] = useState('')
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null)
+  const remainingMs = useRoomCountdown(room.snapshot)
+
+  const snapshot = room.snapshot
+  const me = snapshot?.players.find(player => player.id === room.playerId) ?? null
+  const questionKey = snapshot?.question ? `${snapshot.code}-${snapshot.question.index}` : null
+
+  // Clear the selection whenever a new question is dealt
+  useEffect(() => {
+    setSelectedAnswer(null)
+  }, [questionKey])
+
+  const leave = () => {
+    room.leaveRoom()
+    onExit()
+  }
+
+  const connectionBadge = (
+    <Badge variant="outline" className={room.status === 'open' ? 'text-green-700 border-green-300 bg-green-50' : 'text-gray-600'}>
+      {room.status === 'open' ? <Wifi className="mr-1 h-3 w-3" /> : <WifiOff className="mr-1 h-3 w-3" />}
+      {room.status === 'open' ? 'Connected' : room.status === 'connecting' ? 'Connecting...' : 'Offline'}
+    </Badge>
+  )
+
+  const shell = (children: ReactNode) => (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex items-center justify-center px-4 py-8">
+        <Card className="w-full max-w-3xl border-gray-200 shadow-xl bg-white">{children}</Card>
+      </div>
+    </div>
+  )
+
+  // Join or create a room
+  if (!snapshot || !me) {
+    const connecting = room.status === 'connecting'
+
+    return shell(
+      <>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-2xl text-gray-900">Multiplayer Room</CardTitle>
+            {connectionBadge}
+          </div>
+          <CardDescription>Play the same questions live with friends on other devices.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="room-player-name" className="text-gray-900 font-semibold">Your name</Label>
+            <Input
+              id="room-player-name"
+              value={name}
+              maxLength={24}
+              placeholder="e.g. Ada"
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-gray-600 text-sm">
+              New room: {settings.categories.join(' + ')} on {settings.difficulty}, {settings.round_length} questions
+              {settings.timed ? ', timed' : ''}
+            </p>
+            <Button
+              onClick={() => room.createRoom(name, settings)}
+              disabled={!name.trim() || connecting}
+              size="lg"
+              className={primaryButton}
+            >
+              <Users className="mr-2 h-5 w-5" />
+              Create Room
+            </Button>
+          </div>
+
+          <Separator className="bg-gray-200" />
+
+          <div className="space-y-2">
+            <Label htmlFor="room-code" className="text-gray-900 font-semibold">Room code</Label>
+            <div className="flex gap-3">
+              <Input
+                id="room-code"
+                value={code}
+                placeholder="ABCD"
+                className="uppercase tracking-widest font-mono"
+                onChange={(event) => setCode(normalizeRoomCode(event.target.value))}
+              />
+              <Button
+                variant="outline"
+                onClick={() => room.joinRoom(code, name)}
+                disabled={!name.trim() || code.length !== ROOM_CODE_LENGTH || connecting}
+              >
+                Join Room
+              </Button>
+            </div>
+          </div>
+
+          <ErrorMessage error={room.error} />
+
+          <Button variant="ghost" onClick={leave} className="w-full">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to single player
+          </Button>
+        </CardContent>
+      </>
+    )
+  }
+
+  const roomHeader = (
+    <div className="flex items-center justify-between gap-3 mb-4">
+      <div className="flex items-center gap-2">
+        <span className="text-gray-600 text-sm">Room</span>
+        <span className="font-mono text-xl font-bold tracking-widest text-gray-900">{snapshot.code}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        {connectionBadge}
+        <Button variant="ghost" size="sm" onClick={leave}>
+          <LogOut className="mr-1 h-4 w-4" />
+          Leave
+        </Button>
+      </div>
+    </div>
+  )
+
+  // Lobby: wait for players, host starts the game
+  if (snapshot.phase === 'lobby') {
+    return shell(
+      <>
+        <CardHeader>
+          {roomHeader}
+          <CardTitle className="text-2xl text-gray-900">Waiting for players</CardTitle>
+          <CardDescription>
+            Share the code <span className="font-mono font-semibold">{snapshot.code}</span> so others can join.{' '}
+            {snapshot.settings.categories.join(' + ')} on {snapshot.settings.difficulty}, {snapshot.settings.round_length} questions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ul className="space-y-2">
+            {snapshot.players.map((player) => (
+              <li key={player.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-200">
+                <span className="font-semibold text-gray-900">
+                  {player.name}
+                  {player.id === room.playerId && <span className="text-gray-500 font-normal"> (you)</span>}
+                </span>
+                {player.id === snapshot.host_id && <Badge variant="outline">Host</Badge>}
+              </li>
+            ))}
+          </ul>
+
+          {room.isHost ? (
+            <Button onClick={room.startGame} size="lg" className={primaryButton}>
+              <Play className="mr-2 h-5 w-5" />
+              Start Game
+            </Button>
+          ) : (
+            <p className="flex items-center justify-center gap-2 text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Waiting for the host to start...
+            </p>
+          )}
+
+          <ErrorMessage error={room.error} />
+        </CardContent>
+      </>
+    )
+  }
+
+  // Open question: pick and lock in an answer
+  if (snapshot.phase === 'question' && snapshot.question) {
+    const { question } = snapshot
+    const waitingFor = snapshot.players.filter(player => player.connected && !player.locked_in)
+
+    return shell(
+      <>
+        <CardHeader>
+          {roomHeader}
+          <Leaderboard standings={snapshot.standings} activePlayerId={room.playerId} compact />
+          <p className="text-gray-500 text-sm font-medium">Question {question.index + 1} of {question.total}</p>
+          {question.time_limit_ms !== null && remainingMs !== null && (
+            <div className="flex items-center gap-3">
+              <Timer className="h-4 w-4 flex-shrink-0 text-gray-600" />
+              <Progress value={(remainingMs / question.time_limit_ms) * 100} className="bg-gray-200" />
+              <span className="text-sm font-semibold tabular-nums w-10 text-right text-gray-700">
+                {Math.ceil(remainingMs / 1000)}s
+              </span>
+            </div>
+          )}
+          <CardTitle className="text-2xl text-gray-900 leading-relaxed">{question.text}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            {question.options.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSelectedAnswer(option)}
+                disabled={me.locked_in}
+                className={`w-full p-4 rounded-lg border-2 text-left transition-all ${
+                  selectedAnswer === option
+                    ? 'border-red-500 bg-red-50 shadow-md'
+                    : 'border-gray-200 bg-white hover:border-red-300 hover:shadow-sm'
+                } ${me.locked_in ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <div className={`font-medium ${selectedAnswer === option ? 'text-red-900' : 'text-gray-900'}`}>{option}</div>
+              </button>
+            ))}
+          </div>
+
+          {me.locked_in ? (
+            <p className="flex items-center justify-center gap-2 text-gray-600">
+              <Lock className="h-4 w-4" />
+              Answer locked in. Waiting for {waitingFor.map(player => player.name).join(', ') || 'the reveal'}...
+            </p>
+          ) : (
+            <Button
+              onClick={() => room.submitAnswer(selectedAnswer)}
+              disabled={!selectedAnswer}
+              size="lg"
+              className={primaryButton}
+            >
+              <Lock className="mr-2 h-5 w-5" />
+              Lock In Answer
+            </Button>
+          )}
+
+          <ErrorMessage error={room.error} />
+        </CardContent>
+      </>
+    )
+  }
+
+  // Reveal: correct answer and everyone's result
+  if (snapshot.phase === 'reveal' && snapshot.question && snapshot.reveal) {
+    const { question, reveal } = snapshot
+    const myResult = reveal.answers[me.id]
+    const correctOption = findOption(question.options, reveal.correct_answer) ?? reveal.correct_answer
+    const lastQuestion = question.index + 1 >= question.total
+
+    return shell(
+      <>
+        <CardHeader>
+          {roomHeader}
+          <p className="text-gray-500 text-sm font-medium">Question {question.index + 1} of {question.total}</p>
+          <CardTitle className="text-2xl text-gray-900 leading-relaxed">{question.text}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {myResult && (
+            <div className={`flex items-center gap-3 p-4 rounded-lg shadow-md border-2 ${
+              myResult.is_correct ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'
+            }`}>
+              {myResult.is_correct ? (
+                <CheckCircle className="h-8 w-8 text-green-600 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-8 w-8 text-red-600 flex-shrink-0" />
+              )}
+              <div>
+                <p className={`font-semibold text-lg ${myResult.is_correct ? 'text-green-800' : 'text-red-800'}`}>
+                  {myResult.is_correct
+                    ? `Correct! +${myResult.points} points`
+                    : myResult.selected_answer === null ? "⏰ Time's up!" : 'Not quite.'}
+                </p>
+                <p className="text-gray-700 text-sm">Correct answer: {correctOption}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <h4 className="text-blue-900 font-semibold mb-2">Explanation</h4>
+            <p className="text-gray-700">{reveal.explanation}</p>
+          </div>
+
+          <ul className="space-y-2">
+            {snapshot.players.map((player) => {
+              const result = reveal.answers[player.id]
+              return (
+                <li key={player.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-200">
+                  <span className="font-semibold text-gray-900">{player.name}</span>
+                  <span className="flex items-center gap-2 text-sm text-gray-600">
+                    {result?.selected_answer ?? 'No answer'}
+                    {result?.is_correct
+                      ? <CheckCircle className="h-4 w-4 text-green-600" />
+                      : <XCircle className="h-4 w-4 text-red-500" />}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+
+          <Leaderboard standings={snapshot.standings} activePlayerId={room.playerId} compact />
+
+          {room.isHost ? (
+            <Button onClick={room.nextQuestion} size="lg" className={primaryButton}>
+              {lastQuestion ? 'See Results' : 'Next Question'}
+            </Button>
+          ) : (
+            <p className="text-center text-gray-600">Waiting for the host to continue...</p>
+          )}
+
+          <ErrorMessage error={room.error} />
+        </CardContent>
+      </>
+    )
+  }
+
+  // Game over: final standings
+  return shell(
+    <>
+      <CardHeader>
+        {roomHeader}
+        <CardTitle className="text-3xl text-gray-900 text-center">Final Standings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Leaderboard standings={snapshot.standings} activePlayerId={room.playerId} />
+
+        {room.isHost ? (
+          <Button onClick={room.startGame} size="lg" className={primaryButton}>
+            <Play className="mr-2 h-5 w-5" />
+            Play Again
+          </Button>
+        ) : (
+          <p className="text-center text-gray-600">Waiting for the host to start another round...</p>
+        )}
+
+        <ErrorMessage error={room.error} />
+      </CardContent>
+    </>
+  )
+}
+
+export default TriviaRoom
@@ -16,6 +16,7 @@
 import { useState, useCallback } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
 import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/utils/aiAgent'
+import { getAgentEndpoint } from '@/lib/agent-transport'
 
 // =============================================================================
 // Types
@@ -81,7 +82,7 @@ const createErrorDetails = (
   type,
   message,
   raw_response,
-  endpoint: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat',
+  endpoint: getAgentEndpoint('chat'),
   timestamp: new Date().toISOString(),
   userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
   url: typeof window !== 'undefined' ? window.location.href : 'unknown',
@@ -0,0 +1,64 @@
+/**
+ * useKeyboardShortcuts Hook
+ *
+ * Document-level keyboard shortcuts. Keys typed into form fields are left
+ * alone, as are keys with Ctrl, Alt or Meta held, and Enter and Space keep
+ * their native meaning on focused buttons and links. Shortcuts carry a
+ * description so the same list can feed the shortcut help overlay.
+ *
+ * @example
+ * ```tsx
+ * useKeyboardShortcuts([
+ *   { keys: ['n'], label: ['N'], description: 'Next question', handler: nextQuestion, enabled: screen === 'feedback' },
+ *   { keys: ['?'], label: ['?'], description: 'Show keyboard shortcuts', handler: () => setHelpOpen(true) },
+ * ])
+ * ```
+ */
+
+import { useEffect, useRef } from 'react'
+
+export interface KeyboardShortcut {
+  /** KeyboardEvent.key values, matched case-insensitively */
+  keys: string[]
+  /** Keys as shown in the help overlay, e.g. ['1–4', 'A–D'] */
+  label: string[]
+  description: string
+  /** Called with the matching event; the default action is prevented */
+  handler: (event: KeyboardEvent) => void
+  /** Defaults to true */
+  enabled?: boolean
+}
+
+const EDITABLE_SELECTOR = 'input, textarea, select, [contenteditable=""], [contenteditable="true"]'
+const ACTIVATABLE_SELECTOR = 'button, a[href], [role="button"], [role="link"], summary'
+
+function shouldIgnore(event: KeyboardEvent): boolean {
+  if (event.defaultPrevented || event.ctrlKey || event.altKey || event.metaKey) return true
+  const target = event.target instanceof Element ? event.target : null
+  if (target?.closest(EDITABLE_SELECTOR)) return true
+  return (event.key === 'Enter' || event.key === ' ') && !!target?.closest(ACTIVATABLE_SELECTOR)
+}
+
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[], enabled = true) {
+  // Latest shortcuts without re-binding the listener on every render
+  const shortcutsRef = useRef(shortcuts)
+  shortcutsRef.current = shortcuts
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnore(event)) return
+      const key = event.key.toLowerCase()
+      const shortcut = shortcutsRef.current.find(entry =>
+        entry.enabled !== false && entry.keys.some(candidate => candidate.toLowerCase() === key)
+      )
+      if (!shortcut) return
+      event.preventDefault()
+      shortcut.handler(event)
+    }
+
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,80 @@
+/**
+ * useQuestionTimer Hook
+ *
+ * Countdown for timed trivia questions. The timer restarts whenever
+ * `resetKey` changes (e.g. a new question), pauses while `running` is false
+ * and calls `onExpire` once when it reaches zero. Elapsed time is tracked
+ * even without a limit so untimed answers can still be timed.
+ *
+ * @example
+ * ```tsx
+ * const timer = useQuestionTimer({
+ *   limitMs: 20_000,
+ *   running: gameState === 'question' && !loading,
+ *   resetKey: question?.text,
+ *   onExpire: () => submitAnswer(null),
+ * })
+ * // timer.remainingMs, timer.getElapsedMs()
+ * ```
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+
+const TICK_MS = 100
+
+interface UseQuestionTimerOptions {
+  /** Time allowed in ms, or null for no countdown */
+  limitMs: number | null
+  running: boolean
+  resetKey: unknown
+  onExpire: () => void
+}
+
+export function useQuestionTimer({ limitMs, running, resetKey, onExpire }: UseQuestionTimerOptions) {
+  const [remainingMs, setRemainingMs] = useState<number | null>(limitMs)
+  const elapsedRef = useRef(0)
+  const expiredRef = useRef(false)
+  const onExpireRef = useRef(onExpire)
+  onExpireRef.current = onExpire
+
+  // Restart on a new question or a new limit
+  useEffect(() => {
+    elapsedRef.current = 0
+    expiredRef.current = false
+    setRemainingMs(limitMs)
+  }, [resetKey, limitMs])
+
+  useEffect(() => {
+    if (!running || expiredRef.current) return
+
+    let last = Date.now()
+    const interval = setInterval(() => {
+      const now = Date.now()
+      elapsedRef.current += now - last
+      last = now
+
+      if (limitMs === null) return
+
+      const remaining = Math.max(0, limitMs - elapsedRef.current)
+      setRemainingMs(remaining)
+
+      if (remaining === 0 && !expiredRef.current) {
+        expiredRef.current = true
+        clearInterval(interval)
+        onExpireRef.current()
+      }
+    }, TICK_MS)
+
+    return () => clearInterval(interval)
+  }, [running, limitMs, resetKey])
+
+  const getElapsedMs = useCallback(() => Math.min(elapsedRef.current, limitMs ?? Infinity), [limitMs])
+
+  return {
+    remainingMs,
+    limitMs,
+    getElapsedMs,
+  }
+}
+
+export default useQuestionTimer
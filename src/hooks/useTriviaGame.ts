@@ -0,0 +1,211 @@
+/**
+ * useTriviaGame Hook
+ *
+ * Runs a trivia game against a question source on top of the trivia game
+ * state machine (src/lib/trivia-game.ts). Each action dispatches its event
+ * and makes the matching request; a new request, Play Again or unmounting
+ * cancels the one in flight. Actions that are illegal in the current phase
+ * do nothing.
+ *
+ * With `persist`, the game in progress is saved (src/lib/saved-game.ts) and
+ * a game left behind by a reload is offered as `savedGame` until it is
+ * resumed or discarded.
+ *
+ * @example
+ * ```tsx
+ * const game = useTriviaGame({ persist: true })
+ * game.startGame({ topics, difficulty: 'Medium', round_length: 10, source: 'agent', timed: false, adaptive: true })
+ * // game.phase, game.screen, game.response, game.submitAnswer('B) Mars')
+ * ```
+ */
+
+import { useReducer, useState, useEffect, useRef, useCallback } from 'react'
+import type { Player } from '@/lib/hot-seat'
+import type { PartialQuestion } from '@/lib/partial-question'
+import { getQuestionSource, type QuestionSource, type QuestionSourceKind } from '@/lib/question-source'
+import type { AnswerTiming } from '@/lib/trivia-scoring'
+import { toHostAnswer } from '@/lib/question-types'
+import {
+  INITIAL_TRIVIA_GAME_STATE,
+  canTransition,
+  isResumable,
+  isRoundComplete,
+  triviaGameReducer,
+  type TriviaGameEvent,
+  type TriviaGameSettings,
+  type TriviaRequestKind,
+} from '@/lib/trivia-game'
+import { buildResumeConfig, clearSavedGame, isSavedGameStale, loadSavedGame, saveGame } from '@/lib/saved-game'
+import type { AIAgentResponse } from '@/utils/aiAgent'
+import type { TriviaResponse } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface UseTriviaGameOptions {
+  /** Question source for a kind (defaults to the shared sources) */
+  getSource?: (kind: QuestionSourceKind) => QuestionSource
+  /** Save the game in progress and offer it again after a reload */
+  persist?: boolean
+}
+
+const FAILURE_MESSAGES: Record<TriviaRequestKind, string> = {
+  start: 'Failed to start game',
+  answer: 'Failed to submit answer',
+  next: 'Failed to get next question',
+  resume: 'Failed to resume the game',
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useTriviaGame({ getSource = getQuestionSource, persist = false }: UseTriviaGameOptions = {}) {
+  const [state, dispatch] = useReducer(triviaGameReducer, INITIAL_TRIVIA_GAME_STATE)
+  const [savedGame, setSavedGame] = useState(() => (persist ? loadSavedGame() : null))
+  // Latest state for actions called from stale closures (e.g. the question timer)
+  const stateRef = useRef(state)
+  stateRef.current = state
+  const getSourceRef = useRef(getSource)
+  getSourceRef.current = getSource
+  const gameSource = useCallback(() => getSourceRef.current(stateRef.current.settings!.source), [])
+
+  // Save every settled turn; a finished game has nothing left to resume
+  useEffect(() => {
+    if (!persist || !state.session_id) return
+    if (isResumable(state)) saveGame(state, gameSource().saveSession?.(state.session_id))
+    else if (state.screen === 'game_over') clearSavedGame()
+  }, [persist, state, gameSource])
+
+  // Pending request; a new request, Play Again or unmounting cancels it
+  const requestRef = useRef<AbortController | null>(null)
+  const cancelRequest = useCallback(() => {
+    requestRef.current?.abort()
+    requestRef.current = null
+  }, [])
+  useEffect(() => cancelRequest, [cancelRequest])
+
+  // Dispatch an event if it is legal right now
+  const send = useCallback((event: TriviaGameEvent): boolean => {
+    if (!canTransition(stateRef.current, event)) return false
+    // Keep the ref ahead of the next render so back-to-back actions see the new phase
+    stateRef.current = triviaGameReducer(stateRef.current, event)
+    dispatch(event)
+    return true
+  }, [])
+
+  const request = useCallback(async (
+    kind: TriviaRequestKind,
+    turn: (signal: AbortSignal) => Promise<AIAgentResponse>
+  ) => {
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+    const { signal } = controller
+
+    try {
+      const result = await turn(signal)
+      if (signal.aborted) return
+      if (result.success && result.response.status === 'success') {
+        send({ type: 'turn_received', response: result.response as TriviaResponse })
+      } else {
+        send({ type: 'turn_failed', error: result.error || FAILURE_MESSAGES[kind] })
+      }
+    } catch (error) {
+      if (signal.aborted) return
+      console.error(`[TriviaGame] ${FAILURE_MESSAGES[kind]}:`, error)
+      send({ type: 'turn_failed', error: FAILURE_MESSAGES[kind] })
+    }
+  }, [send])
+
+  // Show a streamed question as it arrives
+  const onPartial = useCallback((signal: AbortSignal) => (partial: PartialQuestion) => {
+    if (!signal.aborted) send({ type: 'stream_partial', partial })
+  }, [send])
+
+  const discardSavedGame = useCallback(() => {
+    clearSavedGame()
+    setSavedGame(null)
+  }, [])
+
+  const startGame = useCallback((settings: TriviaGameSettings, players: Player[] = []) => {
+    const session_id = `trivia-${Date.now()}`
+    if (!send({ type: 'start_game', session_id, settings, players })) return
+    discardSavedGame()
+
+    const { topics, difficulty } = settings
+    const { total_questions } = stateRef.current
+    return request('start', signal => gameSource().startGame({
+      topics,
+      difficulty,
+      session_id,
+      round_length: total_questions,
+      signal,
+      onPartial: onPartial(signal),
+    }))
+  }, [send, request, onPartial, discardSavedGame, gameSource])
+
+  // Pick up the saved game, re-syncing with the host if it may have moved on
+  const resumeGame = useCallback(() => {
+    if (!savedGame || !send({ type: 'restore_game', state: savedGame.state })) return
+    setSavedGame(null)
+
+    const config = buildResumeConfig(savedGame)
+    const source = gameSource()
+    source.restoreGame?.(config)
+    if (!isSavedGameStale(savedGame) || !send({ type: 'resync' })) return
+    return request('resume', signal => source.resumeGame({ ...config, signal }))
+  }, [savedGame, send, request, gameSource])
+
+  const selectAnswer = useCallback((answer: string) => {
+    send({ type: 'select_answer', answer })
+  }, [send])
+
+  const submitAnswer = useCallback((answer: string | null, timing?: AnswerTiming | null) => {
+    if (!send({ type: 'submit_answer', answer, timing })) return
+    const { session_id, pendingAnswer } = stateRef.current
+    const hostAnswer = toHostAnswer(pendingAnswer!.question, answer)
+    return request('answer', signal => gameSource().submitAnswer(hostAnswer, session_id, { signal }))
+  }, [send, request, gameSource])
+
+  const endGame = useCallback(() => {
+    send({ type: 'end_game' })
+  }, [send])
+
+  const nextQuestion = useCallback(() => {
+    // A finished round ends on the client, without asking the host
+    if (isRoundComplete(stateRef.current)) return endGame()
+    if (!send({ type: 'next_question' })) return
+    const { session_id, settings, difficulty } = stateRef.current
+    return request('next', signal => gameSource().nextQuestion(session_id, {
+      signal,
+      onPartial: onPartial(signal),
+      // Adaptive games tell the source which level to ask at
+      difficulty: settings!.adaptive ? difficulty! : undefined,
+    }))
+  }, [send, request, endGame, onPartial, gameSource])
+
+  const playAgain = useCallback(() => {
+    cancelRequest()
+    send({ type: 'reset' })
+    if (persist) clearSavedGame()
+  }, [cancelRequest, send, persist])
+
+  return {
+    ...state,
+    loading: state.phase === 'loading',
+    roundComplete: isRoundComplete(state),
+    savedGame,
+    startGame,
+    resumeGame,
+    discardSavedGame,
+    selectAnswer,
+    submitAnswer,
+    nextQuestion,
+    endGame,
+    playAgain,
+  }
+}
+
+export default useTriviaGame
@@ -0,0 +1,202 @@
+/**
+ * useTriviaRoom Hook
+ *
+ * WebSocket connection to the multiplayer room server. Exposes the latest
+ * room snapshot, the local player's id and actions for every client message
+ * in the room protocol. Messages sent before the socket opens are queued.
+ * The rejoin token for the last room joined is kept in sessionStorage, so
+ * joining that room again from this tab reclaims the player's slot after a
+ * dropped connection or a reload.
+ *
+ * @example
+ * ```tsx
+ * const room = useTriviaRoom()
+ * room.createRoom('Ada', { categories: ['Science'], difficulty: 'Medium', round_length: 10, timed: true })
+ * // room.snapshot, room.playerId, room.submitAnswer('B) Mars')
+ * ```
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  getRoomServerUrl,
+  normalizeRoomCode,
+  parseServerMessage,
+  type ClientMessage,
+  type RoomSettings,
+  type RoomSnapshot,
+} from '@/lib/room-protocol'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RoomConnectionStatus = 'idle' | 'connecting' | 'open' | 'closed'
+
+interface UseTriviaRoomOptions {
+  /** Server URL (defaults to VITE_ROOM_SERVER_URL or the local reference server) */
+  url?: string
+}
+
+// =============================================================================
+// Rejoin Token
+// =============================================================================
+
+const REJOIN_STORAGE_KEY = 'trivia-master:room-rejoin'
+
+interface RejoinToken {
+  code: string
+  token: string
+}
+
+function loadRejoinToken(code: string): string | undefined {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(REJOIN_STORAGE_KEY) ?? 'null') as RejoinToken | null
+    return saved?.code === normalizeRoomCode(code) ? saved.token : undefined
+  } catch (error) {
+    console.warn('[TriviaRoom] Failed to load rejoin token:', error)
+    return undefined
+  }
+}
+
+function saveRejoinToken(saved: RejoinToken | null): void {
+  try {
+    if (saved) sessionStorage.setItem(REJOIN_STORAGE_KEY, JSON.stringify(saved))
+    else sessionStorage.removeItem(REJOIN_STORAGE_KEY)
+  } catch (error) {
+    console.warn('[TriviaRoom] Failed to save rejoin token:', error)
+  }
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useTriviaRoom({ url }: UseTriviaRoomOptions = {}) {
+  const [status, setStatus] = useState<RoomConnectionStatus>('idle')
+  const [snapshot, setSnapshot] = useState<RoomSnapshot | null>(null)
+  const [playerId, setPlayerId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const socketRef = useRef<WebSocket | null>(null)
+  const queueRef = useRef<ClientMessage[]>([])
+  const roomCodeRef = useRef<string | null>(null)
+
+  const connect = useCallback((): WebSocket => {
+    const existing = socketRef.current
+    if (existing && (existing.readyState === WebSocket.OPEN || existing.readyState === WebSocket.CONNECTING)) {
+      return existing
+    }
+
+    const socket = new WebSocket(url ?? getRoomServerUrl())
+    socketRef.current = socket
+    setStatus('connecting')
+
+    socket.onopen = () => {
+      setStatus('open')
+      queueRef.current.forEach(message => socket.send(JSON.stringify(message)))
+      queueRef.current = []
+    }
+
+    socket.onmessage = (event) => {
+      const message = parseServerMessage(event.data)
+      if (!message) return
+
+      switch (message.type) {
+        case 'joined':
+          saveRejoinToken({ code: message.code, token: message.rejoin_token })
+          setPlayerId(message.player_id)
+          setError(null)
+          break
+        case 'room_state':
+          roomCodeRef.current = message.room.code
+          setSnapshot(message.room)
+          break
+        case 'left':
+          saveRejoinToken(null)
+          roomCodeRef.current = null
+          setSnapshot(null)
+          setPlayerId(null)
+          break
+        case 'error':
+          setError(message.message)
+          break
+      }
+    }
+
+    socket.onerror = () => {
+      setError('Could not reach the room server. Is it running?')
+    }
+
+    socket.onclose = () => {
+      // Unexpected close (leaveRoom detaches the socket first)
+      if (socketRef.current === socket) {
+        socketRef.current = null
+        if (roomCodeRef.current) {
+          setError(`Lost connection to room ${roomCodeRef.current}. Rejoin it from this tab to keep your score.`)
+        }
+        roomCodeRef.current = null
+        setSnapshot(null)
+        setPlayerId(null)
+      }
+      setStatus('closed')
+    }
+
+    return socket
+  }, [url])
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = connect()
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message))
+    } else {
+      queueRef.current.push(message)
+    }
+  }, [connect])
+
+  // Close the socket when the component using the room unmounts
+  useEffect(() => () => socketRef.current?.close(), [])
+
+  const createRoom = useCallback((name: string, settings: RoomSettings) => {
+    setError(null)
+    send({ type: 'create_room', name, settings })
+  }, [send])
+
+  const joinRoom = useCallback((code: string, name: string) => {
+    setError(null)
+    send({ type: 'join_room', code, name, rejoin_token: loadRejoinToken(code) })
+  }, [send])
+
+  const startGame = useCallback(() => send({ type: 'start_game' }), [send])
+  const submitAnswer = useCallback((answer: string) => send({ type: 'submit_answer', answer }), [send])
+  const nextQuestion = useCallback(() => send({ type: 'next_question' }), [send])
+
+  const leaveRoom = useCallback(() => {
+    const socket = socketRef.current
+    socketRef.current = null
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave_room' } satisfies ClientMessage))
+    socket?.close()
+    queueRef.current = []
+    roomCodeRef.current = null
+    saveRejoinToken(null)
+    setSnapshot(null)
+    setPlayerId(null)
+    setError(null)
+    setStatus('idle')
+  }, [])
+
+  return {
+    status,
+    snapshot,
+    playerId,
+    error,
+    isHost: !!snapshot && snapshot.host_id === playerId,
+    createRoom,
+    joinRoom,
+    startGame,
+    submitAnswer,
+    nextQuestion,
+    leaveRoom,
+  }
+}
+
+export default useTriviaRoom
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { adjustDifficulty, buildDifficultyCurve } from '@/lib/adaptive-difficulty'
+import { recordAnswer, type ScoreLedger } from '@/lib/trivia-scoring'
+import type { Difficulty } from '@/types'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const question = { text: 'Which planet is known as the Red Planet?', options: ['A) Jupiter', 'B) Mars'], correct_answer: 'B' }
+
+/** Ledger from [difficulty, correct] pairs, oldest first */
+const ledgerOf = (answers: [Difficulty | null, boolean][]): ScoreLedger =>
+  answers.reduce<ScoreLedger>(
+    (ledger, [difficulty, correct]) => recordAnswer(ledger, question, correct ? 'B) Mars' : 'A) Jupiter', null, { difficulty }),
+    []
+  )
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('adjustDifficulty', () => {
+  it('steps up after a streak and down after a run of misses', () => {
+    expect(adjustDifficulty('Medium', ledgerOf([['Medium', true], ['Medium', true]]))).toBe('Medium')
+    expect(adjustDifficulty('Medium', ledgerOf([['Medium', true], ['Medium', true], ['Medium', true]]))).toBe('Hard')
+    expect(adjustDifficulty('Medium', ledgerOf([['Medium', true], ['Medium', false], ['Medium', false]]))).toBe('Easy')
+  })
+
+  it('steps down when rolling accuracy is poor', () => {
+    expect(adjustDifficulty('Hard', ledgerOf([['Hard', false], ['Hard', true], ['Hard', false], ['Hard', true]]))).toBe('Hard')
+    expect(adjustDifficulty('Hard', ledgerOf([['Hard', false], ['Hard', false], ['Hard', true], ['Hard', false]]))).toBe('Medium')
+  })
+
+  it('only counts answers at the current level', () => {
+    const ledger = ledgerOf([['Easy', true], ['Easy', true], ['Easy', true], ['Medium', true]])
+    expect(adjustDifficulty('Medium', ledger)).toBe('Medium')
+    expect(adjustDifficulty('Medium', ledgerOf([['Hard', false], ['Medium', false]]))).toBe('Medium')
+  })
+
+  it('stays within the levels', () => {
+    expect(adjustDifficulty('Hard', ledgerOf([['Hard', true], ['Hard', true], ['Hard', true]]))).toBe('Hard')
+    expect(adjustDifficulty('Easy', ledgerOf([['Easy', false], ['Easy', false]]))).toBe('Easy')
+  })
+})
+
+describe('buildDifficultyCurve', () => {
+  it('groups consecutive questions by level', () => {
+    const ledger = ledgerOf([['Medium', true], ['Medium', true], ['Medium', true], ['Hard', false], ['Hard', false], ['Medium', true]])
+    expect(buildDifficultyCurve(ledger)).toEqual([
+      { difficulty: 'Medium', first: 1, last: 3, correct: 3, total: 3 },
+      { difficulty: 'Hard', first: 4, last: 5, correct: 0, total: 2 },
+      { difficulty: 'Medium', first: 6, last: 6, correct: 1, total: 1 },
+    ])
+  })
+
+  it('leaves out answers without a level', () => {
+    expect(buildDifficultyCurve(ledgerOf([[null, true], [null, false]]))).toEqual([])
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Adaptive Difficulty
+ *
+ * Moves an adaptive game between Easy, Medium and Hard as the player goes.
+ * A streak of right answers steps up a level; a run of misses, or a poor
+ * rolling accuracy, steps down. Only answers given at the current level
+ * count, so one lucky or unlucky answer right after a change can't bounce
+ * the game straight back.
+ *
+ * @example
+ * ```tsx
+ * const next = adjustDifficulty('Medium', ledger) // 'Hard' after three right in a row
+ * const curve = buildDifficultyCurve(ledger)      // [{ difficulty: 'Medium', first: 1, last: 3, correct: 3, total: 3 }, ...]
+ * ```
+ */
+
+import type { ScoreLedger } from '@/lib/trivia-scoring'
+import type { Difficulty } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DIFFICULTY_LEVELS: Difficulty[] = ['Easy', 'Medium', 'Hard']
+
+/** Right answers in a row that step up a level */
+const STEP_UP_STREAK = 3
+/** Misses in a row that step down a level */
+const STEP_DOWN_MISSES = 2
+/** Answers in the rolling accuracy window */
+const ACCURACY_WINDOW = 4
+/** Rolling accuracy below this (over a full window) steps down a level */
+const STEP_DOWN_ACCURACY = 0.5
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A run of consecutive questions asked at one level
+ */
+export interface DifficultySegment {
+  difficulty: Difficulty
+  /** First and last question numbers in the run (1-based) */
+  first: number
+  last: number
+  correct: number
+  total: number
+}
+
+// =============================================================================
+// Adjusting
+// =============================================================================
+
+/**
+ * Difficulty for the next question, given the answers so far
+ */
+export function adjustDifficulty(current: Difficulty, ledger: ScoreLedger): Difficulty {
+  // Answers given since the game moved to the current level, most recent first
+  const recent: boolean[] = []
+  for (let i = ledger.length - 1; i >= 0 && ledger[i].difficulty === current; i--) {
+    recent.push(ledger[i].is_correct)
+  }
+
+  const run = (correct: boolean) => {
+    const index = recent.findIndex(is_correct => is_correct !== correct)
+    return index === -1 ? recent.length : index
+  }
+  const level = DIFFICULTY_LEVELS.indexOf(current)
+  const step = (by: number) => DIFFICULTY_LEVELS[Math.min(DIFFICULTY_LEVELS.length - 1, Math.max(0, level + by))]
+
+  if (run(true) >= STEP_UP_STREAK) return step(1)
+  if (run(false) >= STEP_DOWN_MISSES) return step(-1)
+
+  const window = recent.slice(0, ACCURACY_WINDOW)
+  if (window.length === ACCURACY_WINDOW && window.filter(Boolean).length / window.length < STEP_DOWN_ACCURACY) {
+    return step(-1)
+  }
+  return current
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+/**
+ * Split the answered questions into runs at the same level, for the game
+ * over screen. Answers without a recorded level are left out.
+ */
+export function buildDifficultyCurve(ledger: ScoreLedger): DifficultySegment[] {
+  const segments: DifficultySegment[] = []
+
+  ledger.forEach((entry, index) => {
+    if (!entry.difficulty) return
+    const last = segments[segments.length - 1]
+    if (last?.difficulty === entry.difficulty && last.last === index) {
+      last.last = index + 1
+      last.total += 1
+      if (entry.is_correct) last.correct += 1
+    } else {
+      segments.push({ difficulty: entry.difficulty, first: index + 1, last: index + 1, correct: entry.is_correct ? 1 : 0, total: 1 })
+    }
+  })
+
+  return segments
+}
@@ -5,10 +5,9 @@
  * Works even when AI-generated code uses raw fetch() instead of useAgent hook
  */
 
-// Lyzr Agent API endpoint to intercept
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
 import { isInIframe } from '@/components/ErrorBoundary'
+import { getAgentEndpoint, isAgentApiUrl } from '@/lib/agent-transport'
+import { parseJSON, parseLLMResponse } from '@/lib/json-parser'
 
 interface ErrorDetails {
   type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
@@ -103,7 +102,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'api_error',
         message: data.error,
         raw_response: data.details || data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: getAgentEndpoint('chat'),
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -119,7 +118,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'parse_error',
         message: 'JSON parsing failed but valid data exists in raw_response',
         raw_response: data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: getAgentEndpoint('chat'),
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -127,7 +126,23 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
     }
   }
 
-  // Case 3: Response has error field indicating parse failure
+  // Case 3: Agent reply that no parsing strategy can read
+  if (typeof data.response === 'string' && data.response.trim() && !parseLLMResponse(data.response).success) {
+    return {
+      hasIssue: true,
+      error: {
+        type: 'parse_error',
+        message: 'Agent reply is not valid JSON',
+        raw_response: data.response,
+        endpoint: getAgentEndpoint('chat'),
+        timestamp: new Date().toISOString(),
+        userAgent: navigator.userAgent,
+        url: window.location.href,
+      }
+    }
+  }
+
+  // Case 4: Response has error field indicating parse failure
   if (data.response && typeof data.response === 'object') {
     if (data.response.success === false && data.response.error) {
       // Check if raw_response has valid data
@@ -139,7 +154,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
             type: 'parse_error',
             message: data.response.error,
             raw_response: data.raw_response,
-            endpoint: LYZR_API_URL,
+            endpoint: getAgentEndpoint('chat'),
             timestamp: new Date().toISOString(),
             userAgent: navigator.userAgent,
             url: window.location.href,
@@ -189,8 +204,8 @@ async function interceptedFetch(
 
   const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
 
-  // Only intercept Lyzr Agent API calls
-  if (!url.includes('agent-prod.studio.lyzr.ai')) {
+  // Only intercept agent API calls (wherever the transport points)
+  if (!isAgentApiUrl(url)) {
     return originalFetch(input, init)
   }
 
@@ -199,12 +214,18 @@ async function interceptedFetch(
   try {
     const response = await originalFetch(input, init)
 
+    // Leave streams alone - reading a clone would hold the stream back until it ends
+    if (response.headers.get('Content-Type')?.includes('text/event-stream')) return response
+
     // Clone response so we can read it without consuming
     const clonedResponse = response.clone()
 
     // Try to detect issues in the response
     try {
-      const data = await clonedResponse.json()
+      const parsed = parseJSON<any>(await clonedResponse.text(), { recoverPairs: false })
+      // Not JSON (e.g. a stream) - nothing to check
+      if (!parsed.success || !parsed.data || typeof parsed.data !== 'object') return response
+      const data = parsed.data
 
       const { hasIssue, error } = detectResponseIssue(data)
 
@@ -216,8 +237,8 @@ async function interceptedFetch(
 
         // Still return the original response so UI can try to use it
       }
-    } catch (jsonError) {
-      // Response isn't JSON - that's fine, just continue
+    } catch {
+      // Body couldn't be read - that's fine, just continue
     }
 
     return response
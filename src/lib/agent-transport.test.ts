@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { configureTransport, resetTransport, transportFetch } from '@/lib/agent-transport'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Headers the transport passed to fetch */
+async function sentHeaders(headers?: HeadersInit): Promise<Record<string, string>> {
+  const fetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => new Response('{}'))
+  configureTransport({ apiKey: 'test-key', fetch: fetch as unknown as typeof globalThis.fetch })
+  await transportFetch('https://agent.test/v3/inference/chat/', { method: 'POST', headers })
+  return Object.fromEntries(new Headers(fetch.mock.calls[0][1]?.headers))
+}
+
+afterEach(() => {
+  resetTransport()
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('transportFetch', () => {
+  it('adds the API key to every request', async () => {
+    expect(await sentHeaders()).toEqual({ 'x-api-key': 'test-key' })
+  })
+
+  it('keeps caller headers given as a record, a Headers instance or entry pairs', async () => {
+    const expected = { 'content-type': 'application/json', 'x-api-key': 'test-key' }
+    expect(await sentHeaders({ 'Content-Type': 'application/json' })).toEqual(expected)
+    expect(await sentHeaders(new Headers({ 'Content-Type': 'application/json' }))).toEqual(expected)
+    expect(await sentHeaders([['Content-Type', 'application/json']])).toEqual(expected)
+  })
+
+  it("lets the caller's auth header win", async () => {
+    expect(await sentHeaders(new Headers({ 'X-API-Key': 'other-key' }))).toEqual({ 'x-api-key': 'other-key' })
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Agent Transport
+ *
+ * Single place that decides where agent, asset and RAG requests go and how
+ * they're authenticated. Defaults come from the environment and can be
+ * changed at runtime, e.g. to point the app at the local mock agent server
+ * (`npm run mock-agent`) or to hand tests a stub fetch.
+ *
+ * Environment:
+ *   VITE_LYZR_API_KEY   - API key sent as x-api-key
+ *   VITE_AGENT_API_URL  - agent API base URL (default https://agent-prod.studio.lyzr.ai/v3)
+ *   VITE_RAG_API_URL    - RAG API base URL (default https://rag-prod.studio.lyzr.ai/v3)
+ *
+ * @example
+ * ```tsx
+ * configureTransport({ agentBaseUrl: 'http://localhost:8788/v3', ragBaseUrl: 'http://localhost:8788/v3' })
+ * const response = await transportFetch(getAgentEndpoint('chat'), { method: 'POST', body })
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_AGENT_BASE_URL = 'https://agent-prod.studio.lyzr.ai/v3'
+export const DEFAULT_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
+
+const AGENT_PATHS = {
+  chat: '/inference/chat/',
+  stream: '/inference/stream/',
+  upload: '/assets/upload',
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AgentEndpoint = keyof typeof AGENT_PATHS
+
+export interface TransportConfig {
+  agentBaseUrl: string
+  ragBaseUrl: string
+  apiKey: string
+  /** fetch used for every request (defaults to the global fetch at call time) */
+  fetch: typeof fetch
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+function readEnvConfig(): TransportConfig {
+  const env: Partial<ImportMetaEnv> = import.meta.env ?? {}
+  return {
+    agentBaseUrl: env.VITE_AGENT_API_URL || DEFAULT_AGENT_BASE_URL,
+    ragBaseUrl: env.VITE_RAG_API_URL || DEFAULT_RAG_BASE_URL,
+    apiKey: env.VITE_LYZR_API_KEY || '',
+    fetch: (input, init) => globalThis.fetch(input, init),
+  }
+}
+
+let config: TransportConfig = readEnvConfig()
+
+/**
+ * Override parts of the transport for every later request
+ */
+export function configureTransport(overrides: Partial<TransportConfig>): TransportConfig {
+  config = { ...config, ...overrides }
+  return config
+}
+
+/**
+ * Restore the environment defaults
+ */
+export function resetTransport(): TransportConfig {
+  config = readEnvConfig()
+  return config
+}
+
+export function getTransportConfig(): TransportConfig {
+  return { ...config }
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+}
+
+export function getAgentEndpoint(endpoint: AgentEndpoint): string {
+  return joinUrl(config.agentBaseUrl, AGENT_PATHS[endpoint])
+}
+
+/**
+ * RAG API URL for a path such as `/rag/documents/<id>/`
+ */
+export function getRagEndpoint(path: string): string {
+  return joinUrl(config.ragBaseUrl, path)
+}
+
+/**
+ * Whether a URL is an agent API call (used by the fetch interceptor)
+ */
+export function isAgentApiUrl(url: string): boolean {
+  return url.startsWith(config.agentBaseUrl.replace(/\/+$/, ''))
+}
+
+/**
+ * True when requests can be made: an API key is set, or the transport points
+ * somewhere other than the hosted API (such as the mock server)
+ */
+export function isTransportConfigured(): boolean {
+  return Boolean(config.apiKey)
+    || config.agentBaseUrl !== DEFAULT_AGENT_BASE_URL
+    || config.ragBaseUrl !== DEFAULT_RAG_BASE_URL
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Headers that authenticate a request
+ */
+export function getAuthHeaders(): Record<string, string> {
+  return config.apiKey ? { 'x-api-key': config.apiKey } : {}
+}
+
+/**
+ * fetch through the configured transport, adding the auth headers. Headers
+ * may come as a Headers instance, entry pairs or a record; the caller's win.
+ */
+export function transportFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  for (const [name, value] of Object.entries(getAuthHeaders())) {
+    if (!headers.has(name)) headers.set(name, value)
+  }
+  return config.fetch(url, { ...init, headers })
+}
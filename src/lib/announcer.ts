@@ -0,0 +1,55 @@
+/**
+ * Screen Reader Announcer
+ *
+ * Announces game events (feedback, score changes, game over) through one
+ * visually hidden ARIA live region. The region lives on document.body rather
+ * than in a screen, because Home swaps its whole tree between game states
+ * and a live region mounted together with its content isn't read out.
+ *
+ * @example
+ * ```tsx
+ * announce('Correct. Score: 3 out of 4.')
+ * announce('Time is up.', 'assertive')
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const REGION_ID = 'trivia-master-announcer'
+/** Delay before writing, so repeating the last message still counts as a change */
+const WRITE_DELAY_MS = 50
+
+export type Politeness = 'polite' | 'assertive'
+
+// =============================================================================
+// Announcer
+// =============================================================================
+
+function getRegion(politeness: Politeness): HTMLElement {
+  const id = `${REGION_ID}-${politeness}`
+  let region = document.getElementById(id)
+  if (!region) {
+    region = document.createElement('div')
+    region.id = id
+    region.className = 'sr-only'
+    region.setAttribute('role', politeness === 'assertive' ? 'alert' : 'status')
+    region.setAttribute('aria-live', politeness)
+    region.setAttribute('aria-atomic', 'true')
+    document.body.appendChild(region)
+  }
+  return region
+}
+
+/**
+ * Read a message out to screen reader users
+ */
+export function announce(message: string, politeness: Politeness = 'polite'): void {
+  if (typeof document === 'undefined') return
+  const region = getRegion(politeness)
+  region.textContent = ''
+  setTimeout(() => {
+    region.textContent = message
+  }, WRITE_DELAY_MS)
+}
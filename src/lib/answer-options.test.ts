@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { findOption, parseOptions, resolveOptionId, toCanonicalAnswer } from '@/lib/answer-options'
+import { describeCorrectAnswer, gradeAnswerLocally, toHostAnswer } from '@/lib/question-types'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const LABELLED = ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn']
+const UNLABELLED = ['Jupiter', 'Mars', 'Venus', 'Saturn']
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('parseOptions', () => {
+  it('uses the labels when every option has a distinct one, else the position', () => {
+    expect(parseOptions(LABELLED).map(opt => [opt.id, opt.text])).toEqual([['A', 'Jupiter'], ['B', 'Mars'], ['C', 'Venus'], ['D', 'Saturn']])
+    expect(parseOptions(['1) Red', '2) Blue']).map(opt => opt.id)).toEqual(['1', '2'])
+    expect(parseOptions(UNLABELLED).map(opt => [opt.id, opt.text])[1]).toEqual(['B', 'Mars'])
+    expect(parseOptions(['3.14', '2.72']).map(opt => [opt.id, opt.text])).toEqual([['A', '3.14'], ['B', '2.72']])
+  })
+})
+
+describe('resolveOptionId', () => {
+  it('resolves letters in any case and format', () => {
+    for (const answer of ['B', 'b', 'b)', '(B)', 'B.', 'Answer: B', 'The answer is b']) {
+      expect(resolveOptionId(LABELLED, answer)).toBe('B')
+    }
+  })
+
+  it('resolves letters and 1-based indexes for unlabelled options', () => {
+    expect(resolveOptionId(UNLABELLED, 'b')).toBe('B')
+    expect(resolveOptionId(UNLABELLED, '2')).toBe('B')
+    expect(resolveOptionId(LABELLED, '4')).toBe('D')
+    expect(resolveOptionId(LABELLED, 'E')).toBeNull()
+  })
+
+  it('resolves full text with or without a label', () => {
+    expect(resolveOptionId(LABELLED, 'Mars')).toBe('B')
+    expect(resolveOptionId(LABELLED, 'mars!')).toBe('B')
+    expect(resolveOptionId(UNLABELLED, 'B) Mars')).toBe('B')
+    expect(resolveOptionId(['A) The Beatles', 'B) Queen'], 'Beatles')).toBe('A')
+    expect(resolveOptionId(['True', 'False'], 'false')).toBe('B')
+  })
+
+  it('resolves a single near match and nothing ambiguous', () => {
+    expect(resolveOptionId(LABELLED, 'Jupitor')).toBe('A')
+    expect(resolveOptionId(['A) Austria', 'B) Australia'], 'Austrailia')).toBe('B')
+    expect(resolveOptionId(['A) Cat', 'B) Car'], 'Cap')).toBeNull()
+    expect(resolveOptionId(LABELLED, 'Pluto')).toBeNull()
+    expect(resolveOptionId(LABELLED, '  ')).toBeNull()
+  })
+})
+
+describe('findOption and toCanonicalAnswer', () => {
+  it('return the option as sent and the answer for the host', () => {
+    expect(findOption(LABELLED, 'mars')).toBe('B) Mars')
+    expect(findOption(UNLABELLED, 'C')).toBe('Venus')
+    expect(toCanonicalAnswer(UNLABELLED, 'Venus')).toBe('C) Venus')
+    expect(toCanonicalAnswer(LABELLED, 'B) Mars')).toBe('B) Mars')
+    expect(toCanonicalAnswer(LABELLED, 'Pluto')).toBe('Pluto')
+  })
+})
+
+describe('grading with host-style correct answers', () => {
+  it('grades and shows the answer however the host names it', () => {
+    for (const correct_answer of ['B', 'b', 'Mars', 'B) Mars', '2', 'answer: mars']) {
+      const question = { text: 'Which planet is known as the Red Planet?', options: UNLABELLED, correct_answer }
+      expect(gradeAnswerLocally(question, 'Mars')).toBe(true)
+      expect(gradeAnswerLocally(question, 'Venus')).toBe(false)
+      expect(describeCorrectAnswer(question)).toBe('Mars')
+    }
+  })
+
+  it('labels picked options in the answer sent to the host', () => {
+    const question = { text: 'Which planet is known as the Red Planet?', options: UNLABELLED, correct_answer: 'Mars' }
+    expect(toHostAnswer(question, 'Mars')).toBe('B) Mars')
+    expect(toHostAnswer({ ...question, type: 'multi_select', correct_answer: 'A, D' }, 'Jupiter | Saturn')).toBe('A) Jupiter | D) Saturn')
+    expect(toHostAnswer({ ...question, type: 'free_text', options: [] }, ' Mars ')).toBe('Mars')
+    expect(toHostAnswer(question, null)).toBeNull()
+  })
+})
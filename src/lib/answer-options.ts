@@ -0,0 +1,174 @@
+/**
+ * Answer Options
+ *
+ * Maps whatever the host or the player calls an option onto one canonical
+ * option id. Hosts are inconsistent: correct_answer may be "B", "b)",
+ * "2", "Mars", "B) Mars" or a slightly misspelled "Marz", and options may
+ * or may not carry "A)" labels. Every option gets an id - its own label
+ * when all options are labelled, otherwise its letter by position - and
+ * answers are resolved to that id by label, position, full text or a near
+ * match.
+ *
+ * @example
+ * ```tsx
+ * const options = ['A) Jupiter', 'B) Mars', 'C) Venus']
+ * resolveOptionId(options, 'b')           // "B"
+ * resolveOptionId(options, 'mars')        // "B"
+ * findOption(['Jupiter', 'Mars'], '2')    // "Mars"
+ * toCanonicalAnswer(['Jupiter', 'Mars'], 'Mars') // "B) Mars"
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const OPTION_LABEL_PATTERN = /^\s*\(?([A-Za-z0-9])[).:\]-](?!\d)\s*/
+const BARE_LABEL_PATTERN = /^\(?[A-Za-z0-9][).:\]-]?$/
+/** "Answer: B", "The answer is B", "Option B" */
+const ANSWER_PREFIX_PATTERN = /^\s*(?:the\s+)?(?:correct\s+)?(?:answer|option)(?:\s+is)?\s*[:-]?\s+/i
+/** A near match may be one typo off per this many characters */
+const CHARS_PER_TYPO = 5
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AnswerOption {
+  /** Canonical id: the option's own label, or its letter by position */
+  id: string
+  /** Label written on the option, e.g. "B" for "B) Mars" */
+  label: string | null
+  /** Option text without the label */
+  text: string
+  /** The option as the host sent it */
+  option: string
+}
+
+// =============================================================================
+// Text
+// =============================================================================
+
+/**
+ * Extract the leading label from an option, e.g. "B) Mars" -> "B"
+ */
+export function getOptionLabel(option: string): string | null {
+  const match = option.match(OPTION_LABEL_PATTERN)
+  return match ? match[1].toUpperCase() : null
+}
+
+/**
+ * Strip the leading label from an option, e.g. "B) Mars" -> "Mars"
+ */
+export function getOptionText(option: string): string {
+  return option.replace(OPTION_LABEL_PATTERN, '').trim()
+}
+
+/** Lowercase, without accents, punctuation or a leading article */
+export function normalizeAnswerText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** Whether `value` is within the typo allowance of `expected` (both normalized) */
+export function isNearMatch(value: string, expected: string): boolean {
+  return editDistance(value, expected) <= Math.floor(expected.length / CHARS_PER_TYPO)
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Parse options into canonical ids. Labels are only trusted when every
+ * option has a distinct one; "3.14" or a lone "A)" don't make a labelling.
+ */
+export function parseOptions(options: string[]): AnswerOption[] {
+  const labels = options.map(getOptionLabel)
+  const labelled = labels.length > 0
+    && labels.every(label => label !== null)
+    && new Set(labels).size === labels.length
+
+  return options.map((option, index) => ({
+    id: labelled ? labels[index]! : String.fromCharCode(65 + index),
+    label: labelled ? labels[index] : null,
+    text: labelled ? getOptionText(option) : option.trim(),
+    option,
+  }))
+}
+
+/** Option at a letter ("B") or 1-based number ("2") position */
+function byPosition(parsed: AnswerOption[], key: string): AnswerOption | undefined {
+  const index = /\d/.test(key) ? Number(key) - 1 : key.charCodeAt(0) - 65
+  return parsed[index]
+}
+
+/**
+ * Resolve an answer to the id of the option it names
+ *
+ * Tries, in order: the option itself, a bare label or position ("b", "2"),
+ * the full text with or without a label, then the single closest option
+ * within the typo allowance.
+ *
+ * @returns the option id, or null when the answer names no option
+ */
+export function resolveOptionId(options: string[], answer: string | null | undefined): string | null {
+  if (!answer?.trim()) return null
+  const parsed = parseOptions(options)
+
+  const exact = parsed.find(opt => opt.option.trim() === answer.trim())
+  if (exact) return exact.id
+
+  const value = answer.replace(ANSWER_PREFIX_PATTERN, '').trim()
+  if (BARE_LABEL_PATTERN.test(value)) {
+    const key = value.replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+    return (parsed.find(opt => opt.id === key) ?? byPosition(parsed, key))?.id ?? null
+  }
+
+  // The answer may carry a label of its own ("B) Mars") or be unlabelled text
+  const candidates = [...new Set([value, getOptionText(value)].map(normalizeAnswerText))].filter(Boolean)
+  const byText = parsed.find(opt => candidates.includes(normalizeAnswerText(opt.text)))
+  if (byText) return byText.id
+
+  const near = parsed.filter(opt => {
+    const text = normalizeAnswerText(opt.text)
+    return text !== '' && candidates.some(candidate => isNearMatch(candidate, text))
+  })
+  return near.length === 1 ? near[0].id : null
+}
+
+/**
+ * The option an answer names, as the host sent it
+ */
+export function findOption(options: string[], answer: string | null | undefined): string | null {
+  const id = resolveOptionId(options, answer)
+  return parseOptions(options).find(opt => opt.id === id)?.option ?? null
+}
+
+/**
+ * Answer to send to the host: the option with its id, e.g. "B) Mars" even
+ * when the options came without labels. Unresolved answers pass through.
+ */
+export function toCanonicalAnswer(options: string[], answer: string): string {
+  const id = resolveOptionId(options, answer)
+  const option = parseOptions(options).find(opt => opt.id === id)
+  return option ? `${option.id}) ${option.text}` : answer
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createBatchQuestionSource, readQuestionBatch } from '@/lib/batch-question-source'
+import { BUILT_IN_CATEGORIES } from '@/lib/categories'
+import type { GameConfig } from '@/lib/question-source'
+import { installStubAgent, type StubAgent } from '@/test/stub-agent'
+import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const mars = {
+  text: 'Which planet is known as the Red Planet?',
+  options: ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn'],
+  correct_answer: 'B',
+  explanation: 'Iron oxide gives Mars its colour.',
+}
+
+const photosynthesis = {
+  type: 'free_text',
+  text: 'What gas do plants absorb for photosynthesis?',
+  correct_answer: 'Carbon dioxide',
+  accepted_answers: ['CO2'],
+  explanation: 'Plants take in carbon dioxide and release oxygen.',
+  commentary: 'Into the garden we go.',
+  reveal_commentary: 'Every leaf is doing this right now.',
+}
+
+const batch = (questions: unknown, commentary = 'Fresh questions!'): NormalizedAgentResponse => ({
+  status: 'success',
+  result: { game_state: 'batch', questions, commentary },
+})
+
+const game = (round_length: number | null): GameConfig => ({
+  topics: { categories: BUILT_IN_CATEGORIES.filter(category => category.id === 'Science'), topic: null },
+  difficulty: 'Easy',
+  session_id: 'batch-1',
+  round_length,
+})
+
+const grade = (is_correct: boolean) => JSON.stringify({ status: 'success', result: { game_state: 'grade', is_correct } })
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('readQuestionBatch', () => {
+  it('reads a valid batch, with or without per-question commentary', () => {
+    const read = readQuestionBatch(batch([mars, photosynthesis]))
+    expect(read).toMatchObject({ valid: true, errors: [], commentary: 'Fresh questions!' })
+    expect(read.questions[0]).not.toHaveProperty('commentary')
+    expect(read.questions[1]).toMatchObject({
+      type: 'free_text',
+      explanation: photosynthesis.explanation,
+      commentary: photosynthesis.commentary,
+      reveal_commentary: photosynthesis.reveal_commentary,
+    })
+  })
+
+  it('drops only the questions that break the schema', () => {
+    const read = readQuestionBatch(batch([{ ...mars, commentary: 42 }, photosynthesis]))
+    expect(read.valid).toBe(false)
+    expect(read.errors).toEqual(['$.result.questions[0].commentary: expected string, got number'])
+    expect(read.questions.map(q => q.text)).toEqual([photosynthesis.text])
+  })
+
+  it('drops questions whose answer key does not fit their options', () => {
+    const read = readQuestionBatch(batch([{ ...mars, correct_answer: 'E' }, photosynthesis]))
+    expect(read.errors).toEqual(['$.result.questions[0].correct_answer: does not match any option'])
+    expect(read.questions.map(q => q.text)).toEqual([photosynthesis.text])
+  })
+
+  it('rejects the whole batch when the questions are missing', () => {
+    expect(readQuestionBatch(batch([])).questions).toEqual([])
+    expect(readQuestionBatch(batch(undefined)).errors).toEqual(['$.result.questions: is required'])
+  })
+})
+
+describe('createBatchQuestionSource', () => {
+  let stub: StubAgent
+
+  beforeEach(() => {
+    stub = installStubAgent()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    stub.restore()
+    vi.restoreAllMocks()
+  })
+
+  /** Source with a one-question round of the free-text question */
+  async function freeTextGame() {
+    const source = createBatchQuestionSource({ agent_id: 'agent-1' })
+    stub.replyNext(JSON.stringify(batch([photosynthesis])))
+    expect((await source.startGame(game(1))).success).toBe(true)
+    return source
+  }
+
+  it('grades close free-text answers locally', async () => {
+    const source = await freeTextGame()
+    const turn = await source.submitAnswer('carbon dioxid', 'batch-1')
+    expect(turn.response.result).toMatchObject({ feedback: { is_correct: true }, score: { correct: 1, total: 1 } })
+    expect(stub.requests).toHaveLength(1)
+  })
+
+  it('asks the host to grade answers it cannot grade itself', async () => {
+    const source = await freeTextGame()
+    stub.replyNext(grade(true))
+    const turn = await source.submitAnswer('the gas we breathe out', 'batch-1')
+    expect(turn.response.result).toMatchObject({ feedback: { is_correct: true }, score: { correct: 1, total: 1 } })
+    expect(stub.requests[1].message).toContain('My answer is: "the gas we breathe out"')
+    expect(stub.requests[1].message).toContain('"Carbon dioxide" or "CO2"')
+  })
+
+  it('leaves the question unanswered when grading fails', async () => {
+    const source = await freeTextGame()
+    stub.failNext(500)
+    expect(await source.submitAnswer('nitrogen', 'batch-1')).toMatchObject({ success: false })
+
+    stub.replyNext(grade(false))
+    const turn = await source.submitAnswer('nitrogen', 'batch-1')
+    expect(turn.response.result).toMatchObject({ feedback: { is_correct: false }, score: { correct: 0, total: 1 } })
+  })
+
+  it('stops waiting for a prefetch when the request is cancelled', async () => {
+    const source = createBatchQuestionSource({ agent_id: 'agent-1', batchSize: 1, prefetchThreshold: 0 })
+    stub.replyNext(JSON.stringify(batch([mars])))
+    const release = stub.holdNext()
+    await source.startGame(game(null))
+
+    const controller = new AbortController()
+    const next = source.nextQuestion('batch-1', { signal: controller.signal })
+    controller.abort()
+    expect(await next).toMatchObject({ success: false, aborted: true })
+
+    release()
+    expect((await source.nextQuestion('batch-1')).response.result.game_state).toBe('question')
+  })
+})
@@ -0,0 +1,418 @@
+/**
+ * Batch Question Source
+ *
+ * Asks the Trivia Host Agent for several questions at once (see
+ * response_schemas/trivia_batch_response.json), grades answers on the client
+ * and only goes back to the agent when the batch runs low or an answer can't
+ * be graded locally (a free-text answer that isn't a close match). The next
+ * batch is prefetched in the background so "Next Question" rarely waits on
+ * the network.
+ * Each question carries the host's lines for it, so batch games keep their
+ * commentary without a round-trip per turn.
+ */
+
+import { callAIAgent, type AIAgentResponse, type NormalizedAgentResponse } from '@/utils/aiAgent'
+import { formatSchemaError, triviaBatchResponseValidator, triviaGradeResponseValidator } from '@/utils/responseSchema'
+import type { QuestionSource, GameConfig, NextQuestionRequest, ResumeConfig, TurnRequest } from '@/lib/question-source'
+import type { BankQuestion } from '@/lib/offline-question-source'
+import { describeCorrectAnswer, gradeAnswerLocally, toQuestion, QUESTION_TYPES_PROMPT } from '@/lib/question-types'
+import { toScore, triviaTurn, triviaError, describeRoundLength } from '@/lib/trivia-turn'
+import { describeTopics, describeTopicsForPrompt, type TopicSelection } from '@/lib/categories'
+import { citeSource } from '@/lib/knowledge-base-quiz'
+import type { Difficulty } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BatchQuestionSourceOptions {
+  agent_id: string
+  /** Questions requested per agent call */
+  batchSize?: number
+  /** Start prefetching when this many questions (or fewer) remain queued */
+  prefetchThreshold?: number
+}
+
+/**
+ * Batch question: a bank question plus the host's lines for it
+ */
+export interface BatchQuestion extends BankQuestion {
+  /** Read out with the question */
+  commentary?: string
+  /** Read out with the feedback, once the question is answered */
+  reveal_commentary?: string
+}
+
+export interface BatchValidationResult {
+  valid: boolean
+  errors: string[]
+  questions: BatchQuestion[]
+  commentary: string
+}
+
+interface BatchSession {
+  topics: TopicSelection
+  difficulty: Difficulty
+  round_length: number | null
+  queue: BatchQuestion[]
+  current: BatchQuestion | null
+  answered: boolean
+  correct: number
+  total: number
+  /** Text of every question served so far, used to avoid repeats */
+  asked: string[]
+  prefetch: Promise<string | null> | null
+}
+
+/**
+ * The current question's details that never reach the screen before it is
+ * answered, saved with the game so feedback after a reload still explains it
+ */
+interface SavedBatchQuestion {
+  text: string
+  explanation: string
+  source_document: string | null
+  reveal_commentary: string | null
+}
+
+const AGENT_NAME = 'Trivia Host Agent (batch)'
+const MAX_REPEAT_HINTS = 20
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const QUESTION_PATH = /^\$\.result\.questions\[\d+\]/
+
+function toBatchQuestion(q: any): BatchQuestion {
+  return {
+    ...toQuestion({ ...q, options: q.options ?? [] }),
+    explanation: q.explanation ?? '',
+    ...(q.source_document ? { source_document: q.source_document } : {}),
+    ...(q.commentary ? { commentary: q.commentary } : {}),
+    ...(q.reveal_commentary ? { reveal_commentary: q.reveal_commentary } : {}),
+  }
+}
+
+/**
+ * Read a batch response checked against the trivia_batch_response schema
+ * (triviaBatchResponseValidator). A violation inside one question drops just
+ * that question; anything else rejects the whole batch.
+ */
+export function readQuestionBatch(response: NormalizedAgentResponse): BatchValidationResult {
+  const { valid, errors } = triviaBatchResponseValidator.validate(response)
+  const usable = errors.every(error => QUESTION_PATH.test(error.path))
+  const check = (question: unknown) =>
+    triviaBatchResponseValidator.validate({ ...response, result: { ...response.result, questions: [question] } }).valid
+  const questions: any[] = valid ? response.result.questions : usable ? response.result.questions.filter(check) : []
+
+  return {
+    valid,
+    errors: errors.map(formatSchemaError),
+    questions: questions.map(toBatchQuestion),
+    commentary: typeof response.result?.commentary === 'string' ? response.result.commentary : '',
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** What a cancelled turn resolves to, matching callAIAgent */
+function abortedTurn(session_id: string): AIAgentResponse {
+  return { ...triviaError('Request aborted', session_id), aborted: true }
+}
+
+/**
+ * Wait for a promise, giving up as soon as the signal aborts. The promise
+ * itself keeps running.
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | void> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.resolve()
+  let stop = () => {}
+  const aborted = new Promise<void>((resolve) => {
+    stop = resolve
+    signal.addEventListener('abort', stop, { once: true })
+  })
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener('abort', stop))
+}
+
+// =============================================================================
+// Source
+// =============================================================================
+
+/**
+ * Create a question source that pre-generates questions in batches
+ */
+export function createBatchQuestionSource(options: BatchQuestionSourceOptions): QuestionSource {
+  const { agent_id, batchSize = 5, prefetchThreshold = 2 } = options
+  const sessions = new Map<string, BatchSession>()
+
+  /** Questions still needed to finish the round (Infinity when endless) */
+  const remainingInRound = (session: BatchSession) =>
+    session.round_length === null
+      ? Infinity
+      : session.round_length - session.asked.length - session.queue.length
+
+  const buildPrompt = (session: BatchSession) => {
+    const count = Math.min(batchSize, remainingInRound(session))
+    let prompt = `Generate a batch of ${count} new trivia questions. ${describeTopicsForPrompt(session.topics)} Difficulty: ${session.difficulty}. ${describeRoundLength(session.round_length)}`
+    const seen = [...session.asked, ...session.queue.map(q => q.text)].slice(-MAX_REPEAT_HINTS)
+    if (seen.length > 0) {
+      prompt += ` Do not repeat any of these questions: ${seen.map(text => `"${text}"`).join('; ')}.`
+    }
+    prompt += ' Respond with game_state "batch" and a "questions" array; each question needs text, correct_answer, explanation and, for document quizzes, source_document.'
+    prompt += ' Multiple choice questions also need options labelled A) to D) and the option letter as correct_answer.'
+    prompt += ' Give every question a one-line host commentary to read out with it and a one-line reveal_commentary to read out after it is answered, right or wrong.'
+    prompt += ` ${QUESTION_TYPES_PROMPT}`
+    return prompt
+  }
+
+  /**
+   * Fetch a batch and append new questions to the queue.
+   * Resolves to an error message, or null on success.
+   */
+  const loadBatch = async (session: BatchSession, session_id: string, signal?: AbortSignal): Promise<string | null> => {
+    const { difficulty } = session
+    const result = await callAIAgent(buildPrompt(session), agent_id, { session_id, signal })
+    // The level changed while the batch was on its way; its questions no longer fit
+    if (session.difficulty !== difficulty) return null
+
+    if (!result.success || result.response.status !== 'success') {
+      return result.error || result.response.message || 'Failed to fetch question batch'
+    }
+
+    const validation = readQuestionBatch(result.response)
+    if (!validation.valid && validation.questions.length === 0) {
+      return `Agent returned an invalid question batch: ${validation.errors.join('; ')}`
+    }
+    if (!validation.valid) {
+      console.warn('[BatchQuestionSource] Dropped invalid questions:', validation.errors)
+    }
+
+    const known = new Set([...session.asked, ...session.queue.map(q => q.text)].map(text => text.toLowerCase()))
+    const fresh = validation.questions.filter(q => !known.has(q.text.toLowerCase()))
+    session.queue.push(...fresh.slice(0, Math.max(0, remainingInRound(session))))
+    return null
+  }
+
+  /**
+   * Ask the host whether an answer the client couldn't grade counts.
+   * Resolves to the verdict, or the failed response.
+   */
+  const gradeWithAgent = async (
+    entry: BatchQuestion,
+    answer: string,
+    session_id: string,
+    signal?: AbortSignal
+  ): Promise<boolean | AIAgentResponse> => {
+    const accepted = [entry.correct_answer, ...(entry.accepted_answers ?? [])].map(text => `"${text}"`).join(' or ')
+    const prompt = `Grade my answer to this trivia question: "${entry.text}" The correct answer is ${accepted}. My answer is: "${answer}".`
+      + ' Count it as correct if it means the same thing, allowing for synonyms and small spelling mistakes.'
+      + ' Respond with game_state "grade" and is_correct true or false.'
+    const result = await callAIAgent(prompt, agent_id, { session_id, signal, validate: triviaGradeResponseValidator })
+    if (!result.success || result.response.status !== 'success') return result
+    return result.response.result.is_correct
+  }
+
+  const maybePrefetch = (session: BatchSession, session_id: string) => {
+    if (session.prefetch || session.queue.length > prefetchThreshold) return
+    if (remainingInRound(session) <= 0) return
+    session.prefetch = loadBatch(session, session_id)
+      .catch((err) => (err instanceof Error ? err.message : String(err)))
+      .finally(() => {
+        session.prefetch = null
+      })
+  }
+
+  const questionTurn = (session: BatchSession, session_id: string, commentary: string) => {
+    const current = session.current!
+    return triviaTurn(
+      {
+        game_state: 'question',
+        question: toQuestion(current),
+        feedback: null,
+        score: toScore(session.correct, session.total),
+        commentary,
+      },
+      session_id,
+      AGENT_NAME
+    )
+  }
+
+  // The host's line for the question follows any greeting
+  const serveNext = (session: BatchSession, session_id: string, greeting = '') => {
+    const next = session.queue.shift()!
+    session.current = next
+    session.answered = false
+    session.asked.push(next.text)
+    maybePrefetch(session, session_id)
+    return questionTurn(session, session_id, [greeting, next.commentary].filter(Boolean).join(' '))
+  }
+
+  const source: QuestionSource = {
+    kind: 'batch',
+
+    startGame: async ({ topics, difficulty, session_id, round_length, signal }: GameConfig) => {
+      const session: BatchSession = {
+        topics,
+        difficulty,
+        round_length,
+        queue: [],
+        current: null,
+        answered: false,
+        correct: 0,
+        total: 0,
+        asked: [],
+        prefetch: null,
+      }
+      sessions.set(session_id, session)
+
+      const error = await loadBatch(session, session_id, signal)
+      if (error) return triviaError(error, session_id)
+      if (session.queue.length === 0) return triviaError('Agent returned no questions', session_id)
+
+      return serveNext(session, session_id, `Welcome to ${describeTopics(topics)} trivia on ${difficulty}! Your questions are ready.`)
+    },
+
+    submitAnswer: async (answer: string | null, session_id: string, { signal }: TurnRequest = {}) => {
+      const session = sessions.get(session_id)
+      if (!session?.current) {
+        return triviaError('No active batch game for this session', session_id)
+      }
+      if (session.answered) {
+        return triviaError('This question has already been answered', session_id)
+      }
+
+      const entry = session.current
+      let verdict: boolean | AIAgentResponse | null = gradeAnswerLocally(entry, answer)
+      if (verdict === null && answer !== null) {
+        // Marked answered while the host grades it, so a second submit is refused
+        session.answered = true
+        verdict = await gradeWithAgent(entry, answer, session_id, signal)
+        session.answered = false
+        // Left unanswered so the player can try again
+        if (typeof verdict !== 'boolean') return verdict
+      }
+      const isCorrect = verdict === true
+      session.answered = true
+      session.total += 1
+      if (isCorrect) session.correct += 1
+
+      const correctOption = describeCorrectAnswer(entry)
+
+      return triviaTurn(
+        {
+          game_state: 'feedback',
+          question: toQuestion(entry),
+          feedback: {
+            is_correct: isCorrect,
+            message: isCorrect
+              ? "✅ That's correct! Well done!"
+              : answer === null
+                ? `⏰ Time's up! The answer was ${correctOption}.`
+                : `❌ Not quite. The answer was ${correctOption}.`,
+            explanation: citeSource(entry.explanation, entry.source_document),
+            source_document: entry.source_document ?? null,
+          },
+          score: toScore(session.correct, session.total),
+          commentary: entry.reveal_commentary ?? '',
+        },
+        session_id,
+        AGENT_NAME
+      )
+    },
+
+    nextQuestion: async (session_id: string, { signal, difficulty }: NextQuestionRequest = {}) => {
+      const session = sessions.get(session_id)
+      if (!session) {
+        return triviaError('No active batch game for this session', session_id)
+      }
+
+      // Questions queued at the old level are dropped; the next batch is asked at the new one
+      if (difficulty && difficulty !== session.difficulty) {
+        session.difficulty = difficulty
+        session.queue = []
+      }
+
+      if (session.queue.length === 0 && session.prefetch) {
+        await untilAborted(session.prefetch, signal)
+        if (signal?.aborted) return abortedTurn(session_id)
+      }
+      if (session.queue.length === 0 && remainingInRound(session) > 0) {
+        const error = await loadBatch(session, session_id, signal)
+        if (error) return triviaError(error, session_id)
+      }
+
+      if (session.queue.length === 0) {
+        const score = toScore(session.correct, session.total)
+        const finished = remainingInRound(session) <= 0
+        return triviaTurn(
+          {
+            game_state: 'game_over',
+            question: null,
+            feedback: null,
+            score,
+            commentary: finished
+              ? `That's the end of the round! You finished with ${score.correct} out of ${score.total}.`
+              : `The host has run out of fresh questions! You finished with ${score.correct} out of ${score.total}.`,
+          },
+          session_id,
+          AGENT_NAME
+        )
+      }
+
+      return serveNext(session, session_id)
+    },
+
+    saveSession: (session_id: string): SavedBatchQuestion | null => {
+      const current = sessions.get(session_id)?.current
+      if (!current) return null
+      return {
+        text: current.text,
+        explanation: current.explanation,
+        source_document: current.source_document ?? null,
+        reveal_commentary: current.reveal_commentary ?? null,
+      }
+    },
+
+    // The queue is lost on reload; the next question comes from a fresh batch
+    restoreGame: ({ topics, difficulty, session_id, round_length, question, asked, score, source_state }: ResumeConfig) => {
+      const answered = question !== null && asked.some(entry => entry.text === question.text)
+      const saved = source_state as SavedBatchQuestion | null | undefined
+      const details = saved && question && saved.text === question.text ? saved : null
+      sessions.set(session_id, {
+        topics,
+        difficulty,
+        round_length,
+        queue: [],
+        current: question
+          ? {
+            ...question,
+            explanation: details?.explanation ?? '',
+            ...(details?.source_document ? { source_document: details.source_document } : {}),
+            ...(details?.reveal_commentary ? { reveal_commentary: details.reveal_commentary } : {}),
+          }
+          : null,
+        answered,
+        correct: score.correct,
+        total: score.total,
+        asked: [...asked.map(entry => entry.text), ...(question && !answered ? [question.text] : [])],
+        prefetch: null,
+      })
+    },
+
+    resumeGame: async (config: ResumeConfig) => {
+      const { session_id, signal } = config
+      if (!sessions.has(session_id)) source.restoreGame!(config)
+      const session = sessions.get(session_id)!
+
+      // Feedback isn't kept, so an answered question moves on to the next one
+      if (session.answered || !session.current) return source.nextQuestion(session_id, { signal })
+      return questionTurn(session, session_id, "Welcome back! Here's where you left off.")
+    },
+  }
+
+  return source
+}
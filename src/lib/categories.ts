@@ -0,0 +1,168 @@
+/**
+ * Trivia Categories
+ *
+ * Built-in and user-defined categories, plus the topic selection for a round:
+ * one or more categories and an optional free-form topic such as
+ * "1990s video games". Custom categories are stored in localStorage.
+ */
+
+import { describeDocumentsForPrompt } from '@/lib/knowledge-base-quiz'
+import type { BuiltInCategory, Category } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'trivia-master:custom-categories'
+export const MAX_TOPIC_LENGTH = 80
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CategoryDefinition {
+  /** Built-in categories use their name as id; custom ones get a generated id */
+  id: string
+  name: Category
+  description: string
+  /** lucide-react icon name, see CATEGORY_ICONS in components/CategoryIcon */
+  icon: string
+  custom: boolean
+}
+
+/**
+ * What a round is about: any mix of categories plus an optional free-form
+ * topic, or a set of uploaded knowledge-base documents
+ */
+export interface TopicSelection {
+  categories: CategoryDefinition[]
+  topic: string | null
+  /** Knowledge-base file names to draw questions from ("Quiz me on my documents") */
+  documents?: string[]
+}
+
+// =============================================================================
+// Built-in Categories
+// =============================================================================
+
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  { id: 'Science', name: 'Science', description: 'Physics, chemistry, biology and space', icon: 'Rocket', custom: false },
+  { id: 'History', name: 'History', description: 'People and events that shaped the world', icon: 'BookOpen', custom: false },
+  { id: 'Geography', name: 'Geography', description: 'Countries, capitals and landmarks', icon: 'Globe', custom: false },
+  { id: 'Entertainment', name: 'Entertainment', description: 'Film, TV, music and games', icon: 'Film', custom: false },
+  { id: 'Sports', name: 'Sports', description: 'Athletes, teams and competitions', icon: 'Dumbbell', custom: false },
+]
+
+export function isBuiltInCategory(name: Category): name is BuiltInCategory {
+  return BUILT_IN_CATEGORIES.some(category => category.name === name)
+}
+
+// =============================================================================
+// Custom Categories
+// =============================================================================
+
+export function loadCustomCategories(): CategoryDefinition[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed.map((category: CategoryDefinition) => ({ ...category, custom: true })) : []
+  } catch (error) {
+    console.warn('[Categories] Failed to load custom categories:', error)
+    return []
+  }
+}
+
+function saveCustomCategories(categories: CategoryDefinition[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(categories))
+  } catch (error) {
+    console.warn('[Categories] Failed to save custom categories:', error)
+  }
+}
+
+/**
+ * Add a custom category and return the updated list. Names must be unique
+ * (case-insensitive) across built-in and custom categories.
+ */
+export function addCustomCategory(input: { name: string; description: string; icon: string }): CategoryDefinition[] {
+  const name = input.name.trim()
+  const existing = loadCustomCategories()
+  if (!name) throw new Error('Category name is required')
+  if ([...BUILT_IN_CATEGORIES, ...existing].some(category => category.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A category called "${name}" already exists`)
+  }
+
+  const updated = [
+    ...existing,
+    { id: `custom-${Date.now()}`, name, description: input.description.trim(), icon: input.icon, custom: true },
+  ]
+  saveCustomCategories(updated)
+  return updated
+}
+
+export function removeCustomCategory(id: string): CategoryDefinition[] {
+  const updated = loadCustomCategories().filter(category => category.id !== id)
+  saveCustomCategories(updated)
+  return updated
+}
+
+// =============================================================================
+// Topic Selection
+// =============================================================================
+
+/**
+ * Build a selection from category ids and a typed topic
+ */
+export function buildTopicSelection(
+  ids: string[],
+  topic: string,
+  available: CategoryDefinition[] = [...BUILT_IN_CATEGORIES, ...loadCustomCategories()]
+): TopicSelection {
+  const trimmed = topic.trim().slice(0, MAX_TOPIC_LENGTH)
+  return {
+    categories: available.filter(category => ids.includes(category.id)),
+    topic: trimmed || null,
+  }
+}
+
+/**
+ * Selection for a document quiz
+ */
+export function buildDocumentSelection(documents: string[]): TopicSelection {
+  return { categories: [], topic: null, documents }
+}
+
+export function isEmptySelection(selection: TopicSelection): boolean {
+  return selection.categories.length === 0 && !selection.topic && !selection.documents?.length
+}
+
+/**
+ * Short label for a selection, e.g. "Science + History" or "1990s video games"
+ */
+export function describeTopics(selection: TopicSelection): Category {
+  if (selection.documents?.length) return `My documents (${selection.documents.join(', ')})`
+  return [...selection.categories.map(category => category.name), ...(selection.topic ? [selection.topic] : [])]
+    .join(' + ')
+}
+
+/**
+ * Prompt text describing the selection for the Trivia Host Agent
+ */
+export function describeTopicsForPrompt(selection: TopicSelection): string {
+  if (selection.documents?.length) return describeDocumentsForPrompt(selection.documents)
+
+  const parts = selection.categories.map(category =>
+    category.custom && category.description ? `${category.name} (${category.description})` : category.name
+  )
+  if (selection.topic) parts.push(`the free-form topic "${selection.topic}"`)
+
+  if (parts.length <= 1) return `Category: ${parts[0] ?? 'General Knowledge'}.`
+  return `Categories: ${parts.join(', ')}. Mix questions across all of them.`
+}
+
+/**
+ * Built-in categories in a selection (the only ones the offline bank covers)
+ */
+export function getBuiltInCategories(selection: TopicSelection): BuiltInCategory[] {
+  return selection.categories.map(category => category.name).filter(isBuiltInCategory)
+}
@@ -3,7 +3,7 @@
  * Handles malformed SSE events from Lyra backend
  */
 
-import { robustJSONParse, type ParseResult } from './json-parser'
+import { parseJSON, type ParseResult } from './json-parser'
 import type { SSEEvent, SSEEventType, SSEEventBase } from '@/types'
 
 export interface ParsedSSEEvent {
@@ -49,8 +49,7 @@ export function parseSSEEvent(
     }
   }
 
-  // Use robust JSON parser
-  const parseResult = robustJSONParse<Record<string, unknown>>(data)
+  const parseResult = parseJSON<Record<string, unknown>>(data)
 
   if (parseResult.success && parseResult.data) {
     const eventData = parseResult.data
@@ -131,6 +130,51 @@ export function parseSSEStream(rawSSE: string, requestId?: string): ParsedSSEEve
   return events
 }
 
+/**
+ * A single SSE message before its data is interpreted
+ */
+export interface RawSSEMessage {
+  /** Value of the "event:" line, or "message" when there is none */
+  event: string
+  /** "data:" lines joined with newlines */
+  data: string
+}
+
+/**
+ * Incremental SSE reader for streamed responses. Feed it decoded chunks as
+ * they arrive; complete messages are returned and a partial one stays
+ * buffered until the blank line that ends it.
+ */
+export function createSSEStreamParser() {
+  let buffer = ''
+
+  const readMessage = (block: string): RawSSEMessage | null => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of block.split('\n')) {
+      const parsed = parseSSELine(line)
+      if (parsed.type === 'event') event = parsed.value
+      else if (parsed.type === 'data') data.push(parsed.value)
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null
+  }
+
+  const drain = (final: boolean): RawSSEMessage[] => {
+    const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n')
+    buffer = final ? '' : blocks.pop() ?? ''
+    return blocks.map(readMessage).filter((message): message is RawSSEMessage => message !== null)
+  }
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk
+      return drain(false)
+    },
+    /** Return whatever is left once the stream has ended */
+    flush: () => drain(true),
+  }
+}
+
 /**
  * Create an error event from a parse failure
  */
@@ -0,0 +1,214 @@
+/**
+ * Game History
+ *
+ * Persists finished trivia games in localStorage and derives personal
+ * statistics from them: accuracy per category, accuracy over time and the
+ * weakest category/difficulty combinations.
+ */
+
+import type { ScoreLedger } from '@/lib/trivia-scoring'
+import { toScore } from '@/lib/trivia-turn'
+import type { Category, Difficulty, Score } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'trivia-master:history'
+const MAX_STORED_GAMES = 200
+/** Minimum answered questions before a topic counts towards "weakest topics" */
+const MIN_TOPIC_QUESTIONS = 3
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface HistoryAnswer {
+  question_text: string
+  options: string[]
+  correct_answer: string
+  selected_answer: string | null
+  is_correct: boolean
+  elapsed_ms: number | null
+  limit_ms: number | null
+  points: number
+}
+
+export interface GameRecord {
+  id: string
+  finished_at: string
+  category: Category
+  difficulty: Difficulty
+  /** Question source used, e.g. "agent" or "offline" */
+  source: string
+  round_length: number | null
+  score: Score
+  answers: HistoryAnswer[]
+}
+
+export interface CategoryStats {
+  category: Category
+  games: number
+  answered: number
+  correct: number
+  accuracy: number
+  average_ms: number | null
+}
+
+export interface TrendPoint {
+  date: string
+  accuracy: number
+  points: number
+}
+
+export interface TopicStats {
+  category: Category
+  difficulty: Difficulty
+  answered: number
+  accuracy: number
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Load all saved games, oldest first
+ */
+export function loadGameHistory(): GameRecord[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.warn('[GameHistory] Failed to load history:', error)
+    return []
+  }
+}
+
+/**
+ * Save a finished game. Re-saving the same id replaces the earlier record.
+ */
+export function saveGameRecord(record: GameRecord): void {
+  const history = loadGameHistory().filter(game => game.id !== record.id)
+  history.push(record)
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history.slice(-MAX_STORED_GAMES)))
+  } catch (error) {
+    console.warn('[GameHistory] Failed to save game:', error)
+  }
+}
+
+export function clearGameHistory(): void {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+/**
+ * Build a history record from the scoring ledger of a finished game
+ */
+export function buildGameRecord(
+  id: string,
+  details: { category: Category; difficulty: Difficulty; source: string; round_length: number | null },
+  ledger: ScoreLedger
+): GameRecord {
+  const answers: HistoryAnswer[] = ledger.map(entry => ({
+    question_text: entry.question.text,
+    options: entry.question.options,
+    correct_answer: entry.question.correct_answer,
+    selected_answer: entry.selected_answer,
+    is_correct: entry.is_correct,
+    elapsed_ms: entry.elapsed_ms,
+    limit_ms: entry.limit_ms,
+    points: entry.points,
+  }))
+  const correct = answers.filter(answer => answer.is_correct).length
+
+  return {
+    id,
+    finished_at: new Date().toISOString(),
+    ...details,
+    score: {
+      ...toScore(correct, answers.length),
+      points: answers.reduce((sum, answer) => sum + answer.points, 0),
+    },
+    answers,
+  }
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+const accuracyOf = (correct: number, answered: number) =>
+  answered > 0 ? Math.round((correct / answered) * 100) : 0
+
+/**
+ * Accuracy and timing per category
+ */
+export function computeCategoryStats(history: GameRecord[]): CategoryStats[] {
+  const byCategory = new Map<Category, { games: number; answered: number; correct: number; timeTotal: number; timed: number }>()
+
+  for (const game of history) {
+    const stats = byCategory.get(game.category) ?? { games: 0, answered: 0, correct: 0, timeTotal: 0, timed: 0 }
+    stats.games += 1
+    for (const answer of game.answers) {
+      stats.answered += 1
+      if (answer.is_correct) stats.correct += 1
+      if (answer.elapsed_ms !== null) {
+        stats.timeTotal += answer.elapsed_ms
+        stats.timed += 1
+      }
+    }
+    byCategory.set(game.category, stats)
+  }
+
+  return Array.from(byCategory.entries()).map(([category, stats]) => ({
+    category,
+    games: stats.games,
+    answered: stats.answered,
+    correct: stats.correct,
+    accuracy: accuracyOf(stats.correct, stats.answered),
+    average_ms: stats.timed > 0 ? Math.round(stats.timeTotal / stats.timed) : null,
+  }))
+}
+
+/**
+ * Accuracy per game over time, oldest first
+ */
+export function computeAccuracyTrend(history: GameRecord[]): TrendPoint[] {
+  return [...history]
+    .sort((a, b) => a.finished_at.localeCompare(b.finished_at))
+    .filter(game => game.answers.length > 0)
+    .map(game => ({
+      date: game.finished_at,
+      accuracy: game.score.percentage,
+      points: game.score.points ?? 0,
+    }))
+}
+
+/**
+ * Category/difficulty combinations with the lowest accuracy
+ */
+export function findWeakestTopics(history: GameRecord[], limit = 3): TopicStats[] {
+  const byTopic = new Map<string, { category: Category; difficulty: Difficulty; answered: number; correct: number }>()
+
+  for (const game of history) {
+    const key = `${game.category}:${game.difficulty}`
+    const stats = byTopic.get(key) ?? { category: game.category, difficulty: game.difficulty, answered: 0, correct: 0 }
+    stats.answered += game.answers.length
+    stats.correct += game.answers.filter(answer => answer.is_correct).length
+    byTopic.set(key, stats)
+  }
+
+  return Array.from(byTopic.values())
+    .filter(topic => topic.answered >= MIN_TOPIC_QUESTIONS)
+    .map(topic => ({
+      category: topic.category,
+      difficulty: topic.difficulty,
+      answered: topic.answered,
+      accuracy: accuracyOf(topic.correct, topic.answered),
+    }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.answered - a.answered)
+    .slice(0, limit)
+}
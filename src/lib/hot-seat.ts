@@ -0,0 +1,83 @@
+/**
+ * Hot-Seat Multiplayer
+ *
+ * Turn order and per-player scoring for hot-seat games, where 2-8 named
+ * players share one device and take turns answering questions. Scores are
+ * derived from the shared scoring ledger, so there is a single source of
+ * truth for every answer.
+ */
+
+import { computeScore, type ScoreLedger } from '@/lib/trivia-scoring'
+import type { Score } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const MIN_PLAYERS = 2
+export const MAX_PLAYERS = 8
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Player {
+  id: string
+  name: string
+}
+
+export interface PlayerStanding {
+  player: Player
+  score: Score
+  /** 1-based rank; tied players share a rank */
+  rank: number
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Create players from the names entered on the setup screen.
+ * Blank names fall back to "Player N".
+ */
+export function createPlayers(names: string[]): Player[] {
+  return names.slice(0, MAX_PLAYERS).map((name, index) => ({
+    id: `player-${index + 1}`,
+    name: name.trim() || `Player ${index + 1}`,
+  }))
+}
+
+/**
+ * Player whose turn it is, given how many questions have been answered
+ */
+export function getCurrentPlayer(players: Player[], answeredCount: number): Player | null {
+  if (players.length === 0) return null
+  return players[answeredCount % players.length]
+}
+
+/**
+ * Score for a single player from the shared ledger
+ */
+export function computePlayerScore(ledger: ScoreLedger, player_id: string): Score {
+  return computeScore(ledger.filter(entry => entry.player_id === player_id))
+}
+
+/**
+ * Rank players by points, then by correct answers
+ */
+export function rankPlayers(players: Player[], ledger: ScoreLedger): PlayerStanding[] {
+  const standings = players
+    .map(player => ({ player, score: computePlayerScore(ledger, player.id), rank: 0 }))
+    .sort((a, b) => (b.score.points ?? 0) - (a.score.points ?? 0) || b.score.correct - a.score.correct)
+
+  standings.forEach((standing, index) => {
+    const previous = standings[index - 1]
+    const tied = previous
+      && (previous.score.points ?? 0) === (standing.score.points ?? 0)
+      && previous.score.correct === standing.score.correct
+    standing.rank = tied ? previous.rank : index + 1
+  })
+
+  return standings
+}
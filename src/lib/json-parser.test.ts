@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest'
+import {
+  completePartialJSON,
+  createIncrementalJSONParser,
+  parseJSON,
+  parseLLMResponse,
+  parseSSEData,
+  robustJSONParse,
+  safeGet,
+} from '@/lib/json-parser'
+import { parseSSEEvent } from '@/lib/event-parser'
+import { FAILS, LLM_OUTPUT_CORPUS } from '@/test/llm-output-corpus'
+
+describe('parseJSON', () => {
+  describe('corpus', () => {
+    it.each(LLM_OUTPUT_CORPUS)('$name', ({ input, parsed }) => {
+      const result = parseJSON(input)
+      expect(result.strategy).toBe(parsed.strategy)
+      expect(result.success).toBe(parsed.strategy !== 'raw_fallback')
+      if (result.success) {
+        expect(result.data).toEqual(parsed.data)
+      } else {
+        expect(result.raw).toBe(input.trim())
+        expect(result.error).toBe('All parsing strategies failed')
+      }
+    })
+  })
+
+  it('rejects empty and non-string input', () => {
+    expect(parseJSON('')).toEqual({ success: false, raw: '', error: 'Empty input', strategy: 'none' })
+    expect(parseJSON(undefined)).toMatchObject({ success: false, raw: 'undefined', strategy: 'none' })
+    expect(parseJSON(42)).toMatchObject({ success: false, error: 'Invalid input: expected string', strategy: 'none' })
+  })
+
+  it('stores unparseable partial values as strings', () => {
+    expect(parseJSON('"a": [1, 2 "b": 3')).toEqual({
+      success: true,
+      data: { b: 3 },
+      strategy: 'partial_recovery',
+    })
+  })
+
+  it('leaves comment markers inside strings alone', () => {
+    expect(parseJSON('{"url": "https://example.com", "n": 1,}')).toEqual({
+      success: true,
+      data: { url: 'https://example.com', n: 1 },
+      strategy: 'cleaned',
+    })
+  })
+
+  it('escapes raw newlines inside strings', () => {
+    expect(parseJSON('{"text": "line one\nline two"}').data).toEqual({ text: 'line one\nline two' })
+  })
+
+  it('drops elided array items', () => {
+    expect(parseJSON('{"items": [1, 2, ...]}').data).toEqual({ items: [1, 2] })
+  })
+
+  it('closes off truncated JSON with allowPartial', () => {
+    expect(parseJSON('{"a":[1,2', { allowPartial: true })).toEqual({
+      success: true,
+      data: { a: [1, 2] },
+      strategy: 'partial',
+      partial: true,
+    })
+  })
+
+  it('skips repairs with attemptFix: false', () => {
+    expect(parseJSON("{'a': 1}", { attemptFix: false, recoverPairs: false }).success).toBe(false)
+  })
+
+  it('uses parsed objects as they are', () => {
+    const value = { a: 1 }
+    expect(parseJSON(value)).toEqual({ success: true, data: value, strategy: 'direct' })
+  })
+
+  it('keeps robustJSONParse as an alias', () => {
+    expect(robustJSONParse('{"a":1,}')).toEqual(parseJSON('{"a":1,}'))
+  })
+})
+
+describe('parseLLMResponse', () => {
+  describe('corpus', () => {
+    it.each(LLM_OUTPUT_CORPUS)('$name', ({ input, llm }) => {
+      const result = parseLLMResponse(input)
+      expect(result.success).toBe(llm !== FAILS)
+      if (llm !== FAILS) expect(result.data).toEqual(llm)
+    })
+  })
+
+  it('reports the unwrapped keys', () => {
+    const input = JSON.stringify({ response: JSON.stringify({ status: 'success', result: {} }) })
+    expect(parseLLMResponse(input)).toEqual({
+      success: true,
+      data: { status: 'success', result: {} },
+      strategy: 'direct',
+      unwrapped: ['response'],
+    })
+  })
+
+  it('reports the strategy that recovered a wrapped reply', () => {
+    const input = JSON.stringify({ response: '```json\n{"status":"success","result":{}}\n```' })
+    expect(parseLLMResponse(input)).toMatchObject({ strategy: 'extracted', unwrapped: ['response'] })
+  })
+
+  it('does not guess key-value pairs', () => {
+    expect(parseLLMResponse('status: "x", "a": 1').success).toBe(false)
+  })
+})
+
+describe('completePartialJSON', () => {
+  it.each([
+    ['{"a": [1, 2', '{"a": [1, 2]}'],
+    ['{"a": "hel', '{"a": "hel"}'],
+    ['{"a": 1, "b', '{"a": 1}'],
+    ['{"a": 1, "b": ', '{"a": 1, "b":null}'],
+    ['{"a": 1,', '{"a": 1}'],
+    ['{"a": tr', '{"a": true}'],
+    ['{"a": [fals', '{"a": [false]}'],
+    ['{"a": 1.', '{"a": 1}'],
+    ['{"a": "x\\', '{"a": "x"}'],
+    ['{"a": "\\u00', '{"a": ""}'],
+    ['Sure: {"a": {"b": [{"c": 1}', '{"a": {"b": [{"c": 1}]}}'],
+  ])('%s', (input, expected) => {
+    expect(completePartialJSON(input)).toBe(expected)
+    expect(() => JSON.parse(expected)).not.toThrow()
+  })
+
+  it('returns complete JSON unchanged', () => {
+    expect(completePartialJSON('text {"a": 1} more')).toBe('{"a": 1}')
+  })
+
+  it('returns null without JSON', () => {
+    expect(completePartialJSON('no json')).toBeNull()
+  })
+})
+
+describe('createIncrementalJSONParser', () => {
+  it('parses a reply as it streams in', () => {
+    const parser = createIncrementalJSONParser()
+    expect(parser.push('{"status":"success","result":{"question":{"text":"Which pla').data).toEqual({
+      status: 'success',
+      result: { question: { text: 'Which pla' } },
+    })
+    expect(parser.push('net?","options":["Mars","Ven').data.result.question).toEqual({
+      text: 'Which planet?',
+      options: ['Mars', 'Ven'],
+    })
+    const done = parser.push('us"]}}}')
+    expect(done.partial).toBeUndefined()
+    expect(done.data.result.question.options).toEqual(['Mars', 'Venus'])
+    expect(parser.text()).toBe('{"status":"success","result":{"question":{"text":"Which planet?","options":["Mars","Venus"]}}}')
+  })
+
+  it('reads past a code fence opener', () => {
+    const parser = createIncrementalJSONParser()
+    expect(parser.push('```json\n{"a": [1').data).toEqual({ a: [1] })
+  })
+
+  it('starts over after reset', () => {
+    const parser = createIncrementalJSONParser()
+    parser.push('{"a": 1')
+    parser.reset()
+    expect(parser.text()).toBe('')
+    expect(parser.push('{"b": 2}').data).toEqual({ b: 2 })
+  })
+})
+
+describe('parseSSEData', () => {
+  it('strips the data: prefix', () => {
+    expect(parseSSEData('data: {"type":"chat_started"}')).toEqual({
+      success: true,
+      data: { type: 'chat_started' },
+      strategy: 'direct',
+    })
+  })
+
+  it('marks [DONE]', () => {
+    expect(parseSSEData('data: [DONE]')).toEqual({ success: true, data: { done: true }, strategy: 'sse_done' })
+  })
+})
+
+describe('safeGet', () => {
+  it('reads a key from a successful result', () => {
+    expect(safeGet(parseJSON('{"a":1}'), 'a', 0)).toBe(1)
+  })
+
+  it('falls back to the default', () => {
+    expect(safeGet(parseJSON('{"a":1}'), 'b', 'none')).toBe('none')
+    expect(safeGet(parseJSON('nothing'), 'a', 'none')).toBe('none')
+  })
+})
+
+describe('parseJSON in parseSSEEvent', () => {
+  it('reports the strategy that recovered the event', () => {
+    const parsed = parseSSEEvent('chat_progress', '{"type":"chat_progress","message":"Thinking",}', 'req-1')
+    expect(parsed.success).toBe(true)
+    expect(parsed.parseStrategy).toBe('cleaned')
+    expect(parsed.event).toMatchObject({ type: 'chat_progress', message: 'Thinking', request_id: 'req-1' })
+  })
+
+  it('fills in the event type from the SSE event name', () => {
+    const parsed = parseSSEEvent('tool_use', 'Tool call: {"tool_name":"search"}', 'req-1')
+    expect(parsed.parseStrategy).toBe('extracted')
+    expect(parsed.eventType).toBe('tool_use')
+  })
+
+  it('fails when nothing can be recovered', () => {
+    const parsed = parseSSEEvent('message', 'plain text', 'req-1')
+    expect(parsed.success).toBe(false)
+    expect(parsed.parseStrategy).toBe('raw_fallback')
+  })
+})
@@ -1,110 +1,355 @@
 /**
- * Robust JSON Parser with 5-strategy fallback
- * Handles malformed JSON responses from AI agents
+ * JSON Parser
+ *
+ * The one parser for everything the agent sends back: chat replies, streamed
+ * replies and SSE event data. Tries a series of strategies and reports which
+ * one worked, so callers (and the tests) can see how much repair a response
+ * needed:
+ *
+ *   direct            - valid JSON as-is
+ *   cleaned           - valid after repairs (trailing commas, comments,
+ *                       quotes, unquoted keys, Python literals, control chars)
+ *   extracted         - found in a code fence or surrounding prose
+ *   extracted_cleaned - found in text, valid after repairs
+ *   partial           - truncated JSON closed off (allowPartial)
+ *   partial_recovery  - "key": value pairs collected from broken JSON
+ *   raw_fallback      - nothing worked (success: false)
+ *
+ * LLM replies are usually wrapped - `{ "response": "<json>" }`, a
+ * `raw_response` string, double-encoded JSON - so parseLLMResponse also
+ * unwraps down to the agent's own `{ status, result }` object.
+ *
+ * @example
+ * ```tsx
+ * parseJSON('{"a": 1,}')                          // { success: true, data: { a: 1 }, strategy: 'cleaned' }
+ * parseLLMResponse('{"response":"{\\"status\\":\\"success\\",\\"result\\":{}}"}')
+ * // { success: true, data: { status: 'success', result: {} }, strategy: 'direct', unwrapped: ['response'] }
+ *
+ * const parser = createIncrementalJSONParser()
+ * parser.push('{"question": {"text": "Which pla')  // data: { question: { text: 'Which pla' } }, partial: true
+ * ```
  */
 
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_UNWRAP_KEYS = [
+  'raw_response',
+  'rawResponse',
+  'response',
+  'data',
+  'result',
+  'output',
+  'content',
+  'message',
+  'text',
+  'completion',
+]
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ParseStrategy =
+  | 'direct'
+  | 'cleaned'
+  | 'extracted'
+  | 'extracted_cleaned'
+  | 'partial'
+  | 'partial_recovery'
+  | 'raw_fallback'
+  | 'sse_done'
+  | 'none'
+
 export interface ParseResult<T> {
   success: boolean
   data?: T
   raw?: string
   error?: string
-  strategy?: string
+  strategy?: ParseStrategy
+  /** True when the data came from truncated JSON that was closed off */
+  partial?: boolean
+  /**
+   * Wrapper keys removed on the way to the data (parseLLMResponse). When a
+   * wrapped string needed repair, `strategy` reports that repair.
+   */
+  unwrapped?: string[]
+}
+
+export interface ParseOptions {
+  /** Repair common LLM mistakes before giving up (default true) */
+  attemptFix?: boolean
+  /** Close off truncated JSON instead of failing (default false) */
+  allowPartial?: boolean
+  /** Fall back to collecting "key": value pairs from broken JSON (default true) */
+  recoverPairs?: boolean
+  /** Most code blocks to try when extracting from text (default 8) */
+  maxBlocks?: number
+  /** Unwrap response envelopes and double-encoded JSON (default false) */
+  unwrap?: boolean
+  /** Keys unwrapped, in order of preference */
+  unwrapKeys?: string[]
+  maxUnwrapDepth?: number
+  maxDecodeDepth?: number
+  /** Prefer raw_response over the other unwrap keys when both exist (default true) */
+  preferRawResponse?: boolean
+}
+
+type ResolvedOptions = Required<ParseOptions>
+
+const DEFAULT_OPTIONS: ResolvedOptions = {
+  attemptFix: true,
+  allowPartial: false,
+  recoverPairs: true,
+  maxBlocks: 8,
+  unwrap: false,
+  unwrapKeys: DEFAULT_UNWRAP_KEYS,
+  maxUnwrapDepth: 6,
+  maxDecodeDepth: 3,
+  preferRawResponse: true,
+}
+
+// =============================================================================
+// Repair
+// =============================================================================
+
+/**
+ * Strip comments and escape raw control characters inside strings, leaving
+ * string contents (URLs with "//" and the like) untouched
+ */
+function repairTokens(input: string): string {
+  let out = ''
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+
+    if (inString) {
+      if (escaped) {
+        escaped = false
+      } else if (ch === '\\') {
+        escaped = true
+      } else if (ch === '"') {
+        inString = false
+      } else if (ch === '\n') {
+        out += '\\n'
+        continue
+      } else if (ch === '\r') {
+        out += '\\r'
+        continue
+      } else if (ch === '\t') {
+        out += '\\t'
+        continue
+      } else if (ch < ' ') {
+        continue
+      }
+      out += ch
+      continue
+    }
+
+    if (ch === '"') {
+      inString = true
+    } else if (ch === '/' && input[i + 1] === '/') {
+      const lineEnd = input.indexOf('\n', i)
+      i = lineEnd === -1 ? input.length : lineEnd - 1
+      continue
+    } else if (ch === '/' && input[i + 1] === '*') {
+      const commentEnd = input.indexOf('*/', i + 2)
+      i = commentEnd === -1 ? input.length : commentEnd + 1
+      continue
+    } else if (ch === '#' && /(^|\n)\s*$/.test(out)) {
+      const lineEnd = input.indexOf('\n', i)
+      i = lineEnd === -1 ? input.length : lineEnd - 1
+      continue
+    }
+    out += ch
+  }
+
+  return out
 }
 
 /**
- * Clean JSON string by removing common issues
+ * Fix the mistakes LLMs commonly make in JSON
  */
 function cleanJsonString(input: string): string {
-  let cleaned = input.trim()
+  let cleaned = input.trim().replace(/^\uFEFF/, '')
+
+  // Smart quotes
+  cleaned = cleaned.replace(/[“”]/g, '"').replace(/[‘’]/g, "'")
+
+  cleaned = repairTokens(cleaned)
+
+  // Single-quoted strings (best effort)
+  cleaned = cleaned.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"')
 
-  // Remove trailing commas before closing brackets/braces
-  cleaned = cleaned.replace(/,(\s*[}\]])/g, '$1')
+  // Unquoted keys
+  cleaned = cleaned.replace(/([{,]\s*)([a-zA-Z_$][\w\-.]*)\s*:/g, '$1"$2":')
 
-  // Remove control characters except newlines and tabs
-  cleaned = cleaned.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+  // Python / JavaScript literals
+  cleaned = cleaned
+    .replace(/\bTrue\b/g, 'true')
+    .replace(/\bFalse\b/g, 'false')
+    .replace(/\bNone\b/g, 'null')
+    .replace(/\bundefined\b/g, 'null')
 
-  // Fix unescaped newlines in strings (common AI issue)
-  cleaned = cleaned.replace(/(?<!\\)\\n/g, '\\n')
+  // "..." standing in for elided array items
+  cleaned = cleaned.replace(/,\s*(?:\.\.\.|…)\s*(?=[\]}])/g, '')
 
-  // Remove BOM if present
-  cleaned = cleaned.replace(/^\uFEFF/, '')
+  // Trailing commas
+  cleaned = cleaned.replace(/,(\s*[}\]])/g, '$1').replace(/,\s*$/, '')
 
   return cleaned
 }
 
+// =============================================================================
+// Extraction
+// =============================================================================
+
 /**
- * Extract JSON from mixed text/markdown response
+ * First balanced object or array in text, skipping brackets inside strings
  */
-function extractJsonFromText(input: string): string | null {
-  // Try to find JSON in code blocks first
-  const codeBlockMatch = input.match(/```(?:json)?\s*([\s\S]*?)```/)
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim()
+function findJsonBoundaries(input: string): string | null {
+  let start = -1
+  let depth = 0
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (ch === '\\') escaped = true
+      else if (ch === '"') inString = false
+      continue
+    }
+    if (ch === '"' && start !== -1) {
+      inString = true
+    } else if (ch === '{' || ch === '[') {
+      if (start === -1) start = i
+      depth++
+    } else if ((ch === '}' || ch === ']') && start !== -1) {
+      depth--
+      if (depth === 0) return input.substring(start, i + 1)
+    }
   }
 
-  // Look for JSON object pattern
-  const objectMatch = input.match(/\{[\s\S]*\}/)
-  if (objectMatch) {
-    // Find the balanced braces
-    const str = input
-    let depth = 0
-    let start = -1
-    let end = -1
+  return null
+}
 
-    for (let i = 0; i < str.length; i++) {
-      if (str[i] === '{') {
-        if (depth === 0) start = i
-        depth++
-      } else if (str[i] === '}') {
-        depth--
-        if (depth === 0) {
-          end = i + 1
-          break
-        }
-      }
-    }
+/**
+ * JSON candidates in mixed text: fenced blocks first, then inline code, then
+ * the first balanced object/array
+ */
+function extractCandidates(input: string, maxBlocks: number): string[] {
+  const candidates: string[] = []
+  const add = (candidate: string | null | undefined) => {
+    const content = candidate?.trim()
+    if (content && candidates.length < maxBlocks && !candidates.includes(content)) candidates.push(content)
+  }
 
-    if (start !== -1 && end !== -1) {
-      return str.substring(start, end)
-    }
+  for (const match of input.matchAll(/```(?:json)?[ \t]*\n?([\s\S]*?)```/gi)) {
+    if (/^\s*[{[]/.test(match[1])) add(match[1])
+  }
+  for (const match of input.matchAll(/`([^`\n]+)`/g)) {
+    if (/^\s*[{[]/.test(match[1])) add(match[1])
   }
+  add(findJsonBoundaries(input))
 
-  // Look for JSON array pattern
-  const arrayMatch = input.match(/\[[\s\S]*\]/)
-  if (arrayMatch) {
-    const str = input
-    let depth = 0
-    let start = -1
-    let end = -1
-
-    for (let i = 0; i < str.length; i++) {
-      if (str[i] === '[') {
-        if (depth === 0) start = i
-        depth++
-      } else if (str[i] === ']') {
-        depth--
-        if (depth === 0) {
-          end = i + 1
-          break
-        }
-      }
+  return candidates
+}
+
+// =============================================================================
+// Partial JSON
+// =============================================================================
+
+/**
+ * Close off truncated JSON: finish the open string, drop a key that has no
+ * value yet and a dangling comma, complete a cut-off literal, and close every
+ * open object and array. Returns the text unchanged if it is already
+ * complete, or null if there is no JSON in it.
+ *
+ * @example
+ * completePartialJSON('{"a": [1, 2') // '{"a": [1, 2]}'
+ * completePartialJSON('{"a": 1, "b') // '{"a": 1}'
+ */
+export function completePartialJSON(input: string): string | null {
+  const start = input.search(/[{[]/)
+  if (start === -1) return null
+
+  const closers: string[] = []
+  let inString = false
+  let escaped = false
+  let expectingKey = false
+  // Start of a key whose value hasn't begun yet
+  let keyStart = -1
+
+  for (let i = start; i < input.length; i++) {
+    const ch = input[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (ch === '\\') escaped = true
+      else if (ch === '"') inString = false
+      continue
     }
 
-    if (start !== -1 && end !== -1) {
-      return str.substring(start, end)
+    if (ch === '"') {
+      inString = true
+      if (expectingKey) keyStart = i
+      expectingKey = false
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']')
+      expectingKey = ch === '{'
+      keyStart = -1
+    } else if (ch === '}' || ch === ']') {
+      closers.pop()
+      if (closers.length === 0) return input.substring(start, i + 1)
+      expectingKey = false
+      keyStart = -1
+    } else if (ch === ',') {
+      expectingKey = closers[closers.length - 1] === '}'
+      keyStart = -1
+    } else if (ch === ':') {
+      keyStart = -1
     }
   }
 
-  return null
+  let out: string
+  if (keyStart !== -1) {
+    out = input.substring(start, keyStart)
+  } else {
+    out = input.substring(start)
+    if (inString) {
+      if (escaped) out = out.slice(0, -1)
+      out = `${out.replace(/\\u[0-9a-fA-F]{0,3}$/, '')}"`
+    }
+  }
+
+  out = out
+    .trimEnd()
+    .replace(/([:,[]\s*)(t|tr|tru)$/, '$1true')
+    .replace(/([:,[]\s*)(f|fa|fal|fals)$/, '$1false')
+    .replace(/([:,[]\s*)(n|nu|nul)$/, '$1null')
+    .replace(/(\d)[.eE+-]+$/, '$1')
+    .replace(/([:,[]\s*)-$/, '$1')
+    .replace(/,\s*$/, '')
+  if (/:\s*$/.test(out)) out += 'null'
+
+  return out + closers.reverse().join('')
 }
 
+// =============================================================================
+// Partial Recovery
+// =============================================================================
+
 /**
- * Attempt partial recovery of key-value pairs
+ * Collect "key": value pairs from JSON too broken to parse
  */
 function partialRecovery(input: string): Record<string, unknown> | null {
   const result: Record<string, unknown> = {}
 
-  // Match "key": value patterns
   const kvPattern = /"([^"]+)"\s*:\s*("(?:[^"\\]|\\.)*"|true|false|null|\d+(?:\.\d+)?|\[[\s\S]*?\]|\{[\s\S]*?\})/g
   let match
   let foundAny = false
@@ -125,79 +370,227 @@ function partialRecovery(input: string): Record<string, unknown> | null {
   return foundAny ? result : null
 }
 
+// =============================================================================
+// Unwrapping
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
 /**
- * Robust JSON parser with 5-strategy fallback
- *
- * Strategies:
- * 1. Direct JSON.parse()
- * 2. Clean string (trailing commas, escapes) then parse
- * 3. Extract JSON from mixed text/markdown
- * 4. Partial recovery (key-value pairs)
- * 5. Return as raw text fallback
+ * Text from common SDK message shapes (Anthropic content blocks, OpenAI
+ * choices, { message } / { text }), or null
  */
-export function robustJSONParse<T = unknown>(input: string): ParseResult<T> {
-  if (!input || typeof input !== 'string') {
-    return {
-      success: false,
-      raw: String(input),
-      error: 'Invalid input: expected string',
-      strategy: 'none'
-    }
+function extractTextFromKnownShapes(value: any): string | null {
+  if (Array.isArray(value?.content)) {
+    const texts = value.content.map((part: any) => (typeof part === 'string' ? part : part?.text)).filter(Boolean)
+    if (texts.length) return texts.join('\n')
+  }
+  if (Array.isArray(value?.choices)) {
+    const parts = value.choices
+      .map((choice: any) => choice?.message?.content ?? choice?.delta?.content ?? choice?.text)
+      .filter(Boolean)
+    if (parts.length) return parts.join('\n')
   }
+  if (typeof value?.message === 'string') return value.message
+  if (typeof value?.text === 'string') return value.text
+  return null
+}
 
-  const trimmed = input.trim()
+/**
+ * An agent's own { status, result | message } object, which is never unwrapped
+ */
+function isAgentResponse(value: unknown): boolean {
+  return isPlainObject(value)
+    && (value.status === 'success' || value.status === 'error')
+    && ('result' in value || 'message' in value)
+}
 
-  // Strategy 1: Direct parse
+/**
+ * Decode JSON that was encoded as a JSON string (possibly more than once)
+ */
+function decodeNestedJson(value: unknown, depth: number): unknown {
+  if (depth <= 0 || typeof value !== 'string') return value
+  const trimmed = value.trim()
+  if (!/^["{[]/.test(trimmed)) return value
   try {
-    const data = JSON.parse(trimmed) as T
-    return { success: true, data, strategy: 'direct' }
+    return decodeNestedJson(JSON.parse(trimmed), depth - 1)
   } catch {
-    // Continue to next strategy
+    return value
   }
+}
 
-  // Strategy 2: Clean and parse
+/**
+ * Follow wrapper keys down to the payload
+ */
+function unwrapResponse(
+  data: unknown,
+  options: ResolvedOptions
+): { data: unknown; unwrapped: string[]; strategy: ParseStrategy | null } {
+  const nested: ResolvedOptions = { ...options, unwrap: false, recoverPairs: false, allowPartial: false }
+  const unwrapped: string[] = []
+  // Strategy that recovered a wrapped string, if it needed more than JSON.parse
+  let strategy: ParseStrategy | null = null
+  let current = decodeNestedJson(data, options.maxDecodeDepth)
+
+  const advance = (key: string): boolean => {
+    const value = (current as Record<string, unknown>)[key]
+    if (value == null) return false
+    if (typeof value === 'object') {
+      current = value
+    } else if (typeof value === 'string') {
+      const parsed = parseText(value, nested)
+      if (!parsed.success) return false
+      if (parsed.strategy !== 'direct') strategy = parsed.strategy
+      current = decodeNestedJson(parsed.data, options.maxDecodeDepth)
+    } else {
+      return false
+    }
+    unwrapped.push(key)
+    return true
+  }
+
+  for (let depth = 0; depth < options.maxUnwrapDepth; depth++) {
+    if (!isPlainObject(current) || isAgentResponse(current)) break
+
+    const keys = options.preferRawResponse ? ['raw_response', ...options.unwrapKeys] : options.unwrapKeys
+    if (!keys.some(key => Object.prototype.hasOwnProperty.call(current, key) && advance(key))) break
+  }
+
+  return { data: current, unwrapped, strategy }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function tryParse(input: string): { ok: true; data: unknown } | { ok: false } {
   try {
-    const cleaned = cleanJsonString(trimmed)
-    const data = JSON.parse(cleaned) as T
-    return { success: true, data, strategy: 'cleaned' }
+    return { ok: true, data: JSON.parse(input) }
   } catch {
-    // Continue to next strategy
+    return { ok: false }
   }
+}
 
-  // Strategy 3: Extract JSON from text
-  const extracted = extractJsonFromText(trimmed)
-  if (extracted) {
-    try {
-      const data = JSON.parse(extracted) as T
-      return { success: true, data, strategy: 'extracted' }
-    } catch {
-      // Try cleaning the extracted JSON
-      try {
-        const cleanedExtracted = cleanJsonString(extracted)
-        const data = JSON.parse(cleanedExtracted) as T
-        return { success: true, data, strategy: 'extracted_cleaned' }
-      } catch {
-        // Continue to next strategy
-      }
-    }
+/**
+ * Run the strategies over a string
+ */
+function parseText(input: string, options: ResolvedOptions): ParseResult<unknown> {
+  const trimmed = input.trim()
+  if (!trimmed) {
+    return { success: false, raw: input, error: 'Empty input', strategy: 'none' }
   }
 
-  // Strategy 4: Partial recovery
-  const partial = partialRecovery(trimmed)
-  if (partial && Object.keys(partial).length > 0) {
-    return {
-      success: true,
-      data: partial as T,
-      strategy: 'partial_recovery'
+  const direct = tryParse(trimmed)
+  if (direct.ok) return { success: true, data: direct.data, strategy: 'direct' }
+
+  if (options.attemptFix) {
+    const cleaned = tryParse(cleanJsonString(trimmed))
+    if (cleaned.ok) return { success: true, data: cleaned.data, strategy: 'cleaned' }
+  }
+
+  for (const candidate of extractCandidates(trimmed, options.maxBlocks)) {
+    const extracted = tryParse(candidate)
+    if (extracted.ok) return { success: true, data: extracted.data, strategy: 'extracted' }
+    if (options.attemptFix) {
+      const cleaned = tryParse(cleanJsonString(candidate))
+      if (cleaned.ok) return { success: true, data: cleaned.data, strategy: 'extracted_cleaned' }
     }
   }
 
-  // Strategy 5: Return as raw text fallback
+  if (options.allowPartial) {
+    const completed = completePartialJSON(options.attemptFix ? repairTokens(trimmed) : trimmed)
+    const partial = completed === null ? null : tryParse(completed)
+    if (partial?.ok) return { success: true, data: partial.data, strategy: 'partial', partial: true }
+  }
+
+  if (options.recoverPairs) {
+    const recovered = partialRecovery(trimmed)
+    if (recovered) return { success: true, data: recovered, strategy: 'partial_recovery' }
+  }
+
+  return { success: false, raw: trimmed, error: 'All parsing strategies failed', strategy: 'raw_fallback' }
+}
+
+/**
+ * Parse JSON from an agent, repairing and extracting it as needed
+ *
+ * Strings go through the strategies; already-parsed objects are used as-is
+ * (or, for SDK message shapes, their text is parsed).
+ */
+export function parseJSON<T = unknown>(input: unknown, options: ParseOptions = {}): ParseResult<T> {
+  const resolved: ResolvedOptions = { ...DEFAULT_OPTIONS, ...options }
+
+  let result: ParseResult<unknown>
+  if (typeof input === 'string') {
+    result = parseText(input, resolved)
+  } else if (input !== null && typeof input === 'object') {
+    const text = extractTextFromKnownShapes(input)
+    result = text !== null ? parseText(text, resolved) : { success: true, data: input, strategy: 'direct' }
+  } else {
+    return { success: false, raw: String(input), error: 'Invalid input: expected string', strategy: 'none' }
+  }
+
+  if (!result.success || !resolved.unwrap) return result as ParseResult<T>
+
+  const { data, unwrapped, strategy } = unwrapResponse(result.data, resolved)
+  return {
+    ...result,
+    data: data as T,
+    ...(strategy && result.strategy === 'direct' ? { strategy } : {}),
+    ...(unwrapped.length > 0 ? { unwrapped } : {}),
+  }
+}
+
+/**
+ * Parse an LLM reply down to the agent's own response object: unwraps
+ * envelopes and double-encoded JSON, and doesn't guess at key-value pairs
+ */
+export function parseLLMResponse<T = any>(input: unknown, options: ParseOptions = {}): ParseResult<T> {
+  return parseJSON<T>(input, { unwrap: true, recoverPairs: false, ...options })
+}
+
+/**
+ * @deprecated Use parseJSON
+ */
+export function robustJSONParse<T = unknown>(input: string): ParseResult<T> {
+  return parseJSON<T>(input)
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+export interface IncrementalJSONParser<T> {
+  /** Add a chunk and parse everything received so far */
+  push: (chunk: string) => ParseResult<T>
+  /** Text received so far */
+  text: () => string
+  reset: () => void
+}
+
+/**
+ * Parser for JSON that arrives in chunks. Every push returns the value so
+ * far, with truncated strings, arrays and objects closed off (`partial: true`
+ * until the JSON is complete).
+ */
+export function createIncrementalJSONParser<T = any>(options: ParseOptions = {}): IncrementalJSONParser<T> {
+  let text = ''
+  let last: ParseResult<T> = { success: false, error: 'No data yet', strategy: 'none' }
+
   return {
-    success: false,
-    raw: trimmed,
-    error: 'All parsing strategies failed',
-    strategy: 'raw_fallback'
+    push: (chunk) => {
+      text += chunk
+      if (!chunk) return last
+      last = parseJSON<T>(text, { recoverPairs: false, ...options, allowPartial: true })
+      return last
+    },
+    text: () => text,
+    reset: () => {
+      text = ''
+      last = { success: false, error: 'No data yet', strategy: 'none' }
+    },
   }
 }
 
@@ -219,7 +612,7 @@ export function parseSSEData<T = unknown>(data: string): ParseResult<T> {
     }
   }
 
-  return robustJSONParse<T>(data)
+  return parseJSON<T>(data)
 }
 
 /**
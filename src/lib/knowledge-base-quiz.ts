@@ -0,0 +1,52 @@
+/**
+ * Knowledge-Base Quiz
+ *
+ * "Quiz me on my documents": rounds whose questions are grounded in files the
+ * user uploaded to the Lyzr RAG knowledge base attached to the Trivia Host
+ * Agent (see ragKnowledgeBase.ts and workflow.json). Every explanation cites
+ * the document the question came from.
+ */
+
+import type { Feedback } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * RAG knowledge base id from VITE_TRIVIA_RAG_ID, or null when document
+ * quizzes aren't configured
+ */
+export function getTriviaKnowledgeBaseId(): string | null {
+  return import.meta.env.VITE_TRIVIA_RAG_ID || null
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Prompt text asking the agent to ground questions in the chosen documents
+ */
+export function describeDocumentsForPrompt(documents: string[]): string {
+  const names = documents.map(name => `"${name}"`).join(', ')
+  return `Base every question strictly on these documents from your knowledge base: ${names}. `
+    + 'Do not use outside knowledge. End each explanation with "(Source: <file name>)" '
+    + 'and set source_document to that file name.'
+}
+
+/**
+ * Append "(Source: file)" to an explanation unless it already names the file
+ */
+export function citeSource(explanation: string, source: string | null | undefined): string {
+  if (!source || explanation.includes(source)) return explanation
+  return `${explanation.trim()} (Source: ${source})`.trim()
+}
+
+/**
+ * Feedback with its explanation guaranteed to cite the source document
+ */
+export function withCitation(feedback: Feedback | null): Feedback | null {
+  if (!feedback?.source_document) return feedback
+  return { ...feedback, explanation: citeSource(feedback.explanation ?? '', feedback.source_document) }
+}
@@ -0,0 +1,243 @@
+/**
+ * Offline Question Source
+ *
+ * Runs a full trivia game (setup -> question -> feedback -> game_over) from
+ * the bundled question bank in src/data/question-bank, without calling the
+ * Lyzr agent. Responses mimic the Trivia Host Agent's TriviaResult shape.
+ */
+
+import type { QuestionSource, GameConfig, NextQuestionRequest, ResumeConfig } from '@/lib/question-source'
+import { describeCorrectAnswer, gradeAnswerLocally, toQuestion } from '@/lib/question-types'
+import { toScore, triviaTurn, triviaError } from '@/lib/trivia-turn'
+import { describeTopics, getBuiltInCategories, type TopicSelection } from '@/lib/categories'
+import type { BuiltInCategory, Difficulty, Question } from '@/types'
+import science from '@/data/question-bank/science.json'
+import history from '@/data/question-bank/history.json'
+import geography from '@/data/question-bank/geography.json'
+import entertainment from '@/data/question-bank/entertainment.json'
+import sports from '@/data/question-bank/sports.json'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Question bank entry: a Question plus the explanation shown as feedback
+ */
+export interface BankQuestion extends Question {
+  explanation: string
+  /** Knowledge-base document the question was drawn from, if any */
+  source_document?: string
+}
+
+export type QuestionBank = Record<BuiltInCategory, Record<Difficulty, BankQuestion[]>>
+
+interface OfflineSession {
+  topics: TopicSelection
+  difficulty: Difficulty
+  deck: BankQuestion[]
+  index: number
+  answered: boolean
+  correct: number
+  total: number
+}
+
+export interface OfflineQuestionSourceOptions {
+  /** Question bank to draw from (defaults to the bundled bank) */
+  bank?: QuestionBank
+  /** Random number generator used to shuffle decks (injectable for tests) */
+  random?: () => number
+}
+
+// =============================================================================
+// Bundled Bank
+// =============================================================================
+
+export const DEFAULT_QUESTION_BANK: QuestionBank = {
+  Science: science,
+  History: history,
+  Geography: geography,
+  Entertainment: entertainment,
+  Sports: sports,
+}
+
+const AGENT_NAME = 'Offline Question Bank'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+// =============================================================================
+// Source
+// =============================================================================
+
+/**
+ * Create a question source that serves questions from a local bank
+ */
+export function createOfflineQuestionSource(options: OfflineQuestionSourceOptions = {}): QuestionSource {
+  const bank = options.bank ?? DEFAULT_QUESTION_BANK
+  const random = options.random ?? Math.random
+  const sessions = new Map<string, OfflineSession>()
+
+  const questionTurn = (session: OfflineSession, session_id: string, commentary: string) =>
+    triviaTurn(
+      {
+        game_state: 'question',
+        question: toQuestion(session.deck[session.index]),
+        feedback: null,
+        score: toScore(session.correct, session.total),
+        commentary,
+      },
+      session_id,
+      AGENT_NAME
+    )
+
+  // The bundled bank only covers built-in categories; anything else needs the agent
+  const questionsFor = (topics: TopicSelection, difficulty: Difficulty) =>
+    getBuiltInCategories(topics).flatMap(category => bank[category]?.[difficulty] ?? [])
+
+  // Re-deal the rest of the deck at a new level. The new level's questions come
+  // first; the old ones stay behind them so the round never runs short.
+  const changeDifficulty = (session: OfflineSession, difficulty: Difficulty) => {
+    const asked = session.deck.slice(0, session.index)
+    const upcoming = session.deck.slice(session.index)
+    const seen = new Set(session.deck.map(entry => entry.text))
+    const fresh = shuffle(questionsFor(session.topics, difficulty).filter(entry => !seen.has(entry.text)), random)
+    session.deck = [...asked, ...[...fresh, ...upcoming].slice(0, upcoming.length)]
+    session.difficulty = difficulty
+  }
+
+  const source: QuestionSource = {
+    kind: 'offline',
+
+    startGame: async ({ topics, difficulty, session_id, round_length }: GameConfig) => {
+      const categories = getBuiltInCategories(topics)
+      const questions = questionsFor(topics, difficulty)
+      if (questions.length === 0) {
+        return triviaError(
+          `No offline questions available for ${describeTopics(topics) || 'this selection'} (${difficulty}). Custom categories, free-form topics and document quizzes need the AI host.`,
+          session_id
+        )
+      }
+
+      const session: OfflineSession = {
+        topics,
+        difficulty,
+        deck: shuffle(questions, random).slice(0, round_length ?? questions.length),
+        index: 0,
+        answered: false,
+        correct: 0,
+        total: 0,
+      }
+      sessions.set(session_id, session)
+
+      return questionTurn(session, session_id, `Welcome to ${categories.join(' + ')} trivia on ${difficulty}! Here's your first question.`)
+    },
+
+    submitAnswer: async (answer: string | null, session_id: string) => {
+      const session = sessions.get(session_id)
+      if (!session || session.index >= session.deck.length) {
+        return triviaError('No active offline game for this session', session_id)
+      }
+      if (session.answered) {
+        return triviaError('This question has already been answered', session_id)
+      }
+
+      const entry = session.deck[session.index]
+      const isCorrect = gradeAnswerLocally(entry, answer) === true
+      session.answered = true
+      session.total += 1
+      if (isCorrect) session.correct += 1
+
+      const correctOption = describeCorrectAnswer(entry)
+
+      return triviaTurn(
+        {
+          game_state: 'feedback',
+          question: toQuestion(entry),
+          feedback: {
+            is_correct: isCorrect,
+            message: isCorrect
+              ? "✅ That's correct! Well done!"
+              : answer === null
+                ? `⏰ Time's up! The answer was ${correctOption}.`
+                : `❌ Not quite. The answer was ${correctOption}.`,
+            explanation: entry.explanation,
+          },
+          score: toScore(session.correct, session.total),
+          commentary: isCorrect ? 'Nice one! Keep the streak going.' : "Shake it off - the next one's yours.",
+        },
+        session_id,
+        AGENT_NAME
+      )
+    },
+
+    nextQuestion: async (session_id: string, { difficulty }: NextQuestionRequest = {}) => {
+      const session = sessions.get(session_id)
+      if (!session) {
+        return triviaError('No active offline game for this session', session_id)
+      }
+
+      session.index += 1
+      session.answered = false
+      if (difficulty && difficulty !== session.difficulty) changeDifficulty(session, difficulty)
+
+      if (session.index >= session.deck.length) {
+        const score = toScore(session.correct, session.total)
+        return triviaTurn(
+          {
+            game_state: 'game_over',
+            question: null,
+            feedback: null,
+            score,
+            commentary: `That's the end of the round! You finished with ${score.correct} out of ${score.total}.`,
+          },
+          session_id,
+          AGENT_NAME
+        )
+      }
+
+      return questionTurn(session, session_id, `Question ${session.index + 1} of ${session.deck.length}.`)
+    },
+
+    // Deal a fresh deck that starts with the saved question and skips the ones already asked
+    restoreGame: ({ topics, difficulty, session_id, round_length, question, asked, score }: ResumeConfig) => {
+      const seen = new Set(asked.map(entry => entry.text))
+      const pool = questionsFor(topics, difficulty)
+      const current = question ? pool.find(entry => entry.text === question.text) ?? { ...question, explanation: '' } : null
+      const answered = current !== null && seen.has(current.text)
+      const rest = shuffle(pool.filter(entry => !seen.has(entry.text) && entry.text !== current?.text), random)
+      const remaining = round_length === null ? rest.length : Math.max(0, round_length - asked.length - (current && !answered ? 1 : 0))
+
+      sessions.set(session_id, {
+        topics,
+        difficulty,
+        deck: [...(current ? [current] : []), ...rest.slice(0, remaining)],
+        index: 0,
+        answered,
+        correct: score.correct,
+        total: score.total,
+      })
+    },
+
+    resumeGame: async (config: ResumeConfig) => {
+      if (!sessions.has(config.session_id)) source.restoreGame!(config)
+      const session = sessions.get(config.session_id)!
+
+      // Feedback isn't kept, so an answered question moves on to the next one
+      if (session.answered || session.index >= session.deck.length) return source.nextQuestion(config.session_id)
+      return questionTurn(session, config.session_id, "Welcome back! Here's where you left off.")
+    },
+  }
+
+  return source
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { readPartialQuestion } from '@/lib/partial-question'
+import { createIncrementalJSONParser } from '@/lib/json-parser'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const REPLY = JSON.stringify({
+  status: 'success',
+  result: {
+    game_state: 'question',
+    question: { type: 'multiple_choice', text: 'Which planet is "red"?', options: ['A) Mars', 'B) Venus'], correct_answer: 'A' },
+    score: { correct: 0, total: 0 },
+  },
+})
+
+/** Partial question after each cut point of the reply, streamed through one parser */
+function stream(cuts: string[]) {
+  const parser = createIncrementalJSONParser()
+  let sent = 0
+  return cuts.map((cut) => {
+    const end = REPLY.indexOf(cut) + cut.length
+    const partial = readPartialQuestion(parser.push(REPLY.slice(sent, end)))
+    sent = end
+    return partial
+  })
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('readPartialQuestion', () => {
+  it('waits for the question text', () => {
+    expect(stream(['"game_state":"ques', '"type":"multiple_choice"', '"text":'])).toEqual([null, null, null])
+  })
+
+  it('reads the text as it arrives and only whole values otherwise', () => {
+    const [text, option, options, rest] = stream(['"text":"Which pla', '"A) Ma', '"B) Venus"', '"correct_answer":"A"'])
+    expect(text).toEqual({ game_state: 'question', type: 'multiple_choice', text: 'Which pla', options: [], options_complete: false })
+    expect(option).toMatchObject({ text: 'Which planet is "red"?', options: [], options_complete: false })
+    expect(options).toMatchObject({ options: ['A) Mars'], options_complete: false })
+    expect(rest).toMatchObject({ options: ['A) Mars', 'B) Venus'], options_complete: true })
+  })
+
+  it('holds back a cut-off game_state or type', () => {
+    const parser = createIncrementalJSONParser()
+    expect(readPartialQuestion(parser.push('{"result":{"question":{"text":"Why?","type":"multi_sel'))).toEqual({
+      game_state: null,
+      type: null,
+      text: 'Why?',
+      options: [],
+      options_complete: false,
+    })
+  })
+
+  it('reads a complete reply in one chunk', () => {
+    expect(readPartialQuestion(createIncrementalJSONParser().push(REPLY))).toEqual({
+      game_state: 'question',
+      type: 'multiple_choice',
+      text: 'Which planet is "red"?',
+      options: ['A) Mars', 'B) Venus'],
+      options_complete: true,
+    })
+  })
+})
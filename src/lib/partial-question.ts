@@ -0,0 +1,88 @@
+/**
+ * Partial Question Parsing
+ *
+ * Reads the question out of a Trivia Host Agent reply that is still
+ * streaming in, so the question screen can show the text before the options
+ * (and the rest of the JSON) have arrived. The reply is parsed with an
+ * incremental JSON parser, one per streamed reply.
+ *
+ * @example
+ * ```tsx
+ * const parser = createIncrementalJSONParser()
+ * readPartialQuestion(parser.push('{"status":"success","result":{"game_state":"question","question":{"text":"Which pla'))
+ * // { game_state: 'question', type: null, text: 'Which pla', options: [], options_complete: false }
+ * ```
+ */
+
+import type { ParseResult } from '@/lib/json-parser'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PartialQuestion {
+  /** game_state, once it has arrived */
+  game_state: string | null
+  /** Question type, once it has arrived (multiple choice when the question never sets one) */
+  type: string | null
+  /** Question text so far (may be cut off mid-word) */
+  text: string
+  /** Options received in full so far */
+  options: string[]
+  /** True once the options array has closed */
+  options_complete: boolean
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Keys from the root down to the value the text ended inside. In a closed-off
+ * partial parse those are the only values that can be cut short; everything
+ * before them arrived in full.
+ */
+function openPath(data: unknown): string[] {
+  const path: string[] = []
+  let value = data
+  while (value && typeof value === 'object') {
+    const keys = Object.keys(value)
+    if (keys.length === 0) break
+    const last = keys[keys.length - 1]
+    path.push(last)
+    value = (value as Record<string, unknown>)[last]
+  }
+  return path
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Question text and complete options from the incremental parse of a
+ * streaming reply, or null until the question text has started arriving
+ */
+export function readPartialQuestion(parsed: ParseResult<unknown>): PartialQuestion | null {
+  const result = (parsed.data as { result?: Record<string, any> } | undefined)?.result
+  const question = result?.question
+  if (!question || typeof question !== 'object' || typeof question.text !== 'string') return null
+
+  const open = parsed.partial ? openPath(parsed.data) : []
+  /** Whether the value at result.<keys> may still be cut short */
+  const isOpen = (...keys: string[]) => ['result', ...keys].every((key, i) => open[i] === key)
+  const complete = (value: unknown, ...keys: string[]) =>
+    typeof value === 'string' && !isOpen(...keys) ? value : null
+
+  const options: string[] = Array.isArray(question.options)
+    ? question.options.filter((option: unknown, i: number) => complete(option, 'question', 'options', String(i)) !== null)
+    : []
+
+  return {
+    game_state: complete(result!.game_state, 'game_state'),
+    type: complete(question.type, 'question', 'type'),
+    text: question.text,
+    options,
+    options_complete: Array.isArray(question.options) && !isOpen('question', 'options'),
+  }
+}
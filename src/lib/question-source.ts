@@ -0,0 +1,202 @@
+/**
+ * Trivia Question Sources
+ *
+ * Pluggable abstraction over where trivia turns come from. Every source
+ * returns the same AIAgentResponse / TriviaResult shape as the Trivia Host
+ * Agent, so the game screens don't care whether a turn was produced by the
+ * Lyzr agent or by the bundled offline question bank.
+ *
+ * @example
+ * ```tsx
+ * const source = getQuestionSource('offline')
+ * const topics = buildTopicSelection(['Science', 'History'], '')
+ * const result = await source.startGame({ topics, difficulty: 'Easy', session_id: 'trivia-1', round_length: 10 })
+ * if (result.success) {
+ *   const trivia = result.response as TriviaResponse
+ * }
+ * ```
+ */
+
+import { callAIAgent, streamAIAgent, type AIAgentResponse } from '@/utils/aiAgent'
+import { triviaHostResponseValidator } from '@/utils/responseSchema'
+import { createOfflineQuestionSource } from '@/lib/offline-question-source'
+import { createBatchQuestionSource } from '@/lib/batch-question-source'
+import { describeRoundLength } from '@/lib/trivia-turn'
+import { describeTopicsForPrompt, type TopicSelection } from '@/lib/categories'
+import { readPartialQuestion, type PartialQuestion } from '@/lib/partial-question'
+import { createIncrementalJSONParser } from '@/lib/json-parser'
+import { QUESTION_TYPES_PROMPT } from '@/lib/question-types'
+import { isTransportConfigured } from '@/lib/agent-transport'
+import type { Difficulty, Question, Score } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const AGENT_ID = '6979bd37a5d355f8aa489bab'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type QuestionSourceKind = 'agent' | 'batch' | 'offline'
+
+/**
+ * Per-request options for a turn
+ */
+export interface TurnRequest {
+  /** Cancels any pending agent request; the caller should ignore the response */
+  signal?: AbortSignal
+  /** Called as a question streams in, before the turn resolves (agent source only) */
+  onPartial?: (partial: PartialQuestion) => void
+}
+
+/**
+ * Options for the next-question request
+ */
+export interface NextQuestionRequest extends TurnRequest {
+  /** Level to ask the next question at (adaptive games); otherwise the game's difficulty */
+  difficulty?: Difficulty
+}
+
+export interface GameConfig extends TurnRequest {
+  /** Categories and/or free-form topic the round draws from */
+  topics: TopicSelection
+  difficulty: Difficulty
+  session_id: string
+  /** Number of questions in the round, or null for an endless round */
+  round_length: number | null
+}
+
+/**
+ * A game saved before a page reload, for picking it up again
+ */
+export interface ResumeConfig extends GameConfig {
+  /** Question on screen when the game was saved */
+  question: Question | null
+  /** Questions answered so far, oldest first (including the current one once answered) */
+  asked: Question[]
+  score: Score
+  /** What the source's saveSession returned when the game was saved */
+  source_state?: unknown
+}
+
+/**
+ * A source of trivia turns. Each method resolves to an AIAgentResponse whose
+ * `response.result` is a TriviaResult.
+ */
+export interface QuestionSource {
+  kind: QuestionSourceKind
+  /** Start a new game and return the first question */
+  startGame: (config: GameConfig) => Promise<AIAgentResponse>
+  /** Submit an answer (null when time ran out) for the current question and return feedback */
+  submitAnswer: (answer: string | null, session_id: string, request?: TurnRequest) => Promise<AIAgentResponse>
+  /** Advance to the next question (or game_over) */
+  nextQuestion: (session_id: string, request?: NextQuestionRequest) => Promise<AIAgentResponse>
+  /** Session details only the source keeps (client-side sources), saved with the game and handed back in ResumeConfig */
+  saveSession?: (session_id: string) => unknown
+  /** Rebuild session state kept in memory (client-side sources), so a saved game can continue after a reload */
+  restoreGame?: (config: ResumeConfig) => void
+  /** Re-sync a saved game: the current question or feedback, or the next question when the saved one was answered */
+  resumeGame: (config: ResumeConfig) => Promise<AIAgentResponse>
+}
+
+// =============================================================================
+// Agent Source
+// =============================================================================
+
+/**
+ * Question source backed by the Trivia Host Agent. Turns are validated
+ * against the host response schema and re-requested once on a violation.
+ * Requests with `onPartial` are streamed.
+ */
+export function createAgentQuestionSource(agent_id: string = AGENT_ID): QuestionSource {
+  const send = (message: string, session_id: string, { signal, onPartial }: TurnRequest = {}) => {
+    const options = { session_id, signal, validate: triviaHostResponseValidator }
+    if (!onPartial) return callAIAgent(message, agent_id, options)
+
+    const parser = createIncrementalJSONParser()
+    return streamAIAgent(message, agent_id, {
+      ...options,
+      onText: (delta) => {
+        const partial = readPartialQuestion(parser.push(delta))
+        if (partial) onPartial(partial)
+      },
+    })
+  }
+
+  return {
+    kind: 'agent',
+
+    startGame: ({ topics, difficulty, session_id, round_length, ...request }) =>
+      send(
+        `Start a new trivia game. ${describeTopicsForPrompt(topics)} Difficulty: ${difficulty}. ${describeRoundLength(round_length)} ${QUESTION_TYPES_PROMPT} Give me the first question.`,
+        session_id,
+        request
+      ),
+
+    submitAnswer: (answer, session_id, request) =>
+      send(
+        answer === null ? "I ran out of time and didn't answer this question." : `My answer is: ${answer}`,
+        session_id,
+        request
+      ),
+
+    nextQuestion: (session_id, { difficulty, ...request } = {}) =>
+      send(
+        difficulty
+          ? `Next question please. Difficulty: ${difficulty} - ask this and the following questions at this level until I tell you otherwise.`
+          : 'Next question please',
+        session_id,
+        request
+      ),
+
+    // The agent keeps the session; ask it where the game stands without moving on
+    resumeGame: ({ topics, difficulty, session_id, round_length, question, asked, score, ...request }) =>
+      send(
+        `Resume our trivia game - my connection dropped. ${describeTopicsForPrompt(topics)} Difficulty: ${difficulty}. ${describeRoundLength(round_length)} `
+          + `I have answered ${score.total} questions so far, ${score.correct} correctly. `
+          + (question
+            ? `The last question I saw was "${question.text}"${asked.some(entry => entry.text === question.text) ? ' and I already answered it' : ''}. `
+            : '')
+          + 'Do not move on: repeat the current question (game_state "question") or your feedback on my last answer (game_state "feedback"), with the current score.',
+        session_id,
+        request
+      ),
+  }
+}
+
+// =============================================================================
+// Source Registry
+// =============================================================================
+
+const sources: Partial<Record<QuestionSourceKind, QuestionSource>> = {}
+
+/**
+ * Get the shared question source for a kind
+ */
+export function getQuestionSource(kind: QuestionSourceKind): QuestionSource {
+  if (!sources[kind]) {
+    switch (kind) {
+      case 'offline':
+        sources[kind] = createOfflineQuestionSource()
+        break
+      case 'batch':
+        sources[kind] = createBatchQuestionSource({ agent_id: AGENT_ID })
+        break
+      default:
+        sources[kind] = createAgentQuestionSource()
+    }
+  }
+  return sources[kind]!
+}
+
+/**
+ * Default source: whatever VITE_TRIVIA_QUESTION_SOURCE names, else the agent
+ * when the transport is configured (API key or mock server), otherwise offline.
+ */
+export function getDefaultQuestionSourceKind(): QuestionSourceKind {
+  const configured = import.meta.env.VITE_TRIVIA_QUESTION_SOURCE
+  if (configured === 'offline' || configured === 'agent' || configured === 'batch') return configured
+  return isTransportConfigured() ? 'agent' : 'offline'
+}
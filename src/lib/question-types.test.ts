@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { describeCorrectAnswer, getDefaultAnswer, gradeAnswerLocally, joinAnswer, validateQuestion } from '@/lib/question-types'
+import { validateQuestionShape } from '@/utils/responseSchema'
+import type { Question } from '@/types'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const multipleChoice: Question = {
+  text: 'Which planet is known as the Red Planet?',
+  options: ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn'],
+  correct_answer: 'B',
+}
+
+const trueFalse: Question = { type: 'true_false', text: 'The Sun is a star.', options: ['True', 'False'], correct_answer: 'True' }
+
+const multiSelect: Question = {
+  type: 'multi_select',
+  text: 'Which of these are gas giants?',
+  options: ['A) Jupiter', 'B) Mars', 'C) Saturn', 'D) Venus'],
+  correct_answer: 'A, C',
+}
+
+const freeText: Question = {
+  type: 'free_text',
+  text: 'Who wrote "Pride and Prejudice"?',
+  options: [],
+  correct_answer: 'Jane Austen',
+  accepted_answers: ['Austen'],
+}
+
+const numeric: Question = {
+  type: 'numeric',
+  text: 'In what year did Apollo 11 land on the Moon?',
+  options: [],
+  correct_answer: '1969',
+  tolerance: 2,
+}
+
+const ordering: Question = {
+  type: 'ordering',
+  text: 'Order these planets from the Sun outwards.',
+  options: ['A) Earth', 'B) Mercury', 'C) Mars'],
+  correct_answer: 'B, A, C',
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('gradeAnswerLocally', () => {
+  it('grades choice questions by label or option text', () => {
+    expect(gradeAnswerLocally(multipleChoice, 'B) Mars')).toBe(true)
+    expect(gradeAnswerLocally(multipleChoice, 'A) Jupiter')).toBe(false)
+    expect(gradeAnswerLocally({ ...multipleChoice, correct_answer: 'Mars' }, 'B) Mars')).toBe(true)
+    expect(gradeAnswerLocally(trueFalse, 'True')).toBe(true)
+    expect(gradeAnswerLocally(trueFalse, 'False')).toBe(false)
+  })
+
+  it('needs exactly the right options for multi-select, in any order', () => {
+    expect(gradeAnswerLocally(multiSelect, joinAnswer(['C) Saturn', 'A) Jupiter']))).toBe(true)
+    expect(gradeAnswerLocally(multiSelect, joinAnswer(['A) Jupiter']))).toBe(false)
+    expect(gradeAnswerLocally(multiSelect, joinAnswer(['A) Jupiter', 'B) Mars', 'C) Saturn']))).toBe(false)
+  })
+
+  it('needs the options in the right order for ordering', () => {
+    expect(gradeAnswerLocally(ordering, joinAnswer(['B) Mercury', 'A) Earth', 'C) Mars']))).toBe(true)
+    expect(gradeAnswerLocally(ordering, joinAnswer(ordering.options))).toBe(false)
+  })
+
+  it('accepts close free-text matches and leaves the rest to the host', () => {
+    expect(gradeAnswerLocally(freeText, 'jane austen')).toBe(true)
+    expect(gradeAnswerLocally(freeText, 'Jane Austin')).toBe(true)
+    expect(gradeAnswerLocally(freeText, 'Austen.')).toBe(true)
+    expect(gradeAnswerLocally(freeText, 'Charlotte Bronte')).toBeNull()
+  })
+
+  it('grades numeric answers within the tolerance', () => {
+    expect(gradeAnswerLocally(numeric, '1970')).toBe(true)
+    expect(gradeAnswerLocally(numeric, '1,971')).toBe(true)
+    expect(gradeAnswerLocally(numeric, '1975')).toBe(false)
+    expect(gradeAnswerLocally(numeric, 'the sixties')).toBe(false)
+  })
+})
+
+describe('describeCorrectAnswer', () => {
+  it('shows the correct answer for each type', () => {
+    expect(describeCorrectAnswer(multipleChoice)).toBe('B) Mars')
+    expect(describeCorrectAnswer(multiSelect)).toBe('A) Jupiter, C) Saturn')
+    expect(describeCorrectAnswer(ordering)).toBe('B) Mercury → A) Earth → C) Mars')
+    expect(describeCorrectAnswer(freeText)).toBe('Jane Austen')
+    expect(describeCorrectAnswer({ ...numeric, unit: 'AD' })).toBe('1969 AD (± 2)')
+  })
+})
+
+describe('getDefaultAnswer', () => {
+  it('submits ordering questions in the order shown', () => {
+    expect(getDefaultAnswer(ordering)).toBe(joinAnswer(ordering.options))
+    expect(getDefaultAnswer(multipleChoice)).toBeNull()
+  })
+})
+
+describe('validateQuestion', () => {
+  it('accepts a well-formed question of every type', () => {
+    for (const question of [multipleChoice, trueFalse, multiSelect, freeText, numeric, ordering]) {
+      expect(validateQuestion(question)).toEqual([])
+    }
+  })
+
+  it('reports type-specific problems', () => {
+    expect(validateQuestion({ ...multipleChoice, correct_answer: 'E' })).toEqual(['question.correct_answer does not match any option'])
+    expect(validateQuestion({ ...multiSelect, correct_answer: 'A, E' }, 'q')).toEqual(['q.correct_answer must list the letters of the correct options'])
+    expect(validateQuestion({ ...ordering, correct_answer: 'B, A' })).toEqual(['question.correct_answer must list every option letter once, in order'])
+    expect(validateQuestion({ ...numeric, correct_answer: 'late sixties' })).toEqual(['question.correct_answer must be a number'])
+    expect(validateQuestion({ ...multipleChoice, type: 'essay' })).toEqual([
+      'question.type must be one of multiple_choice, true_false, multi_select, free_text, numeric, ordering',
+    ])
+  })
+})
+
+describe('validateQuestionShape', () => {
+  it('checks a question against the schema variant for its type', () => {
+    expect(validateQuestionShape(freeText, 'question')).toEqual([])
+    expect(validateQuestionShape({ ...numeric, tolerance: 'two' }, 'question')).not.toEqual([])
+    expect(validateQuestionShape({ ...multiSelect, options: ['A) Jupiter'] }, 'question')).not.toEqual([])
+  })
+})
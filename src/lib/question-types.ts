@@ -0,0 +1,277 @@
+/**
+ * Question Types
+ *
+ * Everything that depends on the kind of question: local grading, the
+ * correct answer as shown to the player and value checks on questions from
+ * the host. Each type has a schema variant in response_schemas/question_types.
+ * Answers travel as plain strings, so sources and agent prompts don't change:
+ *
+ *   multiple_choice, true_false   the chosen option, e.g. "B) Mars"
+ *   multi_select, ordering        the chosen options joined with " | " (in order)
+ *   free_text, numeric            what the player typed
+ *
+ * @example
+ * ```tsx
+ * gradeAnswerLocally(question, 'B) Mars')                        // multiple choice
+ * gradeAnswerLocally(question, joinAnswer(['A) Jupiter', 'C) Saturn'])) // multi-select
+ * describeCorrectAnswer({ type: 'numeric', text: 'Moon landing?', options: [], correct_answer: '1969', tolerance: 2 })
+ * // "1969 (± 2)"
+ * ```
+ */
+
+import { getOptionText, isNearMatch, normalizeAnswerText, parseOptions, resolveOptionId, toCanonicalAnswer } from '@/lib/answer-options'
+import type { Question, QuestionType } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'multi_select', 'free_text', 'numeric', 'ordering']
+
+/** Types answered by picking from `options` */
+const OPTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'multi_select', 'ordering']
+
+const ANSWER_SEPARATOR = ' | '
+
+/** Tells the host how to write the other question types (see response_schemas/question_types) */
+export const QUESTION_TYPES_PROMPT = 'Now and then, use another question type by setting "type": '
+  + 'true_false (options "True" and "False"), '
+  + 'multi_select (correct_answer lists every correct option letter, e.g. "A, C"), '
+  + 'free_text (no options; correct_answer is the answer and accepted_answers other spellings that count), '
+  + 'numeric (no options; correct_answer is a number, tolerance how far off still counts, optional unit) '
+  + 'or ordering (options to put in order; correct_answer lists the option letters in the right order). '
+  + 'Leave "type" out for multiple choice.'
+
+// =============================================================================
+// Options and Answers
+// =============================================================================
+
+/** Type of a question, possibly still streaming in; unknown types play as multiple choice */
+export function getQuestionType(question: { type?: string | null }): QuestionType {
+  return QUESTION_TYPES.find(type => type === question.type) ?? 'multiple_choice'
+}
+
+/** Whether the type is answered by picking or arranging `options` */
+export function takesOptions(type: QuestionType): boolean {
+  return OPTION_TYPES.includes(type)
+}
+
+/**
+ * Answer to submit when the player hasn't touched the input: ordering
+ * questions can be submitted in the order shown, everything else needs input
+ */
+export function getDefaultAnswer(question: { type?: string | null; options?: string[] }): string | null {
+  return getQuestionType(question) === 'ordering' && question.options?.length ? joinAnswer(question.options) : null
+}
+
+/** Answer for the options picked (multi-select) or arranged (ordering) */
+export function joinAnswer(options: string[]): string {
+  return options.join(ANSWER_SEPARATOR)
+}
+
+export function splitAnswer(answer: string): string[] {
+  return answer.split(ANSWER_SEPARATOR).map(part => part.trim()).filter(Boolean)
+}
+
+/** Multi-select answer with `option` picked or unpicked, in the order the options are listed */
+export function toggleOption(options: string[], answer: string | null, option: string): string {
+  const picked = answer ? splitAnswer(answer) : []
+  const next = picked.includes(option) ? picked.filter(opt => opt !== option) : [...picked, option]
+  return joinAnswer(options.filter(opt => next.includes(opt)))
+}
+
+/**
+ * Answer as sent to the host: picked options go by their canonical id
+ * ("B) Mars"), so the host can match them even when its options had no labels
+ */
+export function toHostAnswer(question: Question, answer: string | null): string | null {
+  if (answer === null) return null
+  const options = question.options ?? []
+
+  switch (getQuestionType(question)) {
+    case 'multi_select':
+    case 'ordering':
+      return joinAnswer(splitAnswer(answer).map(part => toCanonicalAnswer(options, part)))
+    case 'free_text':
+    case 'numeric':
+      return answer.trim()
+    default:
+      return toCanonicalAnswer(options, answer)
+  }
+}
+
+/** Only the Question fields of a bank or batch entry */
+export function toQuestion<T extends Question>(entry: T): Question {
+  const { type, text, options, correct_answer, accepted_answers, tolerance, unit } = entry
+  return {
+    ...(type ? { type } : {}),
+    text,
+    options,
+    correct_answer,
+    ...(accepted_answers ? { accepted_answers } : {}),
+    ...(tolerance !== undefined ? { tolerance } : {}),
+    ...(unit ? { unit } : {}),
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Ids of the options named by a correct answer such as "A, C" or "Jupiter, Saturn" */
+function expectedIds(question: Question): (string | null)[] {
+  const options = question.options ?? []
+  return question.correct_answer.split(/\s*[,;|]\s*/).filter(Boolean).map(part => resolveOptionId(options, part))
+}
+
+function parseNumber(value: string): number | null {
+  const match = value.replace(/[,\s]/g, '').match(/-?\d+(\.\d+)?/)
+  return match ? Number(match[0]) : null
+}
+
+// =============================================================================
+// Grading
+// =============================================================================
+
+// The correct answer may name the option by label, position or text
+function gradeChoice(question: Question, selected: string): boolean {
+  const options = question.options ?? []
+  const expected = resolveOptionId(options, question.correct_answer)
+  if (expected !== null) return resolveOptionId(options, selected) === expected
+  return normalizeAnswerText(question.correct_answer) === normalizeAnswerText(getOptionText(selected))
+}
+
+function gradeSelection(question: Question, selected: string, ordered: boolean): boolean {
+  const expected = expectedIds(question)
+  const chosen = splitAnswer(selected).map(option => resolveOptionId(question.options ?? [], option))
+  if (ordered) return chosen.length === expected.length && chosen.every((label, index) => label === expected[index])
+  return chosen.length === expected.length && new Set(chosen).size === chosen.length && chosen.every(label => expected.includes(label))
+}
+
+// Close matches count; anything else is left to the host, who may accept a synonym
+function gradeFreeText(question: Question, selected: string): boolean | null {
+  const answer = normalizeAnswerText(selected)
+  const accepted = [question.correct_answer, ...(question.accepted_answers ?? [])].map(normalizeAnswerText)
+  return accepted.some(expected => isNearMatch(answer, expected)) || null
+}
+
+function gradeNumeric(question: Question, selected: string): boolean | null {
+  const expected = parseNumber(question.correct_answer)
+  if (expected === null) return null
+  const answer = parseNumber(selected)
+  return answer !== null && Math.abs(answer - expected) <= (question.tolerance ?? 0)
+}
+
+/**
+ * Grade an answer locally against question.correct_answer
+ *
+ * @returns true/false, or null when the question can't be graded locally
+ *   (including free-text answers that don't closely match, which the host grades)
+ */
+export function gradeAnswerLocally(question: Question | null, selected: string | null): boolean | null {
+  if (!question || !question.correct_answer) return null
+  if (!selected) return false
+
+  switch (getQuestionType(question)) {
+    case 'multi_select':
+      return gradeSelection(question, selected, false)
+    case 'ordering':
+      return gradeSelection(question, selected, true)
+    case 'free_text':
+      return gradeFreeText(question, selected)
+    case 'numeric':
+      return gradeNumeric(question, selected)
+    default:
+      return gradeChoice(question, selected)
+  }
+}
+
+/**
+ * The correct answer as shown to the player, e.g. "B) Mars" or "1969 (± 2)"
+ */
+export function describeCorrectAnswer(question: Question): string {
+  const parsed = parseOptions(question.options ?? [])
+  const expectedOptions = () => expectedIds(question).map(id => parsed.find(opt => opt.id === id)?.option ?? id)
+
+  switch (getQuestionType(question)) {
+    case 'multi_select':
+      return expectedOptions().join(', ')
+    case 'ordering':
+      return expectedOptions().join(' → ')
+    case 'free_text':
+      return question.correct_answer
+    case 'numeric':
+      return `${question.correct_answer}${question.unit ? ` ${question.unit}` : ''}${question.tolerance ? ` (± ${question.tolerance})` : ''}`
+    default:
+      return expectedOptions()[0] ?? question.correct_answer
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check a question from the host before it is played. Messages start with
+ * `path`, e.g. "result.questions[0].options must be ...".
+ */
+export function validateQuestion(question: any, path = 'question'): string[] {
+  const errors: string[] = []
+  const type = question?.type ?? 'multiple_choice'
+
+  if (typeof question?.text !== 'string' || question.text.trim() === '') {
+    errors.push(`${path}.text must be a non-empty string`)
+  }
+  if (!QUESTION_TYPES.includes(type)) {
+    return [...errors, `${path}.type must be one of ${QUESTION_TYPES.join(', ')}`]
+  }
+  if (typeof question?.correct_answer !== 'string' || question.correct_answer.trim() === '') {
+    errors.push(`${path}.correct_answer must be a non-empty string`)
+  }
+
+  const options = question?.options
+  const validOptions = Array.isArray(options) && options.every((opt: unknown) => typeof opt === 'string')
+  if (OPTION_TYPES.includes(type) && (!validOptions || options.length < 2)) {
+    errors.push(`${path}.options must be an array of at least two strings`)
+  } else if (options !== undefined && !validOptions) {
+    errors.push(`${path}.options must be an array of strings`)
+  }
+  if (errors.length > 0) return errors
+
+  const ids = parseOptions(options ?? []).map(opt => opt.id)
+  switch (type as QuestionType) {
+    case 'multiple_choice':
+    case 'true_false':
+      if (type === 'true_false' && options.length !== 2) errors.push(`${path}.options must be exactly "True" and "False"`)
+      if (resolveOptionId(options, question.correct_answer) === null) errors.push(`${path}.correct_answer does not match any option`)
+      break
+    case 'multi_select': {
+      const expected = expectedIds(question)
+      if (expected.length === 0 || expected.some(id => id === null)) {
+        errors.push(`${path}.correct_answer must list the letters of the correct options`)
+      }
+      break
+    }
+    case 'ordering': {
+      const expected = expectedIds(question)
+      if (expected.length !== ids.length || ids.some(id => !expected.includes(id))) {
+        errors.push(`${path}.correct_answer must list every option letter once, in order`)
+      }
+      break
+    }
+    case 'numeric':
+      if (parseNumber(question.correct_answer) === null) errors.push(`${path}.correct_answer must be a number`)
+      if (question.tolerance !== undefined && !(typeof question.tolerance === 'number' && question.tolerance >= 0)) {
+        errors.push(`${path}.tolerance must be a non-negative number`)
+      }
+      break
+    case 'free_text':
+      if (question.accepted_answers !== undefined
+        && !(Array.isArray(question.accepted_answers) && question.accepted_answers.every((answer: unknown) => typeof answer === 'string'))) {
+        errors.push(`${path}.accepted_answers must be an array of strings`)
+      }
+      break
+  }
+
+  return errors
+}
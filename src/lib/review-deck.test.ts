@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  addMissedQuestion,
+  getDueCards,
+  getNextDueDate,
+  loadReviewDeck,
+  replaceCard,
+  reviewCard,
+  saveReviewDeck,
+  type ReviewDeck,
+} from '@/lib/review-deck'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const mars = { text: 'Which planet is known as the Red Planet?', options: ['A) Jupiter', 'B) Mars'], correct_answer: 'B' }
+const nile = { text: 'What is the longest river in Africa?', options: ['A) Nile', 'B) Congo'], correct_answer: 'A' }
+
+const NOW = Date.parse('2026-01-01T12:00:00Z')
+const DAY = 24 * 60 * 60 * 1000
+
+/** Review the card with the given id and return the updated deck */
+const review = (deck: ReviewDeck, id: string, correct: boolean, now: number) =>
+  replaceCard(deck, reviewCard(deck.find(card => card.id === id)!, correct, now))
+
+// A plain Map-backed localStorage, so the tests run without a DOM
+const storage = new Map<string, string>()
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+})
+
+beforeEach(() => {
+  storage.clear()
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('review deck', () => {
+  it('adds missed questions due straight away', () => {
+    const deck = addMissedQuestion([], mars, 'Iron oxide makes it red.', 'Science', NOW)
+    expect(deck).toHaveLength(1)
+    expect(deck[0]).toMatchObject({ id: 'which planet is known as the red planet?', topic: 'Science', interval_days: 0, lapses: 1 })
+    expect(getDueCards(deck, NOW)).toEqual(deck)
+
+    saveReviewDeck(deck)
+    expect(loadReviewDeck()).toEqual(deck)
+  })
+
+  it('spaces out right answers and starts over on a miss', () => {
+    let deck = addMissedQuestion([], mars, '', 'Science', NOW)
+    const { id } = deck[0]
+
+    const intervals: number[] = []
+    let now = NOW
+    for (let i = 0; i < 4; i++) {
+      deck = review(deck, id, true, now)
+      intervals.push(deck[0].interval_days)
+      now = Date.parse(deck[0].due_at)
+    }
+    expect(intervals).toEqual([1, 6, 15, 38])
+    expect(getDueCards(deck, now - 1)).toEqual([])
+
+    deck = review(deck, id, false, now)
+    expect(deck[0]).toMatchObject({ repetitions: 0, interval_days: 1, lapses: 2 })
+    expect(deck[0].ease).toBeLessThan(2.5)
+  })
+
+  it('never lets the ease drop below the minimum', () => {
+    let deck = addMissedQuestion([], mars, '', 'Science', NOW)
+    for (let i = 0; i < 20; i++) deck = review(deck, deck[0].id, false, NOW)
+    expect(deck[0].ease).toBe(1.3)
+  })
+
+  it('keeps one card per question', () => {
+    let deck = addMissedQuestion([], mars, '', 'Science', NOW)
+    // Missed again while still due: unchanged
+    expect(addMissedQuestion(deck, { ...mars, text: '  Which planet is known as  the Red Planet? ' }, '', 'Science', NOW)).toBe(deck)
+
+    // Missed again once scheduled: a lapse, due now
+    deck = review(deck, deck[0].id, true, NOW)
+    deck = addMissedQuestion(deck, mars, 'Rust.', 'Science', NOW + DAY / 2)
+    expect(deck).toHaveLength(1)
+    expect(deck[0]).toMatchObject({ repetitions: 0, lapses: 2, explanation: 'Rust.', due_at: new Date(NOW + DAY / 2).toISOString() })
+  })
+
+  it('orders due cards by how overdue they are', () => {
+    let deck = addMissedQuestion([], mars, '', 'Science', NOW)
+    deck = addMissedQuestion(deck, nile, '', 'Geography', NOW - DAY)
+    expect(getDueCards(deck, NOW).map(card => card.question)).toEqual([nile, mars])
+    expect(getNextDueDate(deck)?.getTime()).toBe(NOW - DAY)
+    expect(getNextDueDate([])).toBeNull()
+  })
+})
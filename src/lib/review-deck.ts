@@ -0,0 +1,187 @@
+/**
+ * Review Deck
+ *
+ * Keeps the questions the player missed in localStorage and schedules them
+ * for review with an SM-2 style spaced-repetition scheduler. A missed
+ * question is due straight away; every right answer in review pushes it
+ * further out (1 day, 6 days, then the last interval times the card's ease),
+ * and a wrong answer starts it over.
+ *
+ * @example
+ * ```tsx
+ * let deck = addMissedQuestion(loadReviewDeck(), question, explanation, 'Science')
+ * saveReviewDeck(deck)
+ * const [card] = getDueCards(deck)
+ * deck = replaceCard(deck, reviewCard(card, gradeAnswerLocally(card.question, 'B) Mars') === true))
+ * ```
+ */
+
+import type { Question } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'trivia-master:review-deck'
+const MAX_CARDS = 500
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+/** SM-2 quality (0-5) for a right and a wrong review answer */
+const QUALITY_CORRECT = 4
+const QUALITY_WRONG = 1
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ReviewCard {
+  /** Normalized question text, so a question missed twice stays one card */
+  id: string
+  question: Question
+  explanation: string
+  /** Topic the question came from, for display */
+  topic: string
+  added_at: string
+  due_at: string
+  last_reviewed_at: string | null
+  /** SM-2 ease factor */
+  ease: number
+  interval_days: number
+  /** Right answers in a row since the card was last missed */
+  repetitions: number
+  /** Times the card was missed, including the original game */
+  lapses: number
+}
+
+export type ReviewDeck = ReviewCard[]
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Load the review deck
+ */
+export function loadReviewDeck(): ReviewDeck {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.warn('[ReviewDeck] Failed to load review deck:', error)
+    return []
+  }
+}
+
+/**
+ * Save the review deck, dropping the oldest cards beyond the limit
+ */
+export function saveReviewDeck(deck: ReviewDeck): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(deck.slice(-MAX_CARDS)))
+  } catch (error) {
+    console.warn('[ReviewDeck] Failed to save review deck:', error)
+  }
+}
+
+export function clearReviewDeck(): void {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// =============================================================================
+// Deck
+// =============================================================================
+
+function cardId(question: Question): string {
+  return question.text.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Add a missed question to the deck, due now. Missing a question that is
+ * already scheduled counts as a lapse and starts its schedule over.
+ */
+export function addMissedQuestion(
+  deck: ReviewDeck,
+  question: Question,
+  explanation: string,
+  topic: string,
+  now = Date.now()
+): ReviewDeck {
+  const id = cardId(question)
+  const existing = deck.find(card => card.id === id)
+  if (existing) {
+    // Still due and not yet relearned (e.g. the same feedback seen again after a reload)
+    if (existing.repetitions === 0 && Date.parse(existing.due_at) <= now) return deck
+    return replaceCard(deck, { ...reviewCard(existing, false, now), question, explanation, due_at: new Date(now).toISOString() })
+  }
+
+  const card: ReviewCard = {
+    id,
+    question,
+    explanation,
+    topic,
+    added_at: new Date(now).toISOString(),
+    due_at: new Date(now).toISOString(),
+    last_reviewed_at: null,
+    ease: INITIAL_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 1,
+  }
+  return [...deck, card]
+}
+
+/**
+ * Swap in an updated card
+ */
+export function replaceCard(deck: ReviewDeck, card: ReviewCard): ReviewDeck {
+  return deck.map(entry => (entry.id === card.id ? card : entry))
+}
+
+/**
+ * Cards due for review, most overdue first
+ */
+export function getDueCards(deck: ReviewDeck, now = Date.now()): ReviewCard[] {
+  return deck
+    .filter(card => Date.parse(card.due_at) <= now)
+    .sort((a, b) => Date.parse(a.due_at) - Date.parse(b.due_at))
+}
+
+/**
+ * When the next card falls due, or null for an empty deck
+ */
+export function getNextDueDate(deck: ReviewDeck): Date | null {
+  if (deck.length === 0) return null
+  return new Date(Math.min(...deck.map(card => Date.parse(card.due_at))))
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Reschedule a card after a review answer (SM-2)
+ */
+export function reviewCard(card: ReviewCard, correct: boolean, now = Date.now()): ReviewCard {
+  const quality = correct ? QUALITY_CORRECT : QUALITY_WRONG
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+
+  let repetitions = 0
+  let interval_days = 1
+  if (correct) {
+    repetitions = card.repetitions + 1
+    interval_days = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * ease)
+  }
+
+  return {
+    ...card,
+    ease,
+    repetitions,
+    interval_days,
+    lapses: correct ? card.lapses : card.lapses + 1,
+    last_reviewed_at: new Date(now).toISOString(),
+    due_at: new Date(now + interval_days * DAY_MS).toISOString(),
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Multiplayer Room Protocol
+ *
+ * Messages exchanged between the trivia client and the room server
+ * (server/room-server.ts) over a WebSocket. Players on different devices
+ * create or join a room by code; the server deals the same question to
+ * everyone, collects locked-in answers, grades them and broadcasts a room
+ * snapshot after every change. Correct answers never leave the server until
+ * the question is revealed. Each player gets a private rejoin token when they
+ * join; it is the only way back into their slot after a disconnect.
+ */
+
+import type { PlayerStanding } from '@/lib/hot-seat'
+import type { BuiltInCategory, Difficulty } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const ROOM_SERVER_PORT = 8787
+export const ROOM_CODE_LENGTH = 4
+/** Room codes skip look-alike characters (0/O, 1/I) */
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+export const MAX_ROOM_PLAYERS = 8
+export const MAX_PLAYER_NAME_LENGTH = 24
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RoomPhase = 'lobby' | 'question' | 'reveal' | 'game_over'
+
+export interface RoomSettings {
+  /** Built-in categories to mix questions from (rooms play from the bundled bank) */
+  categories: BuiltInCategory[]
+  difficulty: Difficulty
+  round_length: number
+  timed: boolean
+}
+
+export interface RoomPlayer {
+  id: string
+  name: string
+  connected: boolean
+  /** True once the player has locked in an answer to the current question */
+  locked_in: boolean
+}
+
+/**
+ * The current question as seen by players (no correct answer)
+ */
+export interface RoomQuestion {
+  /** 0-based position in the round */
+  index: number
+  total: number
+  text: string
+  options: string[]
+  /** Time allowed in ms, or null when untimed */
+  time_limit_ms: number | null
+  /** Time left when the snapshot was sent, or null when untimed */
+  remaining_ms: number | null
+}
+
+export interface RoomAnswerResult {
+  selected_answer: string | null
+  is_correct: boolean
+  points: number
+  bonus: number
+}
+
+/**
+ * Revealed once every connected player has answered or time runs out
+ */
+export interface RoomReveal {
+  correct_answer: string
+  explanation: string
+  /** Keyed by player id */
+  answers: Record<string, RoomAnswerResult>
+}
+
+export interface RoomSnapshot {
+  code: string
+  phase: RoomPhase
+  host_id: string
+  settings: RoomSettings
+  players: RoomPlayer[]
+  question: RoomQuestion | null
+  reveal: RoomReveal | null
+  standings: PlayerStanding[]
+}
+
+export type ClientMessage =
+  | { type: 'create_room'; name: string; settings: RoomSettings }
+  /** rejoin_token reclaims a disconnected player's slot, score included */
+  | { type: 'join_room'; code: string; name: string; rejoin_token?: string }
+  | { type: 'start_game' }
+  | { type: 'submit_answer'; answer: string }
+  | { type: 'next_question' }
+  | { type: 'leave_room' }
+
+export type ServerMessage =
+  /** rejoin_token is sent to this player only and never appears in snapshots */
+  | { type: 'joined'; code: string; player_id: string; rejoin_token: string }
+  | { type: 'room_state'; room: RoomSnapshot }
+  | { type: 'left' }
+  | { type: 'error'; message: string }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const CLIENT_MESSAGE_TYPES: ClientMessage['type'][] = [
+  'create_room',
+  'join_room',
+  'start_game',
+  'submit_answer',
+  'next_question',
+  'leave_room',
+]
+
+const SERVER_MESSAGE_TYPES: ServerMessage['type'][] = ['joined', 'room_state', 'left', 'error']
+
+function parseMessage<T extends { type: string }>(data: unknown, types: string[]): T | null {
+  try {
+    const parsed = typeof data === 'string' ? JSON.parse(data) : data
+    return parsed && typeof parsed === 'object' && types.includes(parsed.type) ? (parsed as T) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a raw WebSocket payload sent by a client. Returns null for anything
+ * that isn't a known message; field contents are validated by the server.
+ */
+export function parseClientMessage(data: unknown): ClientMessage | null {
+  return parseMessage<ClientMessage>(data, CLIENT_MESSAGE_TYPES)
+}
+
+/**
+ * Parse a raw WebSocket payload sent by the server
+ */
+export function parseServerMessage(data: unknown): ServerMessage | null {
+  return parseMessage<ServerMessage>(data, SERVER_MESSAGE_TYPES)
+}
+
+/**
+ * Uppercase a typed room code and drop anything that can't appear in one
+ */
+export function normalizeRoomCode(code: string): string {
+  return code
+    .toUpperCase()
+    .split('')
+    .filter(char => ROOM_CODE_ALPHABET.includes(char))
+    .join('')
+    .slice(0, ROOM_CODE_LENGTH)
+}
+
+/**
+ * Room server URL from VITE_ROOM_SERVER_URL, defaulting to the local
+ * reference server on the host serving the app
+ */
+export function getRoomServerUrl(): string {
+  const configured = import.meta.env.VITE_ROOM_SERVER_URL
+  if (configured) return configured
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${window.location.hostname}:${ROOM_SERVER_PORT}`
+}
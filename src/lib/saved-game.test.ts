@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildResumeConfig, clearSavedGame, isSavedGameStale, loadSavedGame, saveGame } from '@/lib/saved-game'
+import { INITIAL_TRIVIA_GAME_STATE, triviaGameReducer, type TriviaGameEvent, type TriviaGameState } from '@/lib/trivia-game'
+import type { TriviaResponse } from '@/types'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const question = { text: 'Which planet is known as the Red Planet?', options: ['A) Jupiter', 'B) Mars'], correct_answer: 'B' }
+const score = { correct: 0, total: 0, percentage: 0 }
+
+const turn = (game_state: string): TriviaResponse => ({
+  status: 'success',
+  result: {
+    game_state,
+    question,
+    feedback: game_state === 'feedback' ? { is_correct: true, message: 'Correct!', explanation: '' } : null,
+    score,
+    commentary: '',
+  },
+} as TriviaResponse)
+
+const play = (events: TriviaGameEvent[]): TriviaGameState => events.reduce(triviaGameReducer, INITIAL_TRIVIA_GAME_STATE)
+
+const onFeedback = () => play([
+  {
+    type: 'start_game',
+    session_id: 'trivia-1',
+    settings: { topics: { categories: [], topic: 'Space' }, difficulty: 'Easy', round_length: 5, source: 'agent', timed: false, adaptive: false },
+    players: [],
+  },
+  { type: 'turn_received', response: turn('question') },
+  { type: 'submit_answer', answer: 'B) Mars' },
+  { type: 'turn_received', response: turn('feedback') },
+])
+
+const NOW = Date.parse('2026-01-01T12:00:00Z')
+const MINUTE = 60 * 1000
+
+// A plain Map-backed localStorage, so the tests run without a DOM
+const storage = new Map<string, string>()
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+})
+
+beforeEach(() => {
+  storage.clear()
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('saved game', () => {
+  it('round-trips a game in progress', () => {
+    saveGame(onFeedback(), null, NOW)
+    const saved = loadSavedGame(NOW + MINUTE)
+    expect(saved?.state).toEqual(onFeedback())
+    expect(isSavedGameStale(saved!, NOW + MINUTE)).toBe(false)
+  })
+
+  it('keeps the question source session state', () => {
+    const source_state = { text: question.text, explanation: 'Mars looks red.', source_document: null }
+    saveGame(onFeedback(), source_state, NOW)
+    const saved = loadSavedGame(NOW)!
+    expect(saved.source_state).toEqual(source_state)
+    expect(buildResumeConfig(saved).source_state).toEqual(source_state)
+  })
+
+  it('is stale when saved mid-request or long ago', () => {
+    const state = onFeedback()
+    saveGame(triviaGameReducer(state, { type: 'next_question' }), null, NOW)
+    expect(isSavedGameStale(loadSavedGame(NOW)!, NOW)).toBe(true)
+
+    saveGame(state, null, NOW)
+    expect(isSavedGameStale(loadSavedGame(NOW)!, NOW + 30 * MINUTE)).toBe(true)
+  })
+
+  it('drops games that are too old or not resumable', () => {
+    saveGame(onFeedback(), null, NOW)
+    expect(loadSavedGame(NOW + 2 * 24 * 60 * MINUTE)).toBeNull()
+    expect(storage.size).toBe(0)
+
+    saveGame(INITIAL_TRIVIA_GAME_STATE, null, NOW)
+    expect(loadSavedGame(NOW)).toBeNull()
+
+    storage.set('trivia-master:current-game', 'not json')
+    vi.spyOn(console, 'warn').mockImplementationOnce(() => {})
+    expect(loadSavedGame(NOW)).toBeNull()
+
+    clearSavedGame()
+    expect(loadSavedGame(NOW)).toBeNull()
+  })
+
+  it('builds the resume config from the saved state', () => {
+    expect(buildResumeConfig({ state: onFeedback() })).toEqual({
+      topics: { categories: [], topic: 'Space' },
+      difficulty: 'Easy',
+      session_id: 'trivia-1',
+      round_length: 5,
+      question,
+      asked: [question],
+      score: { correct: 1, total: 1, percentage: 100, points: 100 },
+      source_state: null,
+    })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Saved Game
+ *
+ * Keeps the game in progress in localStorage so a page reload doesn't lose
+ * the session, the current turn or the score. A saved game is stale when it
+ * was saved while a request was in flight (or had just failed), or long
+ * enough ago that the host may have moved on; stale games are re-synced with
+ * the question source before play continues.
+ */
+
+import { computeScore } from '@/lib/trivia-scoring'
+import { isResumable, type TriviaGameState } from '@/lib/trivia-game'
+import type { ResumeConfig } from '@/lib/question-source'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_KEY = 'trivia-master:current-game'
+const SAVED_GAME_VERSION = 2
+/** Saved games older than this are re-synced before play continues */
+const STALE_AFTER_MS = 10 * 60 * 1000
+/** Saved games older than this are dropped */
+const MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SavedGame {
+  version: number
+  saved_at: string
+  state: TriviaGameState
+  /** Session details kept by the question source (QuestionSource.saveSession) */
+  source_state?: unknown
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Load the saved game, or null when there is none worth resuming
+ */
+export function loadSavedGame(now = Date.now()): SavedGame | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const saved = JSON.parse(raw) as SavedGame
+    const age = now - Date.parse(saved?.saved_at)
+    if (saved?.version !== SAVED_GAME_VERSION || !(age <= MAX_AGE_MS) || !isResumable(saved.state)) {
+      clearSavedGame()
+      return null
+    }
+    return saved
+  } catch (error) {
+    console.warn('[SavedGame] Failed to load saved game:', error)
+    return null
+  }
+}
+
+/**
+ * Save the game in progress, with whatever the question source needs to
+ * rebuild its session
+ */
+export function saveGame(state: TriviaGameState, source_state: unknown = null, now = Date.now()): void {
+  const saved: SavedGame = {
+    version: SAVED_GAME_VERSION,
+    saved_at: new Date(now).toISOString(),
+    state: { ...state, streamingQuestion: null },
+    source_state,
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved))
+  } catch (error) {
+    console.warn('[SavedGame] Failed to save game:', error)
+  }
+}
+
+export function clearSavedGame(): void {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// =============================================================================
+// Resuming
+// =============================================================================
+
+/**
+ * True when the saved state may be behind the host and needs a re-sync
+ */
+export function isSavedGameStale(saved: SavedGame, now = Date.now()): boolean {
+  const { phase } = saved.state
+  return phase === 'loading' || phase === 'error' || now - Date.parse(saved.saved_at) > STALE_AFTER_MS
+}
+
+/**
+ * What the question source needs to pick the game up again
+ */
+export function buildResumeConfig({ state, source_state = null }: Pick<SavedGame, 'state' | 'source_state'>): ResumeConfig {
+  const settings = state.settings!
+  return {
+    topics: settings.topics,
+    difficulty: state.difficulty ?? settings.difficulty,
+    session_id: state.session_id,
+    round_length: state.total_questions,
+    question: state.response?.result?.question ?? null,
+    asked: state.ledger.map(entry => entry.question),
+    score: computeScore(state.ledger),
+    source_state,
+  }
+}
@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  INITIAL_TRIVIA_GAME_STATE,
+  canTransition,
+  isRoundComplete,
+  triviaGameReducer,
+  type TriviaGameEvent,
+  type TriviaGameSettings,
+  type TriviaGameState,
+} from '@/lib/trivia-game'
+import type { Question, TriviaResponse, TriviaResult } from '@/types'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const mars: Question = {
+  text: 'Which planet is known as the Red Planet?',
+  options: ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn'],
+  correct_answer: 'B',
+}
+
+const score = { correct: 0, total: 0, percentage: 0 }
+
+function turn(result: Partial<TriviaResult>): TriviaResponse {
+  return {
+    status: 'success',
+    result: { game_state: 'question', question: null, feedback: null, score, commentary: '', ...result },
+  } as TriviaResponse
+}
+
+const questionTurn = turn({ game_state: 'question', question: mars })
+const feedbackTurn = turn({
+  game_state: 'feedback',
+  question: mars,
+  feedback: { is_correct: true, message: 'Correct!', explanation: 'Mars is red.' },
+})
+
+const play = (events: TriviaGameEvent[], state = INITIAL_TRIVIA_GAME_STATE): TriviaGameState =>
+  events.reduce(triviaGameReducer, state)
+
+const settings = (round_length: number | null = 5): TriviaGameSettings => ({
+  topics: { categories: [], topic: 'Space' },
+  difficulty: 'Medium',
+  round_length,
+  source: 'offline',
+  timed: false,
+  adaptive: false,
+})
+
+const start = (round_length: number | null = 5): TriviaGameEvent =>
+  ({ type: 'start_game', session_id: 's1', settings: settings(round_length), players: [] })
+
+const onQuestion = () => play([start(), { type: 'turn_received', response: questionTurn }])
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('triviaGameReducer', () => {
+  it('plays a question through to feedback and the next question', () => {
+    let state = play([start()])
+    expect(state).toMatchObject({ phase: 'loading', screen: 'setup', request: 'start', session_id: 's1' })
+
+    state = play([{ type: 'turn_received', response: questionTurn }], state)
+    expect(state).toMatchObject({ phase: 'question', screen: 'question', request: null, response: questionTurn })
+
+    state = play([
+      { type: 'select_answer', answer: 'B) Mars' },
+      { type: 'submit_answer', answer: 'B) Mars', timing: { elapsed_ms: 3000, limit_ms: 20000 } },
+    ], state)
+    expect(state).toMatchObject({ phase: 'loading', screen: 'question', request: 'answer', selectedAnswer: 'B) Mars' })
+
+    state = play([{ type: 'turn_received', response: feedbackTurn }], state)
+    expect(state).toMatchObject({ phase: 'feedback', screen: 'feedback', pendingAnswer: null })
+    expect(state.ledger).toHaveLength(1)
+    expect(state.ledger[0]).toMatchObject({ question: mars, selected_answer: 'B) Mars', is_correct: true, elapsed_ms: 3000 })
+
+    state = play([{ type: 'next_question' }], state)
+    expect(state).toMatchObject({ phase: 'loading', screen: 'feedback', request: 'next', selectedAnswer: null })
+
+    state = play([{ type: 'turn_received', response: questionTurn }], state)
+    expect(state.phase).toBe('question')
+  })
+
+  it('grades the answer against the question the player saw', () => {
+    const echoed = turn({ ...feedbackTurn.result, question: { ...mars, correct_answer: 'A' } })
+    const state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_received', response: echoed },
+    ], onQuestion())
+    expect(state.ledger[0]).toMatchObject({ question: mars, local_is_correct: true })
+  })
+
+  it('records the answering hot-seat player', () => {
+    const players = [{ id: 'p1', name: 'Ada' }, { id: 'p2', name: 'Grace' }]
+    const state = play([
+      { type: 'start_game', session_id: 's1', settings: settings(2), players },
+      { type: 'turn_received', response: questionTurn },
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_received', response: feedbackTurn },
+    ])
+    expect(state.ledger[0].player_id).toBe('p1')
+  })
+
+  it('rejects feedback before any answer was given', () => {
+    const state = play([start(), { type: 'turn_received', response: feedbackTurn }])
+    expect(state).toMatchObject({
+      phase: 'error',
+      screen: 'setup',
+      response: null,
+      error: 'The host sent feedback before any answer was given',
+    })
+  })
+
+  it('rejects unknown game states and keeps the current screen', () => {
+    const state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_received', response: turn({ game_state: 'intermission' }) },
+    ], onQuestion())
+    expect(state).toMatchObject({
+      phase: 'error',
+      screen: 'question',
+      response: questionTurn,
+      pendingAnswer: null,
+      error: 'The host sent an unexpected game state: "intermission"',
+    })
+    expect(state.ledger).toEqual([])
+  })
+
+  it('accepts game_over in place of the next question', () => {
+    const over = turn({ game_state: 'game_over', commentary: 'Done!' })
+    const state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_received', response: feedbackTurn },
+      { type: 'next_question' },
+      { type: 'turn_received', response: over },
+    ], onQuestion())
+    expect(state).toMatchObject({ phase: 'game_over', screen: 'game_over', response: over })
+  })
+
+  it('retries from the error screen after a failed turn', () => {
+    let state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_failed', error: 'Agent overloaded' },
+    ], onQuestion())
+    expect(state).toMatchObject({ phase: 'error', screen: 'question', error: 'Agent overloaded' })
+
+    state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_received', response: feedbackTurn },
+    ], state)
+    expect(state).toMatchObject({ phase: 'feedback', error: null })
+    expect(state.ledger).toHaveLength(1)
+  })
+
+  it('shows streamed questions but not streamed feedback', () => {
+    const partial = { game_state: 'question', type: null, text: 'Which pla', options: [], options_complete: false }
+    let state = play([start(), { type: 'stream_partial', partial }])
+    expect(state.streamingQuestion).toEqual(partial)
+
+    state = play([{ type: 'turn_failed', error: 'Stream stalled' }], state)
+    expect(state.streamingQuestion).toBeNull()
+
+    state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'stream_partial', partial: { ...partial, game_state: 'feedback' } },
+    ], onQuestion())
+    expect(state.streamingQuestion).toBeNull()
+  })
+
+  it('ends a finished round on the client', () => {
+    let state = play([
+      start(1),
+      { type: 'turn_received', response: questionTurn },
+      { type: 'submit_answer', answer: 'A) Jupiter' },
+      { type: 'turn_received', response: feedbackTurn },
+    ])
+    expect(isRoundComplete(state)).toBe(true)
+    expect(canTransition(state, { type: 'next_question' })).toBe(false)
+
+    state = play([{ type: 'end_game' }], state)
+    expect(state).toMatchObject({ phase: 'game_over', screen: 'game_over' })
+    expect(state.response?.result).toMatchObject({
+      game_state: 'game_over',
+      question: null,
+      commentary: "That's all 1 questions - thanks for playing!",
+    })
+  })
+
+  it('never completes an endless round', () => {
+    const state = play([
+      { type: 'submit_answer', answer: 'B) Mars' },
+      { type: 'turn_received', response: feedbackTurn },
+    ], play([start(null), { type: 'turn_received', response: questionTurn }]))
+    expect(isRoundComplete(state)).toBe(false)
+    expect(play([{ type: 'end_game' }], state).response?.result.commentary).toBe('Thanks for playing!')
+  })
+
+  it('ignores illegal events', () => {
+    const illegal: [TriviaGameState, TriviaGameEvent][] = [
+      [INITIAL_TRIVIA_GAME_STATE, { type: 'submit_answer', answer: 'B) Mars' }],
+      [INITIAL_TRIVIA_GAME_STATE, { type: 'turn_received', response: questionTurn }],
+      [INITIAL_TRIVIA_GAME_STATE, { type: 'end_game' }],
+      [play([start()]), { type: 'start_game', session_id: 's2', settings: settings(), players: [] }],
+      [play([start()]), { type: 'select_answer', answer: 'B) Mars' }],
+      [onQuestion(), { type: 'next_question' }],
+      [onQuestion(), { type: 'turn_failed', error: 'late' }],
+    ]
+    for (const [state, event] of illegal) {
+      expect(canTransition(state, event)).toBe(false)
+      expect(triviaGameReducer(state, event)).toBe(state)
+    }
+    expect(console.warn).toHaveBeenCalledWith('[TriviaGame] Ignored submit_answer in phase setup')
+  })
+
+  it('restores a saved game on its screen', () => {
+    const saved = play([{ type: 'submit_answer', answer: 'B) Mars' }], onQuestion())
+    const state = play([{ type: 'restore_game', state: saved }])
+    expect(state).toMatchObject({ phase: 'question', screen: 'question', request: null, session_id: 's1', response: questionTurn })
+    expect(canTransition(state, { type: 'restore_game', state: saved })).toBe(false)
+    expect(canTransition(INITIAL_TRIVIA_GAME_STATE, { type: 'restore_game', state: play([start()]) })).toBe(false)
+  })
+
+  it('records an in-flight answer once a resync confirms it', () => {
+    const saved = play([{ type: 'submit_answer', answer: 'B) Mars' }], onQuestion())
+    const restored = play([{ type: 'restore_game', state: saved }, { type: 'resync' }])
+    expect(restored).toMatchObject({ phase: 'loading', request: 'resume' })
+
+    const graded = play([{ type: 'turn_received', response: feedbackTurn }], restored)
+    expect(graded.phase).toBe('feedback')
+    expect(graded.ledger).toHaveLength(1)
+
+    const lost = play([{ type: 'turn_received', response: questionTurn }], restored)
+    expect(lost).toMatchObject({ phase: 'question', pendingAnswer: null })
+    expect(lost.ledger).toEqual([])
+  })
+
+  it('moves an adaptive game between levels', () => {
+    let state = play([{ type: 'start_game', session_id: 's1', settings: { ...settings(), adaptive: true }, players: [] }])
+    expect(state.difficulty).toBe('Medium')
+    for (let i = 0; i < 3; i++) {
+      state = play([
+        { type: 'turn_received', response: questionTurn },
+        { type: 'submit_answer', answer: 'B) Mars' },
+        { type: 'turn_received', response: feedbackTurn },
+        { type: 'next_question' },
+      ], state)
+    }
+    expect(state.difficulty).toBe('Hard')
+    expect(state.ledger.map(entry => entry.difficulty)).toEqual(['Medium', 'Medium', 'Medium'])
+
+    // Fixed games keep their level
+    const fixed = play([
+      { type: 'submit_answer', answer: 'A) Jupiter' },
+      { type: 'turn_received', response: feedbackTurn },
+    ], onQuestion())
+    expect(fixed.difficulty).toBe('Medium')
+  })
+
+  it('resets from any phase', () => {
+    expect(play([{ type: 'reset' }], play([start()]))).toBe(INITIAL_TRIVIA_GAME_STATE)
+  })
+})
@@ -0,0 +1,327 @@
+/**
+ * Trivia Game State Machine
+ *
+ * Pure reducer for a single-device trivia game (solo or hot-seat). Every
+ * change goes through an explicit event, and events that make no sense in the
+ * current phase are ignored, so a late or confused host reply can't push the
+ * game into an impossible screen.
+ *
+ *   setup --start_game--> loading --turn_received--> question
+ *   question --submit_answer--> loading --turn_received--> feedback
+ *   feedback --next_question--> loading --turn_received--> question | game_over
+ *   feedback --end_game--> game_over
+ *   loading --turn_failed--> error (retry from the same screen)
+ *   setup --restore_game--> question | feedback --resync--> loading (saved game, see saved-game.ts)
+ *
+ * `loading` and `error` keep the screen they were entered from in `screen`,
+ * so the UI can show a spinner or error banner in place. The async side
+ * (requests, cancellation) lives in the useTriviaGame hook.
+ *
+ * @example
+ * ```tsx
+ * let state = triviaGameReducer(INITIAL_TRIVIA_GAME_STATE, { type: 'start_game', session_id: 's1', settings, players: [] })
+ * state = triviaGameReducer(state, { type: 'turn_received', response })
+ * // state.phase === 'question'
+ * ```
+ */
+
+import type { PartialQuestion } from '@/lib/partial-question'
+import type { QuestionSourceKind } from '@/lib/question-source'
+import type { TopicSelection } from '@/lib/categories'
+import { adjustDifficulty } from '@/lib/adaptive-difficulty'
+import { getCurrentPlayer, type Player } from '@/lib/hot-seat'
+import { recordAnswer, type AnswerTiming, type ScoreLedger } from '@/lib/trivia-scoring'
+import type { Difficulty, GameState, Question, TriviaResponse } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TriviaPhase = GameState | 'loading' | 'error'
+
+/** The request a loading game is waiting on */
+export type TriviaRequestKind = 'start' | 'answer' | 'next' | 'resume'
+
+/** How a game was set up */
+export interface TriviaGameSettings {
+  topics: TopicSelection
+  difficulty: Difficulty
+  /** Questions per player, or null for an endless round */
+  round_length: number | null
+  source: QuestionSourceKind
+  timed: boolean
+  /** Step the difficulty up or down as the player goes (single player only) */
+  adaptive: boolean
+}
+
+interface PendingAnswer {
+  question: Question
+  answer: string | null
+  timing: AnswerTiming | null
+  player_id: string | null
+  difficulty: Difficulty | null
+}
+
+export interface TriviaGameState {
+  phase: TriviaPhase
+  /** Screen to show: the phase itself, or the one loading/error was entered from */
+  screen: GameState
+  /** Request in flight while loading */
+  request: TriviaRequestKind | null
+  session_id: string
+  settings: TriviaGameSettings | null
+  /** Level of the current question; moves during adaptive games */
+  difficulty: Difficulty | null
+  /** Latest host turn */
+  response: TriviaResponse | null
+  /** Question still streaming in from the host */
+  streamingQuestion: PartialQuestion | null
+  selectedAnswer: string | null
+  /** Answer waiting for the host's feedback */
+  pendingAnswer: PendingAnswer | null
+  ledger: ScoreLedger
+  /** Hot-seat players (empty for single player) */
+  players: Player[]
+  /** Questions in the round across all players, or null for an endless round */
+  total_questions: number | null
+  error: string | null
+}
+
+export type TriviaGameEvent =
+  | { type: 'start_game'; session_id: string; settings: TriviaGameSettings; players: Player[] }
+  | { type: 'select_answer'; answer: string }
+  | { type: 'submit_answer'; answer: string | null; timing?: AnswerTiming | null }
+  | { type: 'next_question' }
+  | { type: 'stream_partial'; partial: PartialQuestion }
+  | { type: 'turn_received'; response: TriviaResponse }
+  | { type: 'turn_failed'; error: string }
+  | { type: 'end_game' }
+  | { type: 'restore_game'; state: TriviaGameState }
+  | { type: 'resync' }
+  | { type: 'reset' }
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const INITIAL_TRIVIA_GAME_STATE: TriviaGameState = {
+  phase: 'setup',
+  screen: 'setup',
+  request: null,
+  session_id: '',
+  settings: null,
+  difficulty: null,
+  response: null,
+  streamingQuestion: null,
+  selectedAnswer: null,
+  pendingAnswer: null,
+  ledger: [],
+  players: [],
+  total_questions: null,
+  error: null,
+}
+
+/** Game states the host may answer each request with */
+const EXPECTED_GAME_STATES: Record<TriviaRequestKind, GameState[]> = {
+  start: ['question', 'game_over'],
+  answer: ['feedback', 'game_over'],
+  next: ['question', 'game_over'],
+  resume: ['question', 'feedback', 'game_over'],
+}
+
+/** Screens a saved game can be picked up from */
+const RESUMABLE_SCREENS: GameState[] = ['question', 'feedback']
+
+// =============================================================================
+// Selectors
+// =============================================================================
+
+/**
+ * True once every question in a fixed-length round has been answered
+ */
+export function isRoundComplete(state: TriviaGameState): boolean {
+  return state.total_questions !== null && state.ledger.length >= state.total_questions
+}
+
+/**
+ * True when the game is worth saving to pick up after a reload
+ */
+export function isResumable(state: TriviaGameState): boolean {
+  return Boolean(state.session_id && state.settings && state.response) && RESUMABLE_SCREENS.includes(state.screen)
+}
+
+/**
+ * Whether the event is legal in the current state
+ */
+export function canTransition(state: TriviaGameState, event: TriviaGameEvent): boolean {
+  const settled = state.phase !== 'loading'
+
+  switch (event.type) {
+    case 'start_game':
+      return settled && state.screen === 'setup'
+    case 'select_answer':
+    case 'submit_answer':
+      return settled && state.screen === 'question' && Boolean(state.response?.result?.question)
+    case 'next_question':
+      return settled && state.screen === 'feedback' && !isRoundComplete(state)
+    case 'end_game':
+      return settled && (state.screen === 'question' || state.screen === 'feedback')
+    case 'restore_game':
+      return settled && state.screen === 'setup' && isResumable(event.state)
+    case 'resync':
+      return settled && isResumable(state)
+    case 'stream_partial':
+    case 'turn_received':
+    case 'turn_failed':
+      return !settled
+    case 'reset':
+      return true
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeUnexpectedState(gameState: unknown): string {
+  if (gameState === 'feedback') return 'The host sent feedback before any answer was given'
+  return `The host sent an unexpected game state: ${JSON.stringify(gameState ?? null)}`
+}
+
+function fail(state: TriviaGameState, error: string): TriviaGameState {
+  return { ...state, phase: 'error', request: null, streamingQuestion: null, pendingAnswer: null, error }
+}
+
+function receiveTurn(state: TriviaGameState, response: TriviaResponse): TriviaGameState {
+  const gameState = response.result?.game_state as GameState
+  if (!state.request || !EXPECTED_GAME_STATES[state.request].includes(gameState)) {
+    return fail(state, describeUnexpectedState(gameState))
+  }
+
+  // A re-synced game only records the answer if the host confirms it was graded
+  const pending = state.request === 'answer' || gameState === 'feedback' ? state.pendingAnswer : null
+  const ledger = pending
+    ? recordAnswer(state.ledger, pending.question, pending.answer, response.result.feedback, {
+      timing: pending.timing,
+      player_id: pending.player_id,
+      difficulty: pending.difficulty,
+    })
+    : state.ledger
+  // Adaptive games pick the level of the next question from the answers so far
+  const difficulty = pending && state.settings?.adaptive && state.difficulty
+    ? adjustDifficulty(state.difficulty, ledger)
+    : state.difficulty
+
+  return {
+    ...state,
+    phase: gameState,
+    screen: gameState,
+    request: null,
+    response,
+    streamingQuestion: null,
+    pendingAnswer: null,
+    ledger,
+    difficulty,
+    error: null,
+  }
+}
+
+// End the round on the client, without waiting for the host to declare game_over
+function endGame(state: TriviaGameState): TriviaGameState {
+  const response = state.response!
+  return {
+    ...state,
+    phase: 'game_over',
+    screen: 'game_over',
+    selectedAnswer: null,
+    error: null,
+    response: {
+      ...response,
+      result: {
+        ...response.result,
+        game_state: 'game_over',
+        question: null,
+        commentary: isRoundComplete(state)
+          ? `That's all ${state.total_questions} questions - thanks for playing!`
+          : 'Thanks for playing!',
+      },
+    },
+  }
+}
+
+// =============================================================================
+// Reducer
+// =============================================================================
+
+/**
+ * Apply an event to the game. Illegal events leave the state unchanged.
+ */
+export function triviaGameReducer(state: TriviaGameState, event: TriviaGameEvent): TriviaGameState {
+  if (!canTransition(state, event)) {
+    console.warn(`[TriviaGame] Ignored ${event.type} in phase ${state.phase}`)
+    return state
+  }
+
+  switch (event.type) {
+    case 'start_game':
+      return {
+        ...INITIAL_TRIVIA_GAME_STATE,
+        phase: 'loading',
+        request: 'start',
+        session_id: event.session_id,
+        settings: event.settings,
+        difficulty: event.settings.difficulty,
+        players: event.players,
+        // In hot-seat games the round length applies to each player
+        total_questions: event.settings.round_length === null
+          ? null
+          : event.settings.round_length * Math.max(1, event.players.length),
+      }
+
+    case 'select_answer':
+      return { ...state, selectedAnswer: event.answer }
+
+    case 'submit_answer':
+      return {
+        ...state,
+        phase: 'loading',
+        request: 'answer',
+        error: null,
+        pendingAnswer: {
+          // Graded against the question the player actually saw, not the one echoed back
+          question: state.response!.result.question!,
+          answer: event.answer,
+          timing: event.timing ?? null,
+          player_id: getCurrentPlayer(state.players, state.ledger.length)?.id ?? null,
+          difficulty: state.difficulty,
+        },
+      }
+
+    case 'next_question':
+      return { ...state, phase: 'loading', request: 'next', selectedAnswer: null, error: null }
+
+    case 'stream_partial':
+      // Only questions are shown while streaming; feedback and game over wait for the full turn
+      if (event.partial.game_state && event.partial.game_state !== 'question') return state
+      return { ...state, streamingQuestion: event.partial }
+
+    case 'turn_received':
+      return receiveTurn(state, event.response)
+
+    case 'turn_failed':
+      return fail(state, event.error)
+
+    case 'end_game':
+      return endGame(state)
+
+    case 'restore_game':
+      // An answer that was in flight stays pending until a resync confirms it
+      return { ...event.state, phase: event.state.screen, request: null, streamingQuestion: null, error: null }
+
+    case 'resync':
+      return { ...state, phase: 'loading', request: 'resume', error: null }
+
+    case 'reset':
+      return INITIAL_TRIVIA_GAME_STATE
+  }
+}
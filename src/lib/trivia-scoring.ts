@@ -0,0 +1,182 @@
+/**
+ * Trivia Scoring Engine
+ *
+ * Client-side authoritative scoring for the trivia game. The Trivia Host Agent
+ * reports a running Score with every response, but that number is produced by
+ * the model and can drift, reset or be hallucinated. This module keeps its own
+ * ledger of answered questions, grades each answer locally and reconciles the
+ * result against the agent's numbers.
+ */
+
+import { getOptionLabel, getOptionText } from '@/lib/answer-options'
+import { gradeAnswerLocally } from '@/lib/question-types'
+import type { Question, Feedback, Score, Difficulty } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single answered question in the scoring ledger
+ */
+export interface ScoredAnswer {
+  question: Question
+  /** Option the user selected (null when no answer was given) */
+  selected_answer: string | null
+  /** Verdict reported by the agent, if any */
+  agent_is_correct: boolean | null
+  /** Verdict computed locally from question.correct_answer, if decidable */
+  local_is_correct: boolean | null
+  /** Final verdict used for scoring (local wins, agent is the fallback) */
+  is_correct: boolean
+  /** True when the local and agent verdicts disagree */
+  verdict_mismatch: boolean
+  /** Time spent answering, when the question was timed */
+  elapsed_ms: number | null
+  /** Time limit for the question (null when untimed) */
+  limit_ms: number | null
+  /** Points awarded, including speed bonus */
+  points: number
+  /** Speed bonus portion of points */
+  bonus: number
+  /** Player who answered (hot-seat games), null for single player */
+  player_id: string | null
+  /** Level the question was asked at (adaptive games), null when not tracked */
+  difficulty: Difficulty | null
+}
+
+export interface AnswerTiming {
+  elapsed_ms: number
+  limit_ms: number | null
+}
+
+export interface RecordAnswerOptions {
+  timing?: AnswerTiming | null
+  player_id?: string | null
+  difficulty?: Difficulty | null
+}
+
+export type ScoreLedger = ScoredAnswer[]
+
+export interface ScoreDiscrepancy {
+  field: keyof Score
+  local: number
+  agent: number
+}
+
+export interface ScoreReconciliation {
+  /** Authoritative score computed from the ledger */
+  score: Score
+  /** Score as reported by the agent (null if missing) */
+  agent_score: Score | null
+  discrepancies: ScoreDiscrepancy[]
+  has_discrepancy: boolean
+}
+
+// =============================================================================
+// Points
+// =============================================================================
+
+/** Points for a correct answer */
+export const BASE_POINTS = 100
+/** Maximum extra points for answering a timed question instantly */
+export const MAX_SPEED_BONUS = 50
+
+/** Time allowed per question when timed mode is on */
+export const QUESTION_TIME_LIMITS_MS: Record<Difficulty, number> = {
+  Easy: 30_000,
+  Medium: 20_000,
+  Hard: 15_000,
+}
+
+/**
+ * Points for an answer. Correct answers to timed questions earn a speed bonus
+ * proportional to the time left on the clock.
+ */
+export function calculatePoints(isCorrect: boolean, timing?: AnswerTiming | null): { points: number; bonus: number } {
+  if (!isCorrect) return { points: 0, bonus: 0 }
+  if (!timing?.limit_ms) return { points: BASE_POINTS, bonus: 0 }
+
+  const remaining = Math.min(1, Math.max(0, 1 - timing.elapsed_ms / timing.limit_ms))
+  const bonus = Math.round(MAX_SPEED_BONUS * remaining)
+  return { points: BASE_POINTS + bonus, bonus }
+}
+
+// =============================================================================
+// Answer Grading
+// =============================================================================
+
+// Grading depends on the question type and lives with the types; re-exported for existing callers
+export { getOptionLabel, getOptionText, gradeAnswerLocally }
+
+// =============================================================================
+// Ledger
+// =============================================================================
+
+/**
+ * Append an answered question to the ledger and return the new ledger
+ */
+export function recordAnswer(
+  ledger: ScoreLedger,
+  question: Question,
+  selected: string | null,
+  feedback: Feedback | null,
+  options: RecordAnswerOptions = {}
+): ScoreLedger {
+  const { timing = null, player_id = null, difficulty = null } = options
+  const agentVerdict = typeof feedback?.is_correct === 'boolean' ? feedback.is_correct : null
+  const localVerdict = gradeAnswerLocally(question, selected)
+  const isCorrect = localVerdict ?? agentVerdict ?? false
+
+  const entry: ScoredAnswer = {
+    question,
+    selected_answer: selected,
+    agent_is_correct: agentVerdict,
+    local_is_correct: localVerdict,
+    is_correct: isCorrect,
+    verdict_mismatch: localVerdict !== null && agentVerdict !== null && localVerdict !== agentVerdict,
+    elapsed_ms: timing?.elapsed_ms ?? null,
+    limit_ms: timing?.limit_ms ?? null,
+    ...calculatePoints(isCorrect, timing),
+    player_id,
+    difficulty,
+  }
+
+  return [...ledger, entry]
+}
+
+/**
+ * Compute the authoritative score from the ledger
+ */
+export function computeScore(ledger: ScoreLedger): Score {
+  const total = ledger.length
+  const correct = ledger.filter(entry => entry.is_correct).length
+  const percentage = total > 0 ? Math.round((correct / total) * 100) : 0
+  const points = ledger.reduce((sum, entry) => sum + entry.points, 0)
+  return { correct, total, percentage, points }
+}
+
+/**
+ * Compare the local score with the agent's reported score and flag any
+ * disagreement. The local score always wins.
+ */
+export function reconcileScore(ledger: ScoreLedger, agentScore: Score | null | undefined): ScoreReconciliation {
+  const score = computeScore(ledger)
+  const discrepancies: ScoreDiscrepancy[] = []
+
+  if (agentScore) {
+    for (const field of ['correct', 'total', 'percentage'] as const) {
+      const agentValue = Number(agentScore[field])
+      if (agentValue !== score[field]) {
+        discrepancies.push({ field, local: score[field], agent: agentValue })
+      }
+    }
+  }
+
+  return {
+    score,
+    agent_score: agentScore ?? null,
+    discrepancies,
+    has_discrepancy: discrepancies.length > 0,
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Trivia Turn Builders
+ *
+ * Helpers shared by question sources. Turns built here match what
+ * callAIAgent returns for the Trivia Host Agent, so the game screens can
+ * treat local and agent turns identically.
+ */
+
+import type { AIAgentResponse } from '@/utils/aiAgent'
+import type { TriviaResult, Score } from '@/types'
+
+/**
+ * Build a Score from correct/total counts
+ */
+export function toScore(correct: number, total: number): Score {
+  const percentage = total > 0 ? Math.round((correct / total) * 100) : 0
+  return { correct, total, percentage }
+}
+
+/**
+ * Wrap a locally produced TriviaResult as a successful agent response
+ */
+export function triviaTurn(result: TriviaResult, session_id: string, agent_name: string): AIAgentResponse {
+  const timestamp = new Date().toISOString()
+  const response = {
+    status: 'success' as const,
+    result,
+    metadata: { agent_name, timestamp },
+  }
+  return {
+    success: true,
+    response,
+    agent_id: 'local',
+    session_id,
+    timestamp,
+    raw_response: JSON.stringify(response),
+  }
+}
+
+/**
+ * Build a failed agent response for a local source error
+ */
+export function triviaError(error: string, session_id: string): AIAgentResponse {
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message: error },
+    session_id,
+    error,
+  }
+}
+
+/**
+ * Describe the round length for an agent prompt (null = endless)
+ */
+export function describeRoundLength(round_length: number | null): string {
+  return round_length
+    ? `This round has ${round_length} questions in total.`
+    : 'This is an endless round with no fixed number of questions.'
+}
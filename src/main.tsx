@@ -1,6 +1,7 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { downloadFixture, parseFixture, startRecording, startReplay, stopRecording, stopReplay } from './utils/agentRecorder'
 import './index.css'
 
 // =============================================================================
@@ -71,7 +72,7 @@ if (window.parent !== window) {
       type: 'request',
       method,
       url,
-      headers: init?.headers,
+      headers: init?.headers ? Object.fromEntries(new Headers(init.headers)) : undefined,
       body: init?.body ? String(init.body).slice(0, 1000) : undefined,
       timestamp: new Date().toISOString()
     }])
@@ -184,6 +185,20 @@ if (window.parent !== window) {
 }
 // =============================================================================
 
+// =============================================================================
+// Agent Recorder - record/replay agent conversations from the dev console
+//   agentRecorder.start('name')  ...play...  agentRecorder.stop()  // downloads the fixture
+//   agentRecorder.replay(fixtureJson)
+// =============================================================================
+if (import.meta.env.DEV) {
+  (window as any).agentRecorder = {
+    start: startRecording,
+    stop: () => downloadFixture(stopRecording()),
+    replay: (json: string) => startReplay(parseFixture(json)),
+    stopReplay,
+  }
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,437 @@
+// @vitest-environment jsdom
+
+/**
+ * End-to-end tests for the trivia game: full games against the stub agent
+ * (src/test/stub-agent.ts), asserting what the player sees on screen.
+ */
+
+import { cleanup, render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import Home from '@/pages/Home'
+import { DEFAULT_QUESTION_BANK, type BankQuestion } from '@/lib/offline-question-source'
+import { gradeAnswerLocally } from '@/lib/trivia-scoring'
+import { installStubAgent, type StubAgent } from '@/test/stub-agent'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const BANK_QUESTIONS: BankQuestion[] = Object.values(DEFAULT_QUESTION_BANK).flatMap(levels => Object.values(levels).flat())
+
+type User = ReturnType<typeof userEvent.setup>
+
+function renderGame() {
+  const user = userEvent.setup()
+  render(
+    <MemoryRouter>
+      <Home />
+    </MemoryRouter>
+  )
+  return user
+}
+
+/** Bank entry for the question on screen */
+async function currentQuestion(): Promise<BankQuestion> {
+  await screen.findByRole('button', { name: 'Submit Answer' })
+  const question = BANK_QUESTIONS.find(entry => screen.queryByText(entry.text))
+  if (!question) throw new Error('No bank question on screen')
+  return question
+}
+
+async function startRound(user: User, length = '5') {
+  await user.click(screen.getByRole('button', { name: length }))
+  await user.click(screen.getByRole('button', { name: /Start Game/ }))
+}
+
+async function answer(user: User, correct: boolean): Promise<BankQuestion> {
+  const question = await currentQuestion()
+  const option = question.options.find(opt => gradeAnswerLocally(question, opt) === correct)!
+  await user.click(screen.getByRole('button', { name: option }))
+  await user.click(screen.getByRole('button', { name: 'Submit Answer' }))
+  return question
+}
+
+const expectScore = (correct: number, total: number) =>
+  expect(screen.getByText(`Score: ${correct}/${total}`)).toBeTruthy()
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+let stub: StubAgent
+
+beforeAll(() => {
+  // Radix primitives measure themselves; jsdom has no ResizeObserver
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  } as unknown as typeof ResizeObserver
+})
+
+beforeEach(() => {
+  localStorage.clear()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  stub = installStubAgent()
+})
+
+afterEach(() => {
+  cleanup()
+  stub.restore()
+  vi.restoreAllMocks()
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Home game flow', () => {
+  it('starts a game from the default setup', async () => {
+    const user = renderGame()
+    const start = screen.getByRole('button', { name: /Start Game/ })
+    expect(start.hasAttribute('disabled')).toBe(false)
+
+    await user.click(start)
+    await currentQuestion()
+    expect(stub.requests[0].message).toMatch(/Category: Science\./)
+  })
+
+  it('plays a full round with right and wrong answers', async () => {
+    const user = renderGame()
+    await startRound(user)
+
+    await answer(user, true)
+    expect(await screen.findByText("✅ That's correct! Well done!")).toBeTruthy()
+    expectScore(1, 1)
+
+    await user.click(screen.getByRole('button', { name: 'Next Question' }))
+    const missed = await answer(user, false)
+    const correctOption = missed.options.find(opt => gradeAnswerLocally(missed, opt))
+    expect(await screen.findByText(`❌ Not quite. The answer was ${correctOption}.`)).toBeTruthy()
+    expectScore(1, 2)
+
+    for (const correct of [true, false, true]) {
+      await user.click(screen.getByRole('button', { name: 'Next Question' }))
+      await answer(user, correct)
+      await screen.findByRole('button', { name: /Next Question|See Results/ })
+    }
+    expectScore(3, 5)
+
+    // The round length is reached, so the client ends the game itself
+    const requests = stub.requests.length
+    await user.click(screen.getByRole('button', { name: 'See Results' }))
+    expect(await screen.findByText('Game Over!')).toBeTruthy()
+    const finalScore = screen.getByText('Final Score').parentElement!
+    expect(within(finalScore).getByText('3/5')).toBeTruthy()
+    expect(stub.requests.length).toBe(requests)
+
+    await user.click(screen.getByRole('button', { name: /Play Again/ }))
+    expect(await screen.findByRole('button', { name: /Start Game/ })).toBeTruthy()
+  })
+
+  it('ends the game when the agent declares game over', async () => {
+    const user = renderGame()
+    await startRound(user, '10')
+    await answer(user, true)
+    await screen.findByRole('button', { name: 'Next Question' })
+
+    stub.editNext(reply => ({
+      ...reply,
+      result: { game_state: 'game_over', commentary: 'The host calls it a night.', score: { correct: 1, total: 1, percentage: 100 } },
+    }))
+    await user.click(screen.getByRole('button', { name: 'Next Question' }))
+
+    expect(await screen.findByText('Game Over!')).toBeTruthy()
+    expect(screen.getByText('The host calls it a night.')).toBeTruthy()
+    expect(within(screen.getByText('Final Score').parentElement!).getByText('1/1')).toBeTruthy()
+  })
+
+  it('shows an error when the game starts in an unexpected state', async () => {
+    const user = renderGame()
+    stub.editNext(reply => ({ ...reply, result: { ...reply.result, game_state: 'intermission' } }))
+    await startRound(user)
+
+    expect(await screen.findByText('The host sent an unexpected game state: "intermission"')).toBeTruthy()
+    expect(screen.queryByRole('button', { name: 'Submit Answer' })).toBeNull()
+
+    // Starting again recovers
+    await user.click(screen.getByRole('button', { name: /Start Game/ }))
+    await currentQuestion()
+    expect(screen.queryByText(/unexpected game state/)).toBeNull()
+  })
+
+  it('stays on feedback when the next turn has an unexpected state', async () => {
+    const user = renderGame()
+    await startRound(user)
+    await answer(user, true)
+    await screen.findByRole('button', { name: 'Next Question' })
+
+    stub.editNext(reply => ({ ...reply, result: { ...reply.result, game_state: 'paused' } }))
+    await user.click(screen.getByRole('button', { name: 'Next Question' }))
+
+    expect(await screen.findByText('The host sent an unexpected game state: "paused"')).toBeTruthy()
+    expectScore(1, 1)
+
+    await user.click(screen.getByRole('button', { name: 'Next Question' }))
+    await currentQuestion()
+  })
+
+  it('shows agent errors and lets the player retry', async () => {
+    const user = renderGame()
+    stub.failNext(500, { error: 'Agent overloaded' })
+    await startRound(user)
+
+    expect(await screen.findByText('Agent overloaded')).toBeTruthy()
+
+    await user.click(screen.getByRole('button', { name: /Start Game/ }))
+    const question = await currentQuestion()
+
+    stub.failNext(503)
+    const option = question.options.find(opt => gradeAnswerLocally(question, opt))!
+    await user.click(screen.getByRole('button', { name: option }))
+    await user.click(screen.getByRole('button', { name: 'Submit Answer' }))
+    expect(await screen.findByText('Stub agent error 503')).toBeTruthy()
+
+    // The answer is still selected, so submitting again goes through
+    await user.click(screen.getByRole('button', { name: 'Submit Answer' }))
+    expect(await screen.findByText("✅ That's correct! Well done!")).toBeTruthy()
+    expectScore(1, 1)
+  })
+
+  it('raises the difficulty during an adaptive round', async () => {
+    const user = renderGame()
+    await user.click(screen.getByRole('switch', { name: 'Adaptive difficulty' }))
+    await startRound(user)
+
+    for (let i = 0; i < 3; i++) {
+      expect(screen.getByText('Medium')).toBeTruthy()
+      await answer(user, true)
+      await user.click(await screen.findByRole('button', { name: 'Next Question' }))
+    }
+    await currentQuestion()
+    expect(screen.getByText('Hard')).toBeTruthy()
+    expect(screen.getByLabelText('Harder')).toBeTruthy()
+    expect(stub.requests.at(-1)?.message).toMatch(/^Next question please\. Difficulty: Hard/)
+
+    await answer(user, false)
+    await user.click(await screen.findByRole('button', { name: 'Next Question' }))
+    await answer(user, false)
+    await user.click(await screen.findByRole('button', { name: 'See Results' }))
+
+    expect(await screen.findByText('Difficulty Curve')).toBeTruthy()
+    expect(screen.getByText(/Questions 1-3/).textContent).toBe('Questions 1-3: Medium - 3/3 correct')
+    expect(screen.getByText(/Questions 4-5/).textContent).toBe('Questions 4-5: Hard - 0/2 correct')
+  })
+
+  it('reviews missed questions from the setup screen', async () => {
+    const user = renderGame()
+    expect(screen.getByRole('button', { name: /Review Missed Questions/ }).hasAttribute('disabled')).toBe(true)
+    await startRound(user)
+
+    const missed = await answer(user, false)
+    for (const correct of [true, true, true, true]) {
+      await user.click(await screen.findByRole('button', { name: 'Next Question' }))
+      await answer(user, correct)
+    }
+    await user.click(await screen.findByRole('button', { name: 'See Results' }))
+    await user.click(await screen.findByRole('button', { name: /Play Again/ }))
+
+    await user.click(await screen.findByRole('button', { name: 'Review Missed Questions (1 due)' }))
+    expect(screen.getByText(missed.text)).toBeTruthy()
+    expect(screen.getByText('Review 1 of 1')).toBeTruthy()
+
+    const option = missed.options.find(opt => gradeAnswerLocally(missed, opt))!
+    await user.click(screen.getByRole('button', { name: option }))
+    await user.click(screen.getByRole('button', { name: 'Submit Answer' }))
+    expect(screen.getByText('Correct!')).toBeTruthy()
+    expect(screen.getByText("You'll see this question again tomorrow.")).toBeTruthy()
+    expect(screen.getByText(missed.explanation)).toBeTruthy()
+
+    await user.click(screen.getByRole('button', { name: 'Finish Review' }))
+    expect(screen.getByText('You reviewed 1 question and got 1 right.')).toBeTruthy()
+    await user.click(screen.getByRole('button', { name: /Back to Setup/ }))
+    expect(screen.getByRole('button', { name: 'Review Missed Questions' }).hasAttribute('disabled')).toBe(true)
+  })
+
+  it('plays a numeric question with a typed answer', async () => {
+    const user = renderGame()
+    const numeric = {
+      type: 'numeric',
+      text: 'How tall is the Eiffel Tower?',
+      options: [],
+      correct_answer: '330',
+      tolerance: 10,
+      unit: 'm',
+    }
+    stub.editNext(reply => ({ ...reply, result: { ...reply.result, question: numeric } }))
+    await startRound(user)
+
+    await screen.findByText(numeric.text)
+    expect(screen.getByRole('button', { name: 'Submit Answer' }).hasAttribute('disabled')).toBe(true)
+    expect(screen.getByText('m')).toBeTruthy()
+
+    stub.editNext(reply => ({
+      ...reply,
+      result: { ...reply.result, question: numeric, feedback: { ...reply.result.feedback, is_correct: true } },
+    }))
+    await user.type(screen.getByRole('textbox', { name: 'Your estimate' }), '325{Enter}')
+
+    expect(await screen.findByText('330 m (± 10)')).toBeTruthy()
+    expect(stub.requests.at(-1)?.message).toMatch(/My answer is: 325/)
+    expectScore(1, 1)
+  })
+
+  it('plays from the keyboard with focus and announcements following the game', async () => {
+    const user = renderGame()
+    await startRound(user)
+
+    const question = await currentQuestion()
+    expect(document.activeElement?.textContent).toBe(question.text)
+    const index = question.options.findIndex(opt => gradeAnswerLocally(question, opt))
+    await user.keyboard(String.fromCharCode(97 + index))
+    expect(screen.getByRole('button', { name: question.options[index] }).getAttribute('aria-pressed')).toBe('true')
+    await user.keyboard(`${(index + 1) % question.options.length + 1}`)
+    await user.keyboard(`${index + 1}{Enter}`)
+
+    expect(await screen.findByText("✅ That's correct! Well done!")).toBeTruthy()
+    expect(await screen.findByText('Correct! Score: 1 out of 1.')).toBeTruthy()
+    expect(document.activeElement?.textContent).toBe(question.text)
+
+    await user.keyboard('?')
+    const help = await screen.findByRole('dialog', { name: 'Keyboard shortcuts' })
+    expect(within(help).getByText('Next question')).toBeTruthy()
+    await user.keyboard('{Escape}')
+    expect(screen.queryByRole('dialog')).toBeNull()
+
+    await user.keyboard('n')
+    const next = await currentQuestion()
+    expect(next.text).not.toBe(question.text)
+    expect(document.activeElement?.textContent).toBe(next.text)
+  })
+
+  it('cancels a pending answer and starts over', async () => {
+    const user = renderGame()
+    await startRound(user)
+
+    const release = stub.holdNext()
+    const question = await currentQuestion()
+    await user.click(screen.getByRole('button', { name: question.options[0] }))
+    await user.click(screen.getByRole('button', { name: 'Submit Answer' }))
+    expect(screen.getByText('Submitting...')).toBeTruthy()
+
+    await user.click(screen.getByRole('button', { name: /Cancel and Play Again/ }))
+    expect(screen.getByRole('button', { name: /Start Game/ })).toBeTruthy()
+
+    // The reply that arrives afterwards is ignored
+    release()
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(screen.getByRole('button', { name: /Start Game/ })).toBeTruthy()
+    expect(screen.queryByText(question.text)).toBeNull()
+  })
+
+  it('cancels a pending next question and starts over', async () => {
+    const user = renderGame()
+    await startRound(user)
+    await answer(user, true)
+
+    const release = stub.holdNext()
+    await user.click(await screen.findByRole('button', { name: 'Next Question' }))
+    await user.click(screen.getByRole('button', { name: /Cancel and Play Again/ }))
+    release()
+
+    expect(await screen.findByRole('button', { name: /Start Game/ })).toBeTruthy()
+    expect(screen.queryByRole('button', { name: /Resume/ })).toBeNull()
+  })
+
+  it('offers to resume a game after a reload', async () => {
+    let user = renderGame()
+    await startRound(user)
+    await answer(user, true)
+    await screen.findByRole('button', { name: 'Next Question' })
+
+    cleanup()
+    user = renderGame()
+    expect(screen.getByText('You have a game in progress')).toBeTruthy()
+    expect(screen.getByText(/1\/1 correct so far/)).toBeTruthy()
+
+    const requests = stub.requests.length
+    await user.click(screen.getByRole('button', { name: 'Resume game' }))
+    expect(await screen.findByRole('button', { name: 'Next Question' })).toBeTruthy()
+    expectScore(1, 1)
+    expect(stub.requests.length).toBe(requests)
+
+    await user.click(screen.getByRole('button', { name: 'Next Question' }))
+    await answer(user, false)
+    await screen.findByRole('button', { name: 'Next Question' })
+    expectScore(1, 2)
+  })
+
+  it('re-syncs a stale saved game with the agent', async () => {
+    let user = renderGame()
+    await startRound(user)
+    await answer(user, true)
+    await screen.findByRole('button', { name: 'Next Question' })
+
+    cleanup()
+    const key = 'trivia-master:current-game'
+    const saved = JSON.parse(localStorage.getItem(key)!)
+    localStorage.setItem(key, JSON.stringify({ ...saved, saved_at: new Date(Date.now() - 60 * 60 * 1000).toISOString() }))
+    user = renderGame()
+
+    await user.click(screen.getByRole('button', { name: 'Resume game' }))
+    await currentQuestion()
+    expect(stub.requests.at(-1)?.message).toMatch(/^Resume our trivia game/)
+    expectScore(1, 1)
+  })
+
+  it('shows the host commentary for each batch question', async () => {
+    const user = renderGame()
+    await user.click(screen.getByRole('button', { name: /AI Batch/ }))
+    await startRound(user)
+    expect(await screen.findByText(/Your questions are ready\. The mock host picked this one for you\./)).toBeTruthy()
+
+    await answer(user, false)
+    expect(await screen.findByText('The mock host hopes you enjoyed that one.')).toBeTruthy()
+
+    await user.click(screen.getByRole('button', { name: 'Next Question' }))
+    await currentQuestion()
+    expect(screen.getByText('The mock host picked this one for you.')).toBeTruthy()
+  })
+
+  it('keeps the batch question explanation after a reload', async () => {
+    let user = renderGame()
+    await user.click(screen.getByRole('button', { name: /AI Batch/ }))
+    await startRound(user)
+    const question = await currentQuestion()
+
+    cleanup()
+    user = renderGame()
+    await user.click(screen.getByRole('button', { name: 'Resume game' }))
+    await answer(user, true)
+    expect(await screen.findByText(question.explanation)).toBeTruthy()
+  })
+
+  it('starts over when the saved game is discarded', async () => {
+    let user = renderGame()
+    await startRound(user)
+    await currentQuestion()
+
+    cleanup()
+    user = renderGame()
+    await user.click(screen.getByRole('button', { name: 'Start new' }))
+    expect(screen.queryByText('You have a game in progress')).toBeNull()
+    expect(localStorage.getItem('trivia-master:current-game')).toBeNull()
+  })
+
+  it('shows an error when the agent reply is not JSON', async () => {
+    const user = renderGame()
+    stub.replyNext('Sorry, I am not in the mood for trivia today.')
+    await startRound(user)
+
+    expect(await screen.findByText('No valid JSON found in the response')).toBeTruthy()
+  })
+})
@@ -1,11 +1,44 @@
-import { useState } from 'react'
-import { callAIAgent } from '@/utils/aiAgent'
-import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import { useState, useEffect, useRef } from 'react'
+import { getDefaultQuestionSourceKind, type QuestionSourceKind } from '@/lib/question-source'
+import { computeScore, reconcileScore, QUESTION_TIME_LIMITS_MS, type ScoreLedger, type ScoreReconciliation } from '@/lib/trivia-scoring'
+import { useQuestionTimer } from '@/hooks/useQuestionTimer'
+import { useTriviaGame } from '@/hooks/useTriviaGame'
+import { buildDifficultyCurve, DIFFICULTY_LEVELS } from '@/lib/adaptive-difficulty'
+import { describeCorrectAnswer, getDefaultAnswer, getQuestionType, takesOptions, toggleOption } from '@/lib/question-types'
+import { useKeyboardShortcuts, type KeyboardShortcut } from '@/hooks/useKeyboardShortcuts'
+import { announce } from '@/lib/announcer'
+import Header from '@/components/Header'
+import { buildGameRecord, saveGameRecord } from '@/lib/game-history'
+import { addMissedQuestion, getDueCards, loadReviewDeck, saveReviewDeck } from '@/lib/review-deck'
+import type { SavedGame } from '@/lib/saved-game'
+import { createPlayers, getCurrentPlayer, computePlayerScore, rankPlayers } from '@/lib/hot-seat'
+import PlayerSetup from '@/components/PlayerSetup'
+import Leaderboard from '@/components/Leaderboard'
+import TriviaRoom from '@/components/TriviaRoom'
+import ReviewSession from '@/components/ReviewSession'
+import QuestionInput from '@/components/QuestionInput'
+import ShortcutHelp, { ShortcutHelpButton } from '@/components/ShortcutHelp'
+import CategoryPicker from '@/components/CategoryPicker'
+import { KnowledgeBaseUpload } from '@/components/KnowledgeBaseUpload'
+import { getTriviaKnowledgeBaseId, withCitation } from '@/lib/knowledge-base-quiz'
+import {
+  BUILT_IN_CATEGORIES,
+  buildDocumentSelection,
+  buildTopicSelection,
+  describeTopics,
+  getBuiltInCategories,
+  isEmptySelection,
+  loadCustomCategories,
+  type CategoryDefinition,
+} from '@/lib/categories'
+import type { Difficulty } from '@/types'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
 import {
   Play,
   RefreshCw,
@@ -15,276 +48,368 @@ import {
   Loader2,
   Sparkles,
   Bot,
-  Rocket,
+  User,
+  AlertTriangle,
+  Timer,
+  Zap,
+  Users,
   BookOpen,
-  Globe,
-  Film,
-  Dumbbell,
-  User
+  TrendingUp,
+  TrendingDown
 } from 'lucide-react'
 
-// Agent Configuration
-const AGENT_ID = "6979bd37a5d355f8aa489bab"
-
-// TypeScript interfaces based on actual_test_response from schema
-interface Question {
-  text: string
-  options: string[]
-  correct_answer: string
-}
-
-interface Feedback {
-  is_correct: boolean
-  message: string
-  explanation: string
-}
-
-interface Score {
-  correct: number
-  total: number
-  percentage: number
-}
-
-interface TriviaResult {
-  game_state: string
-  question: Question | null
-  feedback: Feedback | null
-  score: Score
-  commentary: string
-}
-
-interface TriviaResponse extends NormalizedAgentResponse {
-  result: TriviaResult
-}
-
-type GameState = 'setup' | 'question' | 'feedback' | 'game_over'
-type Category = 'Science' | 'History' | 'Geography' | 'Entertainment' | 'Sports'
-type Difficulty = 'Easy' | 'Medium' | 'Hard'
-
-// Header component
-function Header() {
-  return (
-    <header className="w-full bg-white border-b border-gray-200">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-        <div className="flex items-center gap-3">
-          <img
-            src="https://asset.lyzr.app/k7ESQXrU"
-            alt="Profile"
-            className="h-10 w-10 rounded-full object-cover"
-          />
-          <h1 className="text-2xl font-bold text-gray-900">Hello World</h1>
-        </div>
-      </div>
-    </header>
-  )
-}
-
-// Category selection component
-function CategoryCard({
-  category,
+const ROUND_LENGTHS: { value: number | null; label: string }[] = [
+  { value: 5, label: '5' },
+  { value: 10, label: '10' },
+  { value: 20, label: '20' },
+  { value: null, label: 'Endless' },
+]
+
+const QUESTION_SOURCES: { kind: QuestionSourceKind; label: string; description: string }[] = [
+  { kind: 'agent', label: 'AI Host', description: 'The AI host writes and grades every question live.' },
+  { kind: 'batch', label: 'AI Batch', description: 'The AI host prepares questions in batches so the next one is ready instantly.' },
+  { kind: 'offline', label: 'Offline', description: 'Play from the bundled question bank without contacting the AI host.' },
+]
+
+// Setup choice button (difficulty, question source, ...)
+function ChoiceButton({
+  label,
   selected,
   onClick
 }: {
-  category: Category
+  label: string
   selected: boolean
   onClick: () => void
 }) {
-  const getCategoryIcon = (cat: Category) => {
-    const iconClass = `h-10 w-10 ${selected ? 'text-white' : 'text-gray-600'}`
-
-    switch(cat) {
-      case 'Science':
-        return <Rocket className={iconClass} />
-      case 'History':
-        return <BookOpen className={iconClass} />
-      case 'Geography':
-        return <Globe className={iconClass} />
-      case 'Entertainment':
-        return <Film className={iconClass} />
-      case 'Sports':
-        return <Dumbbell className={iconClass} />
-    }
-  }
-
   return (
     <button
       onClick={onClick}
-      className={`p-6 rounded-xl border-2 transition-all flex flex-col items-center justify-center ${
+      className={`px-8 py-3 rounded-lg font-semibold transition-all ${
         selected
-          ? 'border-red-500 bg-gradient-to-br from-red-500 to-rose-600 shadow-lg'
-          : 'border-gray-200 bg-white hover:border-red-300 hover:shadow-md'
+          ? 'bg-gradient-to-r from-red-500 to-rose-600 text-white shadow-lg'
+          : 'bg-white border-2 border-gray-200 text-gray-700 hover:border-red-300 hover:shadow-md'
       }`}
     >
-      <div className="mb-2">{getCategoryIcon(category)}</div>
-      <div className={`font-semibold ${selected ? 'text-white' : 'text-gray-800'}`}>{category}</div>
+      {label}
     </button>
   )
 }
 
-// Difficulty selection component
-function DifficultyButton({
-  difficulty,
-  selected,
-  onClick
-}: {
-  difficulty: Difficulty
-  selected: boolean
-  onClick: () => void
-}) {
+// Countdown bar for timed questions
+function QuestionCountdown({ remainingMs, limitMs }: { remainingMs: number; limitMs: number }) {
+  const fraction = limitMs > 0 ? remainingMs / limitMs : 0
+  const barColor = fraction > 0.5
+    ? '[&>div]:bg-green-500'
+    : fraction > 0.25
+      ? '[&>div]:bg-amber-500'
+      : '[&>div]:bg-red-600'
+
   return (
-    <button
-      onClick={onClick}
-      className={`px-8 py-3 rounded-lg font-semibold transition-all ${
-        selected
-          ? 'bg-gradient-to-r from-red-500 to-rose-600 text-white shadow-lg'
-          : 'bg-white border-2 border-gray-200 text-gray-700 hover:border-red-300 hover:shadow-md'
-      }`}
-    >
-      {difficulty}
-    </button>
+    <div className="flex items-center gap-3">
+      <Timer className={`h-4 w-4 flex-shrink-0 ${fraction > 0.25 ? 'text-gray-600' : 'text-red-600'}`} />
+      <Progress value={fraction * 100} className={`bg-gray-200 ${barColor}`} />
+      <span className={`text-sm font-semibold tabular-nums w-10 text-right ${fraction > 0.25 ? 'text-gray-700' : 'text-red-600'}`}>
+        {Math.ceil(remainingMs / 1000)}s
+      </span>
+    </div>
   )
 }
 
-// Answer option button component
-function AnswerOption({
-  option,
-  selected,
-  disabled,
-  onClick
-}: {
-  option: string
-  selected: boolean
-  disabled: boolean
-  onClick: () => void
-}) {
+// Level of the current question; adaptive games also show which way it moved
+function DifficultyBadge({ difficulty, previous }: { difficulty: Difficulty; previous: Difficulty | null }) {
+  const change = previous ? DIFFICULTY_LEVELS.indexOf(difficulty) - DIFFICULTY_LEVELS.indexOf(previous) : 0
+
   return (
-    <button
-      onClick={onClick}
-      disabled={disabled}
-      className={`w-full p-4 rounded-lg border-2 text-left transition-all ${
-        selected
-          ? 'border-red-500 bg-red-50 shadow-md'
-          : 'border-gray-200 bg-white hover:border-red-300 hover:shadow-sm'
-      } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-    >
-      <div className={`font-medium ${selected ? 'text-red-900' : 'text-gray-900'}`}>{option}</div>
-    </button>
+    <Badge variant="outline" className="gap-1 text-gray-700 border-gray-300 bg-gray-50">
+      {change > 0 && <TrendingUp className="h-3 w-3 text-green-600" aria-label="Harder" />}
+      {change < 0 && <TrendingDown className="h-3 w-3 text-amber-600" aria-label="Easier" />}
+      {difficulty}
+    </Badge>
   )
 }
 
-export default function Home() {
-  const [gameState, setGameState] = useState<GameState>('setup')
-  const [category, setCategory] = useState<Category>('Science')
-  const [difficulty, setDifficulty] = useState<Difficulty>('Medium')
-  const [response, setResponse] = useState<TriviaResponse | null>(null)
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null)
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [sessionId, setSessionId] = useState<string>('')
-
-  // Start new game
-  const startGame = async () => {
-    setLoading(true)
-    setError(null)
-    const newSessionId = `trivia-${Date.now()}`
-    setSessionId(newSessionId)
-
-    const result = await callAIAgent(
-      `Start a new trivia game. Category: ${category}, Difficulty: ${difficulty}. Give me the first question.`,
-      AGENT_ID,
-      { session_id: newSessionId }
-    )
+// How an adaptive game moved between levels: one bar per question, taller for harder
+function DifficultyCurve({ ledger }: { ledger: ScoreLedger }) {
+  const segments = buildDifficultyCurve(ledger)
+  if (segments.length === 0) return null
 
-    setLoading(false)
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <h4 className="text-gray-900 font-semibold">Difficulty Curve</h4>
+      <div className="flex items-end gap-1 h-12" aria-hidden="true">
+        {ledger.filter(entry => entry.difficulty).map((entry, index) => (
+          <div
+            key={index}
+            className={`flex-1 rounded-t ${entry.is_correct ? 'bg-green-500' : 'bg-red-400'}`}
+            style={{ height: `${((DIFFICULTY_LEVELS.indexOf(entry.difficulty!) + 1) / DIFFICULTY_LEVELS.length) * 100}%` }}
+          />
+        ))}
+      </div>
+      <ul className="text-gray-700 text-sm space-y-1">
+        {segments.map(segment => (
+          <li key={segment.first}>
+            {segment.first === segment.last ? `Question ${segment.first}` : `Questions ${segment.first}-${segment.last}`}
+            {': '}<span className="font-semibold">{segment.difficulty}</span> - {segment.correct}/{segment.total} correct
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
 
-    if (result.success && result.response.status === 'success') {
-      const triviaResponse = result.response as TriviaResponse
-      setResponse(triviaResponse)
+// Offer to pick up a game left behind by a page reload
+function SavedGamePrompt({ saved, onResume, onDiscard }: { saved: SavedGame; onResume: () => void; onDiscard: () => void }) {
+  const { settings, ledger, players } = saved.state
+  const score = computeScore(ledger)
 
-      // Determine game state from agent response
-      if (triviaResponse.result.game_state === 'question') {
-        setGameState('question')
-      } else if (triviaResponse.result.game_state === 'feedback') {
-        setGameState('feedback')
-      }
-      setSelectedAnswer(null)
-    } else {
-      setError(result.error || 'Failed to start game')
-    }
-  }
+  return (
+    <Card className="border-red-200 shadow-lg bg-white mb-8">
+      <CardHeader>
+        <CardTitle className="text-xl text-gray-900">You have a game in progress</CardTitle>
+        <CardDescription>
+          {describeTopics(settings.topics)} on {settings.difficulty}
+          {players.length > 0 ? ` with ${players.map(player => player.name).join(', ')}` : ''}
+          {' '}- {score.correct}/{score.total} correct so far.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col sm:flex-row gap-3">
+        <Button
+          onClick={onResume}
+          className="flex-1 bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white shadow-lg"
+        >
+          <Play className="mr-2 h-4 w-4" />
+          Resume game
+        </Button>
+        <Button onClick={onDiscard} variant="outline" className="flex-1">
+          Start new
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
 
-  // Submit answer
-  const submitAnswer = async () => {
-    if (!selectedAnswer) return
+// Notice shown when the agent's reported score disagrees with the local ledger
+function ScoreDiscrepancyNotice({ reconciliation }: { reconciliation: ScoreReconciliation }) {
+  if (!reconciliation.has_discrepancy || !reconciliation.agent_score) return null
 
-    setLoading(true)
-    setError(null)
+  const { correct, total } = reconciliation.agent_score
 
-    const result = await callAIAgent(
-      `My answer is: ${selectedAnswer}`,
-      AGENT_ID,
-      { session_id: sessionId }
-    )
+  return (
+    <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+      <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+      <p className="text-amber-800 text-sm">
+        The host reported a score of {correct}/{total}. Your score has been recalculated from your answers.
+      </p>
+    </div>
+  )
+}
+
+export default function Home() {
+  const [selectedCategoryIds, setSelectedCategoryIds] = useState<string[]>(['Science'])
+  const [customCategories, setCustomCategories] = useState<CategoryDefinition[]>(loadCustomCategories)
+  const [topic, setTopic] = useState('')
+  const [documentQuiz, setDocumentQuiz] = useState(false)
+  const [selectedDocuments, setSelectedDocuments] = useState<string[]>([])
+  const [difficulty, setDifficulty] = useState<Difficulty>('Medium')
+  const [sourceKind, setSourceKind] = useState<QuestionSourceKind>(getDefaultQuestionSourceKind)
+  const [roundLength, setRoundLength] = useState<number | null>(10)
+  const [timed, setTimed] = useState(false)
+  const [adaptive, setAdaptive] = useState(false)
+  const [hotSeat, setHotSeat] = useState(false)
+  const [playerNames, setPlayerNames] = useState<string[]>(['', ''])
+  const [roomMode, setRoomMode] = useState(false)
+  const [reviewMode, setReviewMode] = useState(false)
+  const [reviewDeck, setReviewDeck] = useState(loadReviewDeck)
+
+  const game = useTriviaGame({ persist: true })
+  const {
+    screen,
+    response,
+    streamingQuestion,
+    selectedAnswer,
+    loading,
+    error,
+    session_id: sessionId,
+    settings: gameSettings,
+    difficulty: currentDifficulty,
+    ledger,
+    players,
+    total_questions: totalQuestions,
+    roundComplete,
+  } = game
+  const knowledgeBaseId = getTriviaKnowledgeBaseId()
+  const topics = documentQuiz
+    ? buildDocumentSelection(selectedDocuments)
+    : buildTopicSelection(selectedCategoryIds, topic, [...BUILT_IN_CATEGORIES, ...customCategories])
+  const roomCategories = getBuiltInCategories(topics)
+
+  const reconciliation = reconcileScore(ledger, response?.result?.score)
+  const lastAnswer = ledger.length > 0 ? ledger[ledger.length - 1] : null
+  const currentPlayer = getCurrentPlayer(players, ledger.length)
+  const answeringPlayer = players.find(player => player.id === lastAnswer?.player_id) ?? null
+  // Settings of the game in progress (a resumed game brings its own)
+  const settings = gameSettings ?? { topics, difficulty, round_length: roundLength, source: sourceKind, timed, adaptive }
+  const questionDifficulty = currentDifficulty ?? settings.difficulty
+  const timeLimitMs = settings.timed ? QUESTION_TIME_LIMITS_MS[questionDifficulty] : null
+
+  const timer = useQuestionTimer({
+    limitMs: timeLimitMs,
+    running: screen === 'question' && !loading,
+    resetKey: `${sessionId}-${ledger.length}`,
+    // Time ran out: submit as "no answer"
+    onExpire: () => submitAnswer(null),
+  })
+
+  // Save each finished game to local history (once per session)
+  const savedSessionRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (screen !== 'game_over' || !gameSettings || savedSessionRef.current === sessionId) return
+    savedSessionRef.current = sessionId
+    // Hot-seat games mix several people's answers, so they stay out of personal history
+    if (ledger.length === 0 || players.length > 0) return
+    const { topics, difficulty, source, round_length } = gameSettings
+    saveGameRecord(buildGameRecord(sessionId, { category: describeTopics(topics), difficulty, source, round_length }, ledger))
+  }, [screen, sessionId, ledger, players, gameSettings])
+
+  // Add each missed question to the review deck; hot-seat games stay out of it like personal history
+  const missedRef = useRef<string | null>(null)
+  useEffect(() => {
+    const key = `${sessionId}-${ledger.length}`
+    if (screen !== 'feedback' || !lastAnswer || lastAnswer.is_correct || players.length > 0 || missedRef.current === key) return
+    missedRef.current = key
+    const explanation = withCitation(response?.result?.feedback)?.explanation ?? ''
+    const deck = addMissedQuestion(loadReviewDeck(), lastAnswer.question, explanation, describeTopics(settings.topics))
+    saveReviewDeck(deck)
+    setReviewDeck(deck)
+  }, [screen, sessionId, ledger.length, lastAnswer, players.length, response, settings.topics])
+
+  const dueReviews = getDueCards(reviewDeck).length
+
+  const startGame = () => game.startGame(
+    // Adaptive difficulty follows one player, so hot-seat games stay at a fixed level
+    { topics, difficulty, round_length: roundLength, source: sourceKind, timed, adaptive: adaptive && !hotSeat },
+    hotSeat ? createPlayers(playerNames) : []
+  )
 
-    setLoading(false)
+  const submitAnswer = (answer: string | null) =>
+    game.submitAnswer(answer, { elapsed_ms: timer.getElapsedMs(), limit_ms: timeLimitMs })
+
+  const { nextQuestion, endGame, playAgain } = game
+
+  // Keyboard play: shortcuts, focus moving with the screen and screen reader announcements
+  const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false)
+  const headingRef = useRef<HTMLHeadingElement>(null)
+  const activeQuestion = streamingQuestion ?? response?.result?.question ?? null
+  const questionType = getQuestionType(activeQuestion ?? {})
+  // Ordering questions can go in as shown; other types wait for the player
+  const answer = selectedAnswer ?? (activeQuestion ? getDefaultAnswer(activeQuestion) : null)
+  const answering = screen === 'question' && !loading && activeQuestion !== null
+  const optionCount = Math.min(activeQuestion?.options.length || 4, 9)
+
+  const pickOption = (index: number) => {
+    const option = activeQuestion?.options[index]
+    if (!option) return
+    game.selectAnswer(questionType === 'multi_select' ? toggleOption(activeQuestion.options, selectedAnswer, option) : option)
+  }
 
-    if (result.success && result.response.status === 'success') {
-      const triviaResponse = result.response as TriviaResponse
-      setResponse(triviaResponse)
-      setGameState('feedback')
+  const shortcuts: KeyboardShortcut[] = [
+    {
+      keys: Array.from({ length: optionCount }, (_, index) => [String(index + 1), String.fromCharCode(97 + index)]).flat(),
+      label: [`1–${optionCount}`, `A–${String.fromCharCode(64 + optionCount)}`],
+      description: questionType === 'multi_select' ? 'Pick or unpick an option' : 'Pick an option',
+      handler: (event) => pickOption(/\d/.test(event.key) ? Number(event.key) - 1 : event.key.toLowerCase().charCodeAt(0) - 97),
+      enabled: answering && (questionType === 'multiple_choice' || questionType === 'true_false' || questionType === 'multi_select'),
+    },
+    {
+      keys: ['Enter'],
+      label: ['Enter'],
+      description: 'Submit your answer',
+      handler: () => submitAnswer(answer),
+      enabled: answering && !!answer?.trim(),
+    },
+    {
+      keys: ['n'],
+      label: ['N'],
+      description: roundComplete ? 'See results' : 'Next question',
+      handler: () => nextQuestion(),
+      enabled: screen === 'feedback' && !loading,
+    },
+    {
+      keys: ['?'],
+      label: ['?'],
+      description: 'Show keyboard shortcuts',
+      handler: () => setShortcutHelpOpen(true),
+      enabled: screen === 'question' || screen === 'feedback',
+    },
+  ]
+  useKeyboardShortcuts(shortcuts, !reviewMode && !roomMode && !shortcutHelpOpen)
+
+  // Start each new screen at its heading, so keyboard and screen reader users don't land on a removed button
+  const focusedScreenRef = useRef(screen)
+  useEffect(() => {
+    if (focusedScreenRef.current === screen) return
+    focusedScreenRef.current = screen
+    headingRef.current?.focus()
+  }, [screen])
+
+  // Read out each verdict with the score, and the final score
+  const announcedRef = useRef<string | null>(null)
+  useEffect(() => {
+    const key = `${sessionId}-${screen}-${ledger.length}`
+    if (announcedRef.current === key) return
+    if (screen === 'feedback' && lastAnswer) {
+      const score = answeringPlayer ? computePlayerScore(ledger, answeringPlayer.id) : reconciliation.score
+      const verdict = lastAnswer.is_correct
+        ? 'Correct!'
+        : `${lastAnswer.selected_answer === null ? "Time's up." : 'Incorrect.'} The answer was ${describeCorrectAnswer(lastAnswer.question)}.`
+      announce(`${answeringPlayer ? `${answeringPlayer.name}: ` : ''}${verdict} Score: ${score.correct} out of ${score.total}.`)
+    } else if (screen === 'game_over') {
+      announce(`Game over. Final score: ${reconciliation.score.correct} out of ${reconciliation.score.total}.`)
     } else {
-      setError(result.error || 'Failed to submit answer')
+      return
     }
-  }
+    announcedRef.current = key
+  }, [screen, sessionId, ledger, lastAnswer, answeringPlayer, reconciliation.score])
+
+  // A pending turn can't be waited out from the question or feedback screen; cancelling it starts over
+  const cancelButton = loading && (
+    <Button onClick={playAgain} variant="outline" size="lg" className="w-full">
+      <RefreshCw className="mr-2 h-5 w-5" />
+      Cancel and Play Again
+    </Button>
+  )
 
-  // Get next question
-  const nextQuestion = async () => {
-    setLoading(true)
-    setError(null)
-    setSelectedAnswer(null)
-
-    try {
-      const result = await callAIAgent(
-        'Next question please',
-        AGENT_ID,
-        { session_id: sessionId }
-      )
+  const shortcutHelp = (
+    <>
+      <ShortcutHelpButton onClick={() => setShortcutHelpOpen(true)} />
+      <ShortcutHelp open={shortcutHelpOpen} onOpenChange={setShortcutHelpOpen} shortcuts={shortcuts} />
+    </>
+  )
 
-      setLoading(false)
-
-      if (result.success && result.response.status === 'success') {
-        const triviaResponse = result.response as TriviaResponse
-        setResponse(triviaResponse)
-
-        // Check game state and update accordingly
-        if (triviaResponse.result.game_state === 'question') {
-          setGameState('question')
-        } else if (triviaResponse.result.game_state === 'game_over') {
-          setGameState('game_over')
-        } else if (triviaResponse.result.game_state === 'feedback') {
-          // In case agent returns feedback state, stay on feedback
-          setGameState('feedback')
-        }
-      } else {
-        setError(result.error || 'Failed to get next question')
-      }
-    } catch (err) {
-      setLoading(false)
-      setError('An error occurred while fetching the next question')
-      console.error('Next question error:', err)
-    }
+  // Review mode replays missed questions locally
+  if (reviewMode) {
+    return (
+      <ReviewSession
+        onExit={() => {
+          setReviewDeck(loadReviewDeck())
+          setReviewMode(false)
+        }}
+      />
+    )
   }
 
-  // Play again
-  const playAgain = () => {
-    setGameState('setup')
-    setResponse(null)
-    setSelectedAnswer(null)
-    setSessionId('')
+  // Online rooms run their own server-driven game
+  if (roomMode) {
+    return (
+      <TriviaRoom
+        settings={{ categories: roomCategories, difficulty, round_length: roundLength ?? 10, timed }}
+        onExit={() => setRoomMode(false)}
+      />
+    )
   }
 
   // Render setup screen
-  if (gameState === 'setup') {
+  if (screen === 'setup' && !streamingQuestion) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Header />
@@ -293,7 +418,7 @@ export default function Home() {
           <div className="w-full max-w-4xl">
             {/* Hero Section */}
             <div className="text-center mb-12">
-              <h2 className="text-5xl sm:text-6xl font-bold text-gray-900 mb-6 leading-tight">
+              <h2 ref={headingRef} tabIndex={-1} className="text-5xl sm:text-6xl font-bold text-gray-900 mb-6 leading-tight outline-none">
                 Welcome to Your Knowledge Assessment
               </h2>
               <p className="text-xl text-gray-600 max-w-2xl mx-auto leading-relaxed">
@@ -302,24 +427,59 @@ export default function Home() {
               </p>
             </div>
 
+            {game.savedGame && (
+              <SavedGamePrompt saved={game.savedGame} onResume={game.resumeGame} onDiscard={game.discardSavedGame} />
+            )}
+
             {/* Setup Card */}
             <Card className="border-gray-200 shadow-xl bg-white">
               <CardContent className="p-8 space-y-8">
-                {/* Category Selection */}
-                <div>
-                  <h3 className="text-amber-800 font-bold mb-5 text-xl">Select Category</h3>
-                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                    {(['Science', 'History', 'Geography', 'Entertainment', 'Sports'] as Category[]).map((cat) => (
-                      <CategoryCard
-                        key={cat}
-                        category={cat}
-                        selected={category === cat}
-                        onClick={() => setCategory(cat)}
-                      />
-                    ))}
+                {/* Document Quiz */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="document-quiz" className="text-gray-900 font-semibold">Quiz me on my documents</Label>
+                      <p className="text-gray-600 text-sm">Upload PDFs, DOCX or TXT files and get questions drawn from them.</p>
+                    </div>
+                    <Switch id="document-quiz" checked={documentQuiz} onCheckedChange={setDocumentQuiz} />
                   </div>
+                  {documentQuiz && (
+                    knowledgeBaseId ? (
+                      <>
+                        <KnowledgeBaseUpload
+                          ragId={knowledgeBaseId}
+                          selectedDocuments={selectedDocuments}
+                          onSelectionChange={setSelectedDocuments}
+                        />
+                        <p className="text-gray-600 text-sm">
+                          {selectedDocuments.length > 0
+                            ? `Questions will come from ${selectedDocuments.length} selected document${selectedDocuments.length === 1 ? '' : 's'}.`
+                            : 'Tick the documents to draw questions from.'}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-amber-800 text-sm p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                        Document quizzes need a knowledge base. Set VITE_TRIVIA_RAG_ID and VITE_LYZR_API_KEY to enable them.
+                      </p>
+                    )
+                  )}
                 </div>
 
+                {/* Category Selection */}
+                {!documentQuiz && (
+                  <div>
+                    <h3 className="text-amber-800 font-bold mb-5 text-xl">Select Categories</h3>
+                    <CategoryPicker
+                      customCategories={customCategories}
+                      onCustomCategoriesChange={setCustomCategories}
+                      selected={selectedCategoryIds}
+                      onSelectedChange={setSelectedCategoryIds}
+                      topic={topic}
+                      onTopicChange={setTopic}
+                    />
+                  </div>
+                )}
+
                 <Separator className="bg-gray-200" />
 
                 {/* Difficulty Selection */}
@@ -327,19 +487,88 @@ export default function Home() {
                   <h3 className="text-gray-900 font-bold mb-5 text-xl">Select Difficulty</h3>
                   <div className="flex gap-4 justify-center">
                     {(['Easy', 'Medium', 'Hard'] as Difficulty[]).map((diff) => (
-                      <DifficultyButton
+                      <ChoiceButton
                         key={diff}
-                        difficulty={diff}
+                        label={diff}
                         selected={difficulty === diff}
                         onClick={() => setDifficulty(diff)}
                       />
                     ))}
                   </div>
+                  <div className="flex items-center justify-between gap-4 mt-6">
+                    <div>
+                      <Label htmlFor="adaptive-mode" className="text-gray-900 font-semibold">Adaptive difficulty</Label>
+                      <p className="text-gray-600 text-sm">
+                        {hotSeat
+                          ? 'Not available in hot-seat games.'
+                          : `Start on ${difficulty}, move up after three right answers in a row and down after two misses.`}
+                      </p>
+                    </div>
+                    <Switch id="adaptive-mode" checked={adaptive && !hotSeat} onCheckedChange={setAdaptive} disabled={hotSeat} />
+                  </div>
+                </div>
+
+                <Separator className="bg-gray-200" />
+
+                {/* Round Length */}
+                <div>
+                  <h3 className="text-gray-900 font-bold mb-5 text-xl">Questions per Round</h3>
+                  <div className="flex flex-wrap gap-4 justify-center">
+                    {ROUND_LENGTHS.map((option) => (
+                      <ChoiceButton
+                        key={option.label}
+                        label={option.label}
+                        selected={roundLength === option.value}
+                        onClick={() => setRoundLength(option.value)}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                {/* Hot-Seat Players */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="hot-seat-mode" className="text-gray-900 font-semibold">Hot-seat multiplayer</Label>
+                      <p className="text-gray-600 text-sm">2-8 players take turns on this device. The round length applies to each player.</p>
+                    </div>
+                    <Switch id="hot-seat-mode" checked={hotSeat} onCheckedChange={setHotSeat} />
+                  </div>
+                  {hotSeat && <PlayerSetup names={playerNames} onChange={setPlayerNames} />}
+                </div>
+
+                {/* Timed Questions */}
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="timed-mode" className="text-gray-900 font-semibold">Timed questions</Label>
+                    <p className="text-gray-600 text-sm">
+                      {QUESTION_TIME_LIMITS_MS[difficulty] / 1000} seconds per question on {difficulty}. Fast correct answers earn bonus points.
+                    </p>
+                  </div>
+                  <Switch id="timed-mode" checked={timed} onCheckedChange={setTimed} />
+                </div>
+
+                <Separator className="bg-gray-200" />
+
+                {/* Question Source */}
+                <div>
+                  <h3 className="text-gray-900 font-bold mb-2 text-xl">Question Source</h3>
+                  <p className="text-gray-600 text-sm mb-5">{QUESTION_SOURCES.find(src => src.kind === sourceKind)?.description}</p>
+                  <div className="flex flex-wrap gap-4 justify-center">
+                    {QUESTION_SOURCES.map((src) => (
+                      <ChoiceButton
+                        key={src.kind}
+                        label={src.label}
+                        selected={sourceKind === src.kind}
+                        onClick={() => setSourceKind(src.kind)}
+                      />
+                    ))}
+                  </div>
                 </div>
 
                 <Button
                   onClick={startGame}
-                  disabled={loading}
+                  disabled={loading || isEmptySelection(topics)}
                   size="lg"
                   className="w-full bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white shadow-lg text-lg py-6"
                 >
@@ -356,6 +585,32 @@ export default function Home() {
                   )}
                 </Button>
 
+                <Button
+                  onClick={() => setRoomMode(true)}
+                  disabled={loading || roomCategories.length === 0}
+                  variant="outline"
+                  size="lg"
+                  className="w-full text-lg py-6"
+                >
+                  <Users className="mr-2 h-5 w-5" />
+                  Play Online with Friends
+                </Button>
+                <Button
+                  onClick={() => setReviewMode(true)}
+                  disabled={loading || dueReviews === 0}
+                  variant="outline"
+                  size="lg"
+                  className="w-full text-lg py-6"
+                >
+                  <BookOpen className="mr-2 h-5 w-5" />
+                  Review Missed Questions{dueReviews > 0 ? ` (${dueReviews} due)` : ''}
+                </Button>
+                {roomCategories.length === 0 && !isEmptySelection(topics) && (
+                  <p className="text-gray-600 text-sm text-center">
+                    Online rooms play from the built-in categories. Select at least one to play with friends.
+                  </p>
+                )}
+
                 {error && (
                   <div className="text-red-700 text-center p-3 bg-red-50 rounded-lg border border-red-200">
                     {error}
@@ -369,13 +624,15 @@ export default function Home() {
     )
   }
 
-  // Render question screen
-  if (gameState === 'question' && response?.result) {
-    const { question, score, commentary } = response.result
+  // Render question screen (also while the next question streams in)
+  if ((screen === 'question' && response?.result) || streamingQuestion) {
+    const question = streamingQuestion ?? response.result.question
+    const commentary = streamingQuestion ? null : response.result.commentary
+    const score = currentPlayer ? computePlayerScore(ledger, currentPlayer.id) : reconciliation.score
 
     return (
       <div className="min-h-screen bg-gray-50">
-        <Header />
+        <Header currentPlayer={currentPlayer?.name} />
 
         <div className="flex items-center justify-center px-4 py-8">
           <Card className="w-full max-w-3xl border-gray-200 shadow-xl bg-white">
@@ -387,6 +644,7 @@ export default function Home() {
                   <span className="text-gray-900 font-semibold">
                     Score: {score.correct}/{score.total}
                   </span>
+                  <span className="text-gray-500 text-sm">{score.points ?? 0} pts</span>
                 </div>
                 <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50 font-semibold">
                   {score.percentage}%
@@ -399,20 +657,41 @@ export default function Home() {
                 className="mb-4 bg-gray-200 [&>div]:bg-gradient-to-r [&>div]:from-red-500 [&>div]:to-rose-600"
               />
 
-              <CardTitle className="text-2xl text-gray-900 leading-relaxed">{question?.text}</CardTitle>
+              {players.length > 0 && (
+                <Leaderboard standings={rankPlayers(players, ledger)} activePlayerId={currentPlayer?.id} compact />
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-gray-500 text-sm font-medium">
+                  Question {ledger.length + 1}{totalQuestions !== null ? ` of ${totalQuestions}` : ''}
+                </p>
+                <DifficultyBadge difficulty={questionDifficulty} previous={settings.adaptive ? lastAnswer?.difficulty ?? null : null} />
+              </div>
+              {timer.limitMs !== null && timer.remainingMs !== null && (
+                <QuestionCountdown remainingMs={timer.remainingMs} limitMs={timer.limitMs} />
+              )}
+              <CardTitle ref={headingRef} tabIndex={-1} className="text-2xl text-gray-900 leading-relaxed outline-none">
+                {question?.text}
+              </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {/* Answer Options */}
+              {/* Answer Input */}
               <div className="space-y-3">
-                {question?.options.map((option, index) => (
-                  <AnswerOption
-                    key={index}
-                    option={option}
-                    selected={selectedAnswer === option}
+                {question && (
+                  <QuestionInput
+                    question={question}
+                    value={selectedAnswer}
+                    onChange={game.selectAnswer}
                     disabled={loading}
-                    onClick={() => setSelectedAnswer(option)}
+                    onSubmit={() => submitAnswer(answer)}
+                    shortcutHints
                   />
-                ))}
+                )}
+                {streamingQuestion && !streamingQuestion.options_complete && takesOptions(getQuestionType(streamingQuestion)) && (
+                  <div className="flex items-center gap-2 text-gray-500 text-sm">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading options...
+                  </div>
+                )}
               </div>
 
               {/* Commentary */}
@@ -426,8 +705,8 @@ export default function Home() {
               )}
 
               <Button
-                onClick={submitAnswer}
-                disabled={!selectedAnswer || loading}
+                onClick={() => submitAnswer(answer)}
+                disabled={!answer?.trim() || loading}
                 size="lg"
                 className="w-full bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white shadow-lg"
               >
@@ -441,11 +720,15 @@ export default function Home() {
                 )}
               </Button>
 
+              {cancelButton}
+
               {error && (
                 <div className="text-red-700 text-center p-3 bg-red-50 rounded-lg border border-red-200">
                   {error}
                 </div>
               )}
+
+              <div className="flex justify-center">{shortcutHelp}</div>
             </CardContent>
           </Card>
         </div>
@@ -454,11 +737,14 @@ export default function Home() {
   }
 
   // Render feedback screen
-  if (gameState === 'feedback' && response?.result) {
-    const { question, feedback, score, commentary } = response.result
-
-    // Safety check: if no feedback or score, something went wrong
-    if (!feedback || !score) {
+  if (screen === 'feedback' && response?.result) {
+    const { question, commentary } = response.result
+    const feedback = withCitation(response.result.feedback)
+    const score = answeringPlayer ? computePlayerScore(ledger, answeringPlayer.id) : reconciliation.score
+    const isCorrect = lastAnswer ? lastAnswer.is_correct : feedback?.is_correct
+
+    // Safety check: if no feedback, something went wrong
+    if (!feedback) {
       return (
         <div className="min-h-screen bg-gray-50">
           <Header />
@@ -485,6 +771,7 @@ export default function Home() {
                   <span className="text-gray-900 font-semibold">
                     Score: {score.correct}/{score.total}
                   </span>
+                  <span className="text-gray-500 text-sm">{score.points ?? 0} pts</span>
                 </div>
                 <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50 font-semibold">
                   {score.percentage}%
@@ -497,28 +784,41 @@ export default function Home() {
                 className="mb-4 bg-gray-200 [&>div]:bg-gradient-to-r [&>div]:from-red-500 [&>div]:to-rose-600"
               />
 
-              <CardTitle className="text-2xl text-gray-900 leading-relaxed">{question?.text}</CardTitle>
+              <CardTitle ref={headingRef} tabIndex={-1} className="text-2xl text-gray-900 leading-relaxed outline-none">
+                {question?.text}
+              </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
               {/* Feedback */}
               {feedback && (
                 <div>
                   <div className={`flex items-center gap-3 mb-4 p-4 rounded-lg shadow-md ${
-                    feedback.is_correct
+                    isCorrect
                       ? 'bg-green-50 border-2 border-green-400'
                       : 'bg-red-50 border-2 border-red-400'
                   }`}>
-                    {feedback.is_correct ? (
+                    {isCorrect ? (
                       <CheckCircle className="h-8 w-8 text-green-600 flex-shrink-0" />
                     ) : (
                       <XCircle className="h-8 w-8 text-red-600 flex-shrink-0" />
                     )}
                     <div>
                       <p className={`font-semibold text-lg ${
-                        feedback.is_correct ? 'text-green-800' : 'text-red-800'
+                        isCorrect ? 'text-green-800' : 'text-red-800'
                       }`}>
                         {feedback.message}
                       </p>
+                      {lastAnswer && lastAnswer.points > 0 && (
+                        <p className="flex items-center gap-1 text-green-700 text-sm mt-1">
+                          <Zap className="h-4 w-4" />
+                          +{lastAnswer.points} points{lastAnswer.bonus > 0 ? ` (includes ${lastAnswer.bonus} speed bonus)` : ''}
+                        </p>
+                      )}
+                      {lastAnswer?.verdict_mismatch && (
+                        <p className="text-gray-600 text-sm mt-1">
+                          Your answer was checked against the correct answer and scored as {isCorrect ? 'correct' : 'incorrect'}.
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -530,12 +830,14 @@ export default function Home() {
                 </div>
               )}
 
+              <ScoreDiscrepancyNotice reconciliation={reconciliation} />
+
               {/* Correct Answer */}
               {question && (
                 <div className="p-3 bg-gray-100 rounded-lg border border-gray-200">
                   <p className="text-gray-600 text-sm mb-1">Correct Answer:</p>
                   <p className="text-green-700 font-semibold">
-                    {question.options.find(opt => opt.startsWith(question.correct_answer))}
+                    {describeCorrectAnswer(question)}
                   </p>
                 </div>
               )}
@@ -561,16 +863,40 @@ export default function Home() {
                     <Loader2 className="mr-2 h-5 w-5 animate-spin" />
                     Loading...
                   </>
+                ) : roundComplete ? (
+                  'See Results'
                 ) : (
                   'Next Question'
                 )}
               </Button>
 
+              {cancelButton}
+
+              {currentPlayer && !roundComplete && (
+                <p className="text-center text-gray-600">
+                  Up next: <span className="font-semibold text-gray-900">{currentPlayer.name}</span>
+                </p>
+              )}
+
+              {settings.round_length === null && (
+                <Button
+                  onClick={endGame}
+                  disabled={loading}
+                  variant="outline"
+                  size="lg"
+                  className="w-full"
+                >
+                  End Game
+                </Button>
+              )}
+
               {error && (
                 <div className="text-red-700 text-center p-3 bg-red-50 rounded-lg border border-red-200">
                   {error}
                 </div>
               )}
+
+              <div className="flex justify-center">{shortcutHelp}</div>
             </CardContent>
           </Card>
         </div>
@@ -579,8 +905,9 @@ export default function Home() {
   }
 
   // Render game over screen
-  if (gameState === 'game_over' && response?.result) {
-    const { score, commentary } = response.result
+  if (screen === 'game_over' && response?.result) {
+    const { commentary } = response.result
+    const { score } = reconciliation
 
     let performanceMessage = ''
     let performanceColor = ''
@@ -604,6 +931,13 @@ export default function Home() {
       performanceBg = 'bg-gradient-to-br from-orange-50 to-red-50 border-orange-300'
     }
 
+    const standings = rankPlayers(players, ledger)
+    if (standings.length > 0) {
+      const winners = standings.filter(standing => standing.rank === 1).map(standing => standing.player.name)
+      performanceMessage = winners.length === 1 ? `${winners[0]} wins!` : `It's a tie between ${winners.join(' and ')}!`
+      performanceColor = 'text-amber-600'
+    }
+
     return (
       <div className="min-h-screen bg-gray-50">
         <Header />
@@ -614,20 +948,32 @@ export default function Home() {
               <div className="flex justify-center mb-4">
                 <Trophy className="h-16 w-16 text-amber-500" />
               </div>
-              <CardTitle className="text-4xl text-gray-900 mb-2">Game Over!</CardTitle>
+              <CardTitle ref={headingRef} tabIndex={-1} className="text-4xl text-gray-900 mb-2 outline-none">Game Over!</CardTitle>
               <CardDescription className={`text-2xl font-semibold ${performanceColor}`}>
                 {performanceMessage}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              {/* Final Score */}
-              <div className={`text-center p-8 ${performanceBg} rounded-xl border-2 shadow-lg`}>
-                <p className="text-gray-700 text-lg mb-2">Final Score</p>
-                <p className="text-6xl font-bold text-gray-900 mb-2">
-                  {score.correct}/{score.total}
-                </p>
-                <p className={`text-3xl font-bold ${performanceColor}`}>{score.percentage}%</p>
-              </div>
+              {/* Final Score / Leaderboard */}
+              {standings.length > 0 ? (
+                <div>
+                  <p className="text-gray-700 text-lg mb-3 text-center">Final Standings</p>
+                  <Leaderboard standings={standings} />
+                </div>
+              ) : (
+                <div className={`text-center p-8 ${performanceBg} rounded-xl border-2 shadow-lg`}>
+                  <p className="text-gray-700 text-lg mb-2">Final Score</p>
+                  <p className="text-6xl font-bold text-gray-900 mb-2">
+                    {score.correct}/{score.total}
+                  </p>
+                  <p className={`text-3xl font-bold ${performanceColor}`}>{score.percentage}%</p>
+                  <p className="text-gray-700 text-lg mt-2">{score.points ?? 0} points</p>
+                </div>
+              )}
+
+              <ScoreDiscrepancyNotice reconciliation={reconciliation} />
+
+              {settings.adaptive && <DifficultyCurve ledger={ledger} />}
 
               {/* Commentary */}
               {commentary && (
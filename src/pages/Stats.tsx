@@ -0,0 +1,257 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import Header from '@/components/Header'
+import {
+  loadGameHistory,
+  clearGameHistory,
+  computeCategoryStats,
+  computeAccuracyTrend,
+  findWeakestTopics,
+  type GameRecord,
+} from '@/lib/game-history'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { BarChart3, Play, Trash2, TrendingDown } from 'lucide-react'
+
+const categoryChartConfig = {
+  accuracy: { label: 'Accuracy %', color: '#e11d48' },
+} satisfies ChartConfig
+
+const trendChartConfig = {
+  accuracy: { label: 'Accuracy %', color: '#2563eb' },
+} satisfies ChartConfig
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+const formatSeconds = (ms: number | null) => (ms === null ? '-' : `${(ms / 1000).toFixed(1)}s`)
+
+// Headline numbers across every saved game
+function SummaryCards({ history }: { history: GameRecord[] }) {
+  const answered = history.reduce((sum, game) => sum + game.answers.length, 0)
+  const correct = history.reduce((sum, game) => sum + game.answers.filter(a => a.is_correct).length, 0)
+  const best = history.reduce((max, game) => Math.max(max, game.score.points ?? 0), 0)
+
+  const items = [
+    { label: 'Games played', value: history.length },
+    { label: 'Questions answered', value: answered },
+    { label: 'Overall accuracy', value: `${answered > 0 ? Math.round((correct / answered) * 100) : 0}%` },
+    { label: 'Best game', value: `${best} pts` },
+  ]
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {items.map((item) => (
+        <Card key={item.label} className="border-gray-200 bg-white">
+          <CardContent className="p-5">
+            <p className="text-gray-600 text-sm">{item.label}</p>
+            <p className="text-3xl font-bold text-gray-900">{item.value}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+export default function Stats() {
+  const [history, setHistory] = useState<GameRecord[]>(loadGameHistory)
+
+  const categoryStats = computeCategoryStats(history)
+  const trend = computeAccuracyTrend(history).map(point => ({ ...point, label: formatDate(point.date) }))
+  const weakest = findWeakestTopics(history)
+  const recent = [...history].reverse().slice(0, 10)
+
+  const handleClear = () => {
+    if (!confirm('Delete your entire game history?')) return
+    clearGameHistory()
+    setHistory([])
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="flex items-center justify-center px-4 py-20">
+          <Card className="w-full max-w-lg border-gray-200 shadow-xl bg-white text-center">
+            <CardHeader>
+              <div className="flex justify-center mb-2">
+                <BarChart3 className="h-12 w-12 text-gray-400" />
+              </div>
+              <CardTitle className="text-2xl text-gray-900">No games yet</CardTitle>
+              <CardDescription>Finish a round and your statistics will show up here.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="bg-gradient-to-r from-red-500 to-rose-600 text-white">
+                <Link to="/">
+                  <Play className="mr-2 h-4 w-4" />
+                  Play a game
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold text-gray-900">Your Statistics</h2>
+          <Button variant="outline" onClick={handleClear}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear history
+          </Button>
+        </div>
+
+        <SummaryCards history={history} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Accuracy per Category */}
+          <Card className="border-gray-200 bg-white">
+            <CardHeader>
+              <CardTitle className="text-gray-900">Accuracy by Category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={categoryChartConfig} className="h-64 w-full">
+                <BarChart data={categoryStats}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="category" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {/* Trend over time */}
+          <Card className="border-gray-200 bg-white">
+            <CardHeader>
+              <CardTitle className="text-gray-900">Accuracy Over Time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trendChartConfig} className="h-64 w-full">
+                <LineChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="accuracy" type="monotone" stroke="var(--color-accuracy)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Weakest Topics */}
+        <Card className="border-gray-200 bg-white">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-gray-900">
+              <TrendingDown className="h-5 w-5 text-red-500" />
+              Weakest Topics
+            </CardTitle>
+            <CardDescription>Category and difficulty combinations with the lowest accuracy</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {weakest.length === 0 ? (
+              <p className="text-gray-600 text-sm">Answer a few more questions to find your weak spots.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Difficulty</TableHead>
+                    <TableHead className="text-right">Answered</TableHead>
+                    <TableHead className="text-right">Accuracy</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {weakest.map((topic) => (
+                    <TableRow key={`${topic.category}-${topic.difficulty}`}>
+                      <TableCell className="font-medium">{topic.category}</TableCell>
+                      <TableCell>{topic.difficulty}</TableCell>
+                      <TableCell className="text-right">{topic.answered}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50">{topic.accuracy}%</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Category Breakdown */}
+        <Card className="border-gray-200 bg-white">
+          <CardHeader>
+            <CardTitle className="text-gray-900">Category Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Games</TableHead>
+                  <TableHead className="text-right">Correct</TableHead>
+                  <TableHead className="text-right">Accuracy</TableHead>
+                  <TableHead className="text-right">Avg. time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryStats.map((stats) => (
+                  <TableRow key={stats.category}>
+                    <TableCell className="font-medium">{stats.category}</TableCell>
+                    <TableCell className="text-right">{stats.games}</TableCell>
+                    <TableCell className="text-right">{stats.correct}/{stats.answered}</TableCell>
+                    <TableCell className="text-right">{stats.accuracy}%</TableCell>
+                    <TableCell className="text-right">{formatSeconds(stats.average_ms)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Recent Games */}
+        <Card className="border-gray-200 bg-white">
+          <CardHeader>
+            <CardTitle className="text-gray-900">Recent Games</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Difficulty</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recent.map((game) => (
+                  <TableRow key={game.id}>
+                    <TableCell>{formatDate(game.finished_at)}</TableCell>
+                    <TableCell>{game.category}</TableCell>
+                    <TableCell>{game.difficulty}</TableCell>
+                    <TableCell className="text-right">{game.score.correct}/{game.score.total}</TableCell>
+                    <TableCell className="text-right">{game.score.points ?? 0}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
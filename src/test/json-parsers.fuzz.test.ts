@@ -0,0 +1,134 @@
+/**
+ * Property-based tests for the JSON parser: valid JSON survives every
+ * wrapping an LLM puts around it, streamed JSON parses at every step, and no
+ * input makes it throw.
+ */
+
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import parseLLMJson from '@/utils/jsonParser'
+import { createIncrementalJSONParser, parseJSON } from '@/lib/json-parser'
+
+// =============================================================================
+// Arbitraries
+// =============================================================================
+
+// Keys parseLLMJson unwraps - objects using them at the top level are not returned as-is
+const UNWRAP_KEYS = ['raw_response', 'rawResponse', 'response', 'data', 'result', 'output', 'content', 'message', 'text', 'completion']
+
+/** JSON values normalized through a stringify round trip (so -0 becomes 0) */
+const jsonValue = fc.jsonValue().map(value => JSON.parse(JSON.stringify(value)))
+
+/** Top-level objects parseLLMJson returns unchanged */
+const plainObject = fc.dictionary(
+  fc.string().filter(key => !UNWRAP_KEYS.includes(key)),
+  jsonValue
+)
+
+/** Objects whose strings can't collide with the markup around them (fences, braces, quotes) */
+const simpleObject = fc.dictionary(
+  fc.stringMatching(/^[a-z_]{1,8}$/),
+  fc.oneof(
+    fc.stringMatching(/^[a-zA-Z0-9 ]{0,12}$/),
+    fc.integer(),
+    fc.boolean(),
+    fc.constant(null),
+    fc.array(fc.integer(), { maxLength: 4 })
+  ),
+  { minKeys: 1 }
+).filter(value => !Object.keys(value).some(key => UNWRAP_KEYS.includes(key)))
+
+/** Prose that contains no JSON of its own */
+const prose = fc.stringMatching(/^[a-zA-Z ,.!]{0,40}$/)
+
+// =============================================================================
+// Properties
+// =============================================================================
+
+describe('JSON parser properties', () => {
+  it('parseLLMJson returns any plain JSON object unchanged', () => {
+    fc.assert(fc.property(plainObject, (value) => {
+      expect(parseLLMJson(JSON.stringify(value))).toEqual(value)
+    }))
+  })
+
+  it('parseJSON parses any JSON value directly', () => {
+    fc.assert(fc.property(jsonValue, (value) => {
+      const result = parseJSON(JSON.stringify(value))
+      expect(result.success).toBe(true)
+      expect(result.strategy).toBe('direct')
+      expect(result.data).toEqual(value)
+    }))
+  })
+
+  it('both parsers find an object in a json code fence surrounded by prose', () => {
+    fc.assert(fc.property(simpleObject, prose, prose, (value, before, after) => {
+      const input = `${before}\n\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\`\n${after}`
+      expect(parseLLMJson(input)).toEqual(value)
+      expect(parseJSON(input)).toMatchObject({ success: true, strategy: 'extracted', data: value })
+    }))
+  })
+
+  it('both parsers remove trailing commas', () => {
+    fc.assert(fc.property(simpleObject, (value) => {
+      const input = JSON.stringify(value).replace(/([\]}])/g, ',$1')
+      expect(parseLLMJson(input)).toEqual(value)
+      expect(parseJSON(input)).toMatchObject({ success: true, strategy: 'cleaned', data: value })
+    }))
+  })
+
+  it('parseLLMJson decodes double-encoded JSON', () => {
+    fc.assert(fc.property(simpleObject, (value) => {
+      expect(parseLLMJson(JSON.stringify(JSON.stringify(value)))).toEqual(value)
+    }))
+  })
+
+  it('parseLLMJson unwraps agent responses nested in raw_response', () => {
+    fc.assert(fc.property(simpleObject, (result) => {
+      const agentResponse = { status: 'success', result }
+      const input = JSON.stringify({ raw_response: JSON.stringify(agentResponse), session_id: 's1' })
+      expect(parseLLMJson(input)).toEqual(agentResponse)
+    }))
+  })
+
+  it('streamed JSON parses after every chunk and exactly at the end', () => {
+    fc.assert(fc.property(fc.array(simpleObject, { maxLength: 3 }), fc.array(fc.nat(), { maxLength: 8 }), (items, cuts) => {
+      const value = { items }
+      const json = JSON.stringify(value)
+      const points = [...new Set(cuts.map(cut => cut % json.length))].sort((a, b) => a - b)
+      const parser = createIncrementalJSONParser()
+      let last = 0
+      for (const point of points) {
+        const result = parser.push(json.slice(last, point))
+        last = point
+        if (point > 0) expect(result.success).toBe(true)
+      }
+      const done = parser.push(json.slice(last))
+      expect(done).toMatchObject({ success: true, strategy: 'direct', data: value })
+    }))
+  })
+
+  it('neither parser throws on arbitrary text', () => {
+    fc.assert(fc.property(fc.string({ maxLength: 200 }), (input) => {
+      expect(() => parseLLMJson(input)).not.toThrow()
+      expect(typeof parseJSON(input).strategy).toBe('string')
+    }))
+  })
+
+  it('neither parser throws on truncated JSON', () => {
+    fc.assert(fc.property(jsonValue, fc.nat(), (value, cut) => {
+      const json = JSON.stringify(value)
+      const input = json.slice(0, cut % (json.length + 1))
+      expect(() => parseLLMJson(input)).not.toThrow()
+      expect(typeof parseJSON(input).strategy).toBe('string')
+    }))
+  })
+
+  it('allowPartial recovers every prefix of an object or array', () => {
+    fc.assert(fc.property(fc.oneof(plainObject, fc.array(jsonValue)), fc.nat(), (value, cut) => {
+      const json = JSON.stringify(value)
+      const input = json.slice(0, 1 + cut % json.length)
+      expect(parseJSON(input, { allowPartial: true, recoverPairs: false }).success).toBe(true)
+    }))
+  })
+})
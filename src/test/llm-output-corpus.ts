@@ -0,0 +1,226 @@
+/**
+ * LLM Output Corpus
+ *
+ * Malformed (and a few well-formed) agent outputs seen in the wild, with what
+ * the JSON parser (src/lib/json-parser.ts) makes of them.
+ *
+ * `parsed` is the strategy and data parseJSON reports (no data when it
+ * fails). `llm` is the data parseLLMResponse unwraps it to, or FAILS.
+ */
+
+import type { ParseStrategy } from '@/lib/json-parser'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const FAILS = Symbol('fails')
+
+export interface CorpusCase {
+  name: string
+  input: string
+  llm: unknown
+  parsed: { strategy: ParseStrategy; data?: unknown }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const question = {
+  status: 'success',
+  result: {
+    game_state: 'question',
+    question: { text: 'Which planet is known as the Red Planet?', options: ['A) Jupiter', 'B) Mars', 'C) Venus', 'D) Saturn'] },
+  },
+}
+
+const questionJson = JSON.stringify(question, null, 2)
+
+// =============================================================================
+// Corpus
+// =============================================================================
+
+export const LLM_OUTPUT_CORPUS: CorpusCase[] = [
+  // --- Well-formed ---
+  {
+    name: 'plain object',
+    input: '{"a":1}',
+    llm: { a: 1 },
+    parsed: { strategy: 'direct', data: { a: 1 } },
+  },
+  {
+    name: 'top-level array',
+    input: '[1, 2, 3]',
+    llm: [1, 2, 3],
+    parsed: { strategy: 'direct', data: [1, 2, 3] },
+  },
+  {
+    name: 'pretty-printed agent response',
+    input: questionJson,
+    llm: question,
+    parsed: { strategy: 'direct', data: question },
+  },
+  {
+    name: 'byte order mark',
+    input: '﻿{"a":1}',
+    llm: { a: 1 },
+    parsed: { strategy: 'direct', data: { a: 1 } },
+  },
+
+  // --- Code fences ---
+  {
+    name: 'json fence with prose around it',
+    input: `Here is the next question:\n\`\`\`json\n${questionJson}\n\`\`\`\nGood luck!`,
+    llm: question,
+    parsed: { strategy: 'extracted', data: question },
+  },
+  {
+    name: 'fence without a language',
+    input: '```\n{"a":1}\n```',
+    llm: { a: 1 },
+    parsed: { strategy: 'extracted', data: { a: 1 } },
+  },
+  {
+    name: 'upper-case JSON fence',
+    input: '```JSON\n{"a":1}\n```',
+    llm: { a: 1 },
+    parsed: { strategy: 'extracted', data: { a: 1 } },
+  },
+  {
+    name: 'fence with trailing commas',
+    input: '```json\n{"a":1,"b":[1,2,],}\n```',
+    llm: { a: 1, b: [1, 2] },
+    parsed: { strategy: 'extracted_cleaned', data: { a: 1, b: [1, 2] } },
+  },
+
+  // --- Repairs ---
+  {
+    name: 'trailing commas',
+    input: '{"a":1,"b":[1,2,],}',
+    llm: { a: 1, b: [1, 2] },
+    parsed: { strategy: 'cleaned', data: { a: 1, b: [1, 2] } },
+  },
+  {
+    name: 'control character in a string',
+    input: '{"a":"x\u0001y"}',
+    llm: { a: 'xy' },
+    parsed: { strategy: 'cleaned', data: { a: 'xy' } },
+  },
+  {
+    name: 'single quotes',
+    input: "{'a': 'b'}",
+    llm: { a: 'b' },
+    parsed: { strategy: 'cleaned', data: { a: 'b' } },
+  },
+  {
+    name: 'unquoted keys',
+    input: '{a: 1, b: "x"}',
+    llm: { a: 1, b: 'x' },
+    parsed: { strategy: 'cleaned', data: { a: 1, b: 'x' } },
+  },
+  {
+    name: 'Python literals',
+    input: '{"a": True, "b": None}',
+    llm: { a: true, b: null },
+    parsed: { strategy: 'cleaned', data: { a: true, b: null } },
+  },
+  {
+    name: 'line comment',
+    input: '{"a":1 // the answer\n}',
+    llm: { a: 1 },
+    parsed: { strategy: 'cleaned', data: { a: 1 } },
+  },
+  {
+    name: 'smart quotes',
+    input: '{“a”: “b”}',
+    llm: { a: 'b' },
+    parsed: { strategy: 'cleaned', data: { a: 'b' } },
+  },
+
+  // --- Surrounding text and multiple blocks ---
+  {
+    name: 'object inside prose',
+    input: 'Sure! {"a":{"b":2}} Hope that helps.',
+    llm: { a: { b: 2 } },
+    parsed: { strategy: 'extracted', data: { a: { b: 2 } } },
+  },
+  {
+    name: 'closing brace inside a string',
+    input: 'Result: {"a":"}"} done',
+    llm: { a: '}' },
+    parsed: { strategy: 'extracted', data: { a: '}' } },
+  },
+  {
+    name: 'two fenced blocks',
+    input: '```json\n{"a":1}\n```\nor maybe\n```json\n{"b":2}\n```',
+    llm: { a: 1 },
+    parsed: { strategy: 'extracted', data: { a: 1 } },
+  },
+  {
+    name: 'two inline objects',
+    input: 'first {"a":1} then {"b":2,"c":3}',
+    llm: { a: 1 },
+    parsed: { strategy: 'extracted', data: { a: 1 } },
+  },
+
+  // --- Nested and double-encoded responses ---
+  {
+    name: 'raw_response string wrapper',
+    input: JSON.stringify({ raw_response: JSON.stringify(question) }),
+    llm: question,
+    parsed: { strategy: 'direct', data: { raw_response: JSON.stringify(question) } },
+  },
+  {
+    name: 'response string wrapper',
+    input: JSON.stringify({ response: JSON.stringify(question), session_id: 's1' }),
+    llm: question,
+    parsed: { strategy: 'direct', data: { response: JSON.stringify(question), session_id: 's1' } },
+  },
+  {
+    name: 'fenced reply inside a response wrapper',
+    input: JSON.stringify({ response: `\`\`\`json\n${questionJson}\n\`\`\`` }),
+    llm: question,
+    parsed: { strategy: 'direct', data: { response: `\`\`\`json\n${questionJson}\n\`\`\`` } },
+  },
+  {
+    name: 'double-encoded JSON string',
+    input: JSON.stringify(JSON.stringify({ a: 1 })),
+    llm: { a: 1 },
+    parsed: { strategy: 'direct', data: '{"a":1}' },
+  },
+  {
+    name: 'agent response is not unwrapped further',
+    input: '{"status":"success","result":{"response":"{\\"x\\":1}"}}',
+    llm: { status: 'success', result: { response: '{"x":1}' } },
+    parsed: { strategy: 'direct', data: { status: 'success', result: { response: '{"x":1}' } } },
+  },
+
+  // --- Truncated output ---
+  {
+    name: 'truncated mid-string',
+    input: '{"status":"success","result":{"question":"Wha',
+    llm: FAILS,
+    parsed: { strategy: 'partial_recovery', data: { status: 'success' } },
+  },
+  {
+    name: 'truncated mid-array',
+    input: '{"a":[1,2',
+    llm: FAILS,
+    parsed: { strategy: 'raw_fallback' },
+  },
+  {
+    name: 'key-value fragments without braces',
+    input: 'status: "x", "a": 1, "b": "two"',
+    llm: FAILS,
+    parsed: { strategy: 'partial_recovery', data: { a: 1, b: 'two' } },
+  },
+
+  // --- No JSON at all ---
+  {
+    name: 'plain prose',
+    input: 'I could not come up with a question this time.',
+    llm: FAILS,
+    parsed: { strategy: 'raw_fallback' },
+  },
+]
@@ -0,0 +1,173 @@
+/**
+ * Stub Agent
+ *
+ * Points the agent transport at an in-process mock agent
+ * (server/mock-agent.ts) so component tests play real games with no network,
+ * and lets a test make single turns misbehave: a hand-written reply, an edited
+ * reply or an HTTP error.
+ *
+ * An override applies to the next turn - the first request that arrives and
+ * its follow-ups: the regular request made when streaming fails, and
+ * correction prompts that repeat the original one.
+ *
+ * @example
+ * ```tsx
+ * const stub = installStubAgent()
+ * stub.failNext(500, { error: 'Agent overloaded' })
+ * // ...start a game and assert the error banner
+ * stub.restore()
+ * ```
+ */
+
+import { createMockAgent, type MockAgentOptions, type MockAgentRequest } from '../../server/mock-agent'
+import { configureTransport, getAgentEndpoint, resetTransport } from '@/lib/agent-transport'
+import { getRequestPolicy, setRequestPolicy } from '@/utils/aiAgent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Respond = (request: MockAgentRequest, reply: () => Promise<string>) => Promise<Response>
+
+interface Override {
+  respond: Respond
+  /** Prompt of the turn the override is bound to, once its first request arrives */
+  message: string | null
+  /** Whether the turn's last request went to the stream endpoint */
+  streamed: boolean
+}
+
+export interface StubAgent {
+  /** Every chat and stream request, in order */
+  requests: MockAgentRequest[]
+  /** Answer the next turn with this reply text */
+  replyNext: (reply: string) => void
+  /** Answer the next turn with the mock agent's reply, edited */
+  editNext: (edit: (response: any) => any) => void
+  /** Fail the next turn with an HTTP error */
+  failNext: (status: number, body?: unknown) => void
+  /** Hold the next turn's reply until the returned function is called */
+  holdNext: () => () => void
+  restore: () => void
+}
+
+const STREAM_CHUNK_SIZE = 40
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function chatResponse(request: MockAgentRequest, reply: string): Response {
+  return new Response(JSON.stringify({ response: reply, session_id: request.session_id, agent_id: request.agent_id }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function streamResponse(reply: string): Response {
+  let body = ''
+  for (let i = 0; i < reply.length; i += STREAM_CHUNK_SIZE) {
+    body += `${reply.slice(i, i + STREAM_CHUNK_SIZE).split('\n').map(line => `data: ${line}`).join('\n')}\n\n`
+  }
+  return new Response(`${body}data: [DONE]\n\n`, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  })
+}
+
+// =============================================================================
+// Stub Agent
+// =============================================================================
+
+/**
+ * Route agent requests to a mock agent until restore() is called. Request
+ * retries are turned off so error turns fail at once.
+ */
+export function installStubAgent(options: MockAgentOptions = {}): StubAgent {
+  const agent = createMockAgent(options)
+  const requests: MockAgentRequest[] = []
+  const overrides: Override[] = []
+  const previousPolicy = getRequestPolicy()
+
+  const takeOverride = (message: string, streaming: boolean): Override | null => {
+    while (overrides.length > 0) {
+      const override = overrides[0]
+      const followUp = override.message === null
+        || (message === override.message ? override.streamed && !streaming : message.startsWith(override.message))
+      if (followUp) {
+        override.message ??= message
+        override.streamed = streaming
+        return override
+      }
+      overrides.shift()
+    }
+    return null
+  }
+
+  const stubFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = String(input instanceof Request ? input.url : input)
+    const streaming = url === getAgentEndpoint('stream')
+    if (!streaming && url !== getAgentEndpoint('chat')) {
+      return new Response(JSON.stringify({ error: `No stub for ${url}` }), { status: 404 })
+    }
+
+    const request: MockAgentRequest = JSON.parse(String(init?.body ?? '{}'))
+    requests.push(request)
+
+    const reply = () => agent.respond(request)
+    const send = async (text: string) => (streaming ? streamResponse(text) : chatResponse(request, text))
+    const override = takeOverride(request.message, streaming)
+    if (!override) return send(await reply())
+
+    return override.respond(request, reply).then(async (response) => {
+      // Replies written as plain text go out in the endpoint's own format
+      if (response.headers.get('Content-Type') === 'text/plain') return send(await response.text())
+      return response
+    })
+  }
+
+  configureTransport({ apiKey: 'test-key', fetch: stubFetch as typeof fetch })
+  setRequestPolicy({ maxRetries: 0 })
+
+  const text = (reply: string) => new Response(reply, { status: 200, headers: { 'Content-Type': 'text/plain' } })
+
+  return {
+    requests,
+    replyNext: (reply) => {
+      overrides.push({ message: null, streamed: false, respond: async () => text(reply) })
+    },
+    editNext: (edit) => {
+      overrides.push({
+        message: null,
+        streamed: false,
+        respond: async (_request, reply) => text(JSON.stringify(edit(JSON.parse(await reply())))),
+      })
+    },
+    failNext: (status, body = { error: `Stub agent error ${status}` }) => {
+      overrides.push({
+        message: null,
+        streamed: false,
+        respond: async () => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }),
+      })
+    },
+    holdNext: () => {
+      let release!: () => void
+      const held = new Promise<void>((resolve) => {
+        release = resolve
+      })
+      overrides.push({
+        message: null,
+        streamed: false,
+        respond: async (_request, reply) => {
+          await held
+          return text(await reply())
+        },
+      })
+      return release
+    },
+    restore: () => {
+      resetTransport()
+      setRequestPolicy(previousPolicy)
+    },
+  }
+}
@@ -1,5 +1,7 @@
 // Common TypeScript types for your application
 
+import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+
 export interface User {
   id: string
   name: string
@@ -19,6 +21,69 @@ export interface AppConfig {
   theme: Theme
 }
 
+// =============================================================================
+// Trivia Game Types
+// =============================================================================
+
+/**
+ * Kinds of question; each has a schema variant in response_schemas/question_types
+ */
+export type QuestionType = 'multiple_choice' | 'true_false' | 'multi_select' | 'free_text' | 'numeric' | 'ordering'
+
+/**
+ * Trivia question as returned by the Trivia Host Agent.
+ * Shapes follow response_schemas/trivia_host_agent_response.json
+ */
+export interface Question {
+  /** multiple_choice when left out */
+  type?: QuestionType
+  text: string
+  /** Choices, or the items to put in order; empty for free_text and numeric */
+  options: string[]
+  /** Option letter(s), answer text or number, depending on the type (see src/lib/question-types.ts) */
+  correct_answer: string
+  /** Other answers that also count (free_text) */
+  accepted_answers?: string[]
+  /** Largest distance from correct_answer still counted as correct (numeric) */
+  tolerance?: number
+  /** Unit shown next to the answer (numeric) */
+  unit?: string
+}
+
+export interface Feedback {
+  is_correct: boolean
+  message: string
+  explanation: string
+  /** Uploaded document the question was drawn from (knowledge-base games) */
+  source_document?: string | null
+}
+
+export interface Score {
+  correct: number
+  total: number
+  percentage: number
+  /** Points including speed bonuses (computed locally, not sent by the agent) */
+  points?: number
+}
+
+export interface TriviaResult {
+  game_state: string
+  question: Question | null
+  feedback: Feedback | null
+  score: Score
+  commentary: string
+}
+
+export interface TriviaResponse extends NormalizedAgentResponse {
+  result: TriviaResult
+}
+
+export type GameState = 'setup' | 'question' | 'feedback' | 'game_over'
+export type BuiltInCategory = 'Science' | 'History' | 'Geography' | 'Entertainment' | 'Sports'
+/** A built-in category, a custom category name or a label for a mixed/free-form round */
+export type Category = BuiltInCategory | string
+export type Difficulty = 'Easy' | 'Medium' | 'Hard'
+
 // =============================================================================
 // SSE Event Types for Lyra Chat
 // =============================================================================
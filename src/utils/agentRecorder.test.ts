@@ -0,0 +1,176 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  parseFixture,
+  serializeFixture,
+  startRecording,
+  startReplay,
+  stopRecording,
+  stopReplay,
+  type AgentFixture,
+} from '@/utils/agentRecorder'
+import { callAIAgent, getRequestPolicy, setRequestPolicy, type RequestPolicy } from '@/utils/aiAgent'
+import { configureTransport, resetTransport } from '@/lib/agent-transport'
+import { createMockAgent, loadRecordings } from '../../server/mock-agent'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const AGENT_ID = 'agent-1'
+
+const reply = (game_state: string, text: string) => JSON.stringify({ status: 'success', result: { game_state, text } })
+
+/** Conversation the stub agent plays, in order */
+const CONVERSATION = [
+  { message: 'Start', raw_response: reply('question', 'first') },
+  { message: 'Next question please', raw_response: reply('question', 'second') },
+  { message: 'Next question please', raw_response: reply('question', 'third') },
+]
+
+/** Transport that answers each request with the next reply, failing once the script runs out */
+function stubAgent(replies: string[]) {
+  const fetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const next = replies.shift()
+    return next === undefined
+      ? new Response('Bad gateway', { status: 502 })
+      : new Response(JSON.stringify({ response: next }), { status: 200 })
+  })
+  configureTransport({ apiKey: 'test-key', fetch: fetch as typeof globalThis.fetch })
+  return fetch
+}
+
+/** Play the conversation (plus one failed request) against the stub agent while recording */
+async function record(): Promise<AgentFixture> {
+  stubAgent(CONVERSATION.map(exchange => exchange.raw_response))
+  startRecording('round-trip')
+  for (const { message } of CONVERSATION) await callAIAgent(message, AGENT_ID)
+  await callAIAgent('Next question please', AGENT_ID)
+  return stopRecording()!
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+let previousPolicy: RequestPolicy
+
+beforeEach(() => {
+  previousPolicy = getRequestPolicy()
+  setRequestPolicy({ maxRetries: 0, timeoutMs: 1000 })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  stopRecording()
+  stopReplay()
+  resetTransport()
+  setRequestPolicy(previousPolicy)
+  vi.restoreAllMocks()
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('recording', () => {
+  it('captures every exchange made through callAIAgent', async () => {
+    const fixture = await record()
+    expect(fixture).toMatchObject({ version: 1, name: 'round-trip' })
+    expect(fixture.exchanges.map(({ message, raw_response, success }) => ({ message, raw_response, success }))).toEqual([
+      // raw_response is the reply body exactly as received
+      ...CONVERSATION.map(({ message, raw_response }) => ({ message, raw_response: JSON.stringify({ response: raw_response }), success: true })),
+      { message: 'Next question please', raw_response: 'Bad gateway', success: false },
+    ])
+    fixture.exchanges.forEach(exchange => expect(exchange).toMatchObject({
+      agent_id: AGENT_ID,
+      session_id: expect.any(String),
+      started_at: expect.any(String),
+      duration_ms: expect.any(Number),
+    }))
+  })
+
+  it('records nothing once stopped', async () => {
+    startRecording('stopped')
+    expect(stopRecording()!.exchanges).toEqual([])
+    stubAgent([reply('question', 'unrecorded')])
+    await callAIAgent('Start', AGENT_ID)
+    expect(stopRecording()).toBeNull()
+  })
+})
+
+describe('fixture files', () => {
+  it('parse what serializeFixture writes', async () => {
+    const fixture = await record()
+    expect(parseFixture(serializeFixture(fixture))).toEqual(fixture)
+  })
+
+  it('reject files that are not fixtures', () => {
+    expect(() => parseFixture('{"raw_response": "x"}')).toThrow('Not an agent fixture')
+    expect(() => parseFixture('{"version": 2, "exchanges": []}')).toThrow('Unsupported agent fixture version 2')
+    expect(() => parseFixture('{"version": 1, "exchanges": [{"message": "Start"}]}')).toThrow(
+      'Invalid agent fixture: exchanges[0] needs a message and agent_id'
+    )
+  })
+})
+
+describe('replay', () => {
+  it('answers from the fixture in recorded order without sending requests', async () => {
+    startReplay(parseFixture(serializeFixture(await record())))
+    const fetch = stubAgent([])
+
+    const texts = []
+    for (const message of ['Start', 'Next question please', 'Next question please']) {
+      texts.push((await callAIAgent(message, AGENT_ID)).response.result.text)
+    }
+    expect(texts).toEqual(['first', 'second', 'third'])
+    expect((await callAIAgent('Next question please', AGENT_ID)).success).toBe(false)
+    expect(await callAIAgent('Hello', AGENT_ID)).toMatchObject({ success: false, error: 'No recorded response for: Hello' })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('sends unmatched requests to the network when not strict', async () => {
+    startReplay(await record(), { strict: false })
+    const fetch = stubAgent([reply('question', 'live')])
+    expect((await callAIAgent('Hello', AGENT_ID)).response.result.text).toBe('live')
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('mock agent replay of a saved fixture', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-fixture-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('loads the successful exchanges and serves them back in recorded order', async () => {
+    const fixture = await record()
+    writeFileSync(join(dir, 'round-trip.json'), serializeFixture(fixture))
+
+    const recordings = loadRecordings(dir)
+    expect(recordings).toEqual(fixture.exchanges.filter(exchange => exchange.success).map(({ message, raw_response }) => ({ message, raw_response })))
+
+    // Answer requests the way the mock agent server does
+    const agent = createMockAgent({ mode: 'replay', recordings })
+    configureTransport({
+      fetch: (async (_input: RequestInfo | URL, init: RequestInit = {}) => {
+        const reply = await agent.respond(JSON.parse(String(init.body)))
+        return new Response(JSON.stringify({ response: reply }), { status: 200 })
+      }) as typeof fetch,
+    })
+
+    const texts = []
+    for (const message of ['Start', 'Next question please', 'Next question please', 'Next question please']) {
+      texts.push((await callAIAgent(message, AGENT_ID)).response.result.text)
+    }
+    expect(texts).toEqual(['first', 'second', 'third', 'third'])
+  })
+})
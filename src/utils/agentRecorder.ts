@@ -0,0 +1,192 @@
+/**
+ * Agent Recorder
+ *
+ * Record-and-replay for agent conversations. While recording, every exchange
+ * made through callAIAgent / streamAIAgent (message, session, raw_response,
+ * timing) is captured into a fixture. Replaying a fixture answers the same
+ * requests from the recorded raw_response instead of the network, so odd
+ * agent output goes through the real parsing and normalization again,
+ * deterministically. The mock agent server can serve fixtures too
+ * (MOCK_AGENT_MODE=replay).
+ *
+ * @example
+ * ```tsx
+ * startRecording('feedback-without-explanation')
+ * // ...play until the problem shows up
+ * downloadFixture(stopRecording())
+ *
+ * startReplay(parseFixture(json))
+ * const result = await callAIAgent('Next question please', agentId) // served from the fixture
+ * ```
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const FIXTURE_VERSION = 1
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One request/response pair
+ */
+export interface AgentExchange {
+  message: string
+  agent_id: string
+  session_id: string
+  user_id?: string
+  /** Reply text exactly as received (AIAgentResponse.raw_response) */
+  raw_response: string | null
+  success: boolean
+  error?: string
+  /** Whether the reply came from the streaming endpoint */
+  streamed?: boolean
+  /** When the request was sent (ISO) */
+  started_at: string
+  duration_ms: number
+}
+
+export interface AgentFixture {
+  version: number
+  name: string
+  recorded_at: string
+  exchanges: AgentExchange[]
+}
+
+export interface ReplayOptions {
+  /** Fail requests the fixture has no answer for instead of sending them (default true) */
+  strict?: boolean
+}
+
+interface ReplayState {
+  fixture: AgentFixture
+  strict: boolean
+  /** Times each request has been answered, keyed by agent + message */
+  served: Map<string, number>
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+let recording: AgentFixture | null = null
+let replay: ReplayState | null = null
+
+function exchangeKey(agent_id: string, message: string): string {
+  return `${agent_id}\n${message}`
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Start capturing exchanges into a new fixture (discarding any unsaved one)
+ */
+export function startRecording(name = `agent-conversation-${Date.now()}`): void {
+  recording = { version: FIXTURE_VERSION, name, recorded_at: new Date().toISOString(), exchanges: [] }
+}
+
+/**
+ * Stop recording and return the fixture, or null if nothing was recording
+ */
+export function stopRecording(): AgentFixture | null {
+  const fixture = recording
+  recording = null
+  return fixture
+}
+
+export function isRecording(): boolean {
+  return recording !== null
+}
+
+/**
+ * Add an exchange to the current recording (no-op when not recording)
+ */
+export function recordExchange(exchange: AgentExchange): void {
+  recording?.exchanges.push(exchange)
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+export function startReplay(fixture: AgentFixture, options: ReplayOptions = {}): void {
+  replay = { fixture, strict: options.strict ?? true, served: new Map() }
+}
+
+export function stopReplay(): void {
+  replay = null
+}
+
+export function isReplaying(): boolean {
+  return replay !== null
+}
+
+/**
+ * Recorded answer for a request while replaying. Identical requests are
+ * answered in the order they were recorded (the last answer repeats once they
+ * run out); session ids are ignored because they change on every run.
+ *
+ * Returns null when the request should go to the network: no replay is
+ * active, or replay isn't strict and nothing matches. `exchange` is null when
+ * strict replay has no answer.
+ */
+export function takeReplayedExchange(agent_id: string, message: string): { exchange: AgentExchange | null } | null {
+  if (!replay) return null
+
+  const key = exchangeKey(agent_id, message)
+  const matches = replay.fixture.exchanges.filter(exchange => exchangeKey(exchange.agent_id, exchange.message) === key)
+  if (matches.length === 0) {
+    console.warn(`[AgentRecorder] No recorded response for: ${message.slice(0, 80)}`)
+    return replay.strict ? { exchange: null } : null
+  }
+
+  const served = replay.served.get(key) ?? 0
+  replay.served.set(key, served + 1)
+  return { exchange: matches[Math.min(served, matches.length - 1)] }
+}
+
+// =============================================================================
+// Fixture Files
+// =============================================================================
+
+export function serializeFixture(fixture: AgentFixture): string {
+  return JSON.stringify(fixture, null, 2)
+}
+
+/**
+ * Parse a fixture file, throwing if it isn't one
+ */
+export function parseFixture(json: string): AgentFixture {
+  const data = JSON.parse(json)
+  if (!data || !Array.isArray(data.exchanges)) {
+    throw new Error('Not an agent fixture: expected an "exchanges" array')
+  }
+  if (data.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported agent fixture version ${data.version}`)
+  }
+  const invalid = data.exchanges.findIndex((exchange: any) =>
+    typeof exchange?.message !== 'string' || typeof exchange?.agent_id !== 'string'
+  )
+  if (invalid !== -1) {
+    throw new Error(`Invalid agent fixture: exchanges[${invalid}] needs a message and agent_id`)
+  }
+  return data as AgentFixture
+}
+
+/**
+ * Save a fixture as a .json download (browser only)
+ */
+export function downloadFixture(fixture: AgentFixture | null): void {
+  if (!fixture) return
+  const url = URL.createObjectURL(new Blob([serializeFixture(fixture)], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${fixture.name}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,302 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { callAIAgent, getRequestPolicy, setRequestPolicy, streamAIAgent, type RequestPolicy } from '@/utils/aiAgent'
+import { configureTransport, getAgentEndpoint, resetTransport } from '@/lib/agent-transport'
+import { createResponseValidator } from '@/utils/responseSchema'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const AGENT_ID = 'agent-1'
+const REPLY = JSON.stringify({ status: 'success', result: { game_state: 'question' } })
+
+const encoder = new TextEncoder()
+
+type Respond = (url: string, init: RequestInit) => Response | Promise<Response>
+
+/** Route every request through `respond`, recording the URLs in order */
+function stubFetch(respond: Respond): string[] {
+  const urls: string[] = []
+  configureTransport({
+    apiKey: 'test-key',
+    fetch: (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      urls.push(String(input))
+      return respond(String(input), init)
+    }) as typeof fetch,
+  })
+  return urls
+}
+
+const chatReply = (reply = REPLY) => new Response(JSON.stringify({ response: reply }), { status: 200 })
+
+/**
+ * SSE response that sends `chunks` and then ends, fails or stays open. Like
+ * a real fetch body, it errors once the request is aborted.
+ */
+function sseReply(init: RequestInit, chunks: string[], end: 'done' | 'error' | 'stall' = 'done'): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(`data: ${chunk}\n\n`)))
+      if (end === 'done') controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+      if (end === 'error') controller.error(new Error('Connection reset'))
+      init.signal?.addEventListener('abort', () => controller.error(new Error('The operation was aborted')))
+      if (end === 'done') controller.close()
+    },
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+let previousPolicy: RequestPolicy
+
+beforeEach(() => {
+  previousPolicy = getRequestPolicy()
+  setRequestPolicy({ maxRetries: 0, timeoutMs: 1000 })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  resetTransport()
+  setRequestPolicy(previousPolicy)
+  vi.restoreAllMocks()
+})
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('streamAIAgent', () => {
+  it('resolves to the streamed reply', async () => {
+    const urls = stubFetch((_url, init) => sseReply(init, [REPLY.slice(0, 20), REPLY.slice(20)]))
+    const onText = vi.fn()
+
+    const result = await streamAIAgent('Next question please', AGENT_ID, { onText })
+    expect(result.success).toBe(true)
+    expect(result.response.result.game_state).toBe('question')
+    expect(onText).toHaveBeenLastCalledWith(REPLY.slice(20), REPLY)
+    expect(urls).toEqual([getAgentEndpoint('stream')])
+  })
+
+  it('falls back to a regular request when the stream endpoint rejects the request', async () => {
+    const urls = stubFetch(url => (url === getAgentEndpoint('stream') ? new Response('Not found', { status: 404 }) : chatReply()))
+
+    const result = await streamAIAgent('Next question please', AGENT_ID)
+    expect(result.success).toBe(true)
+    expect(urls).toEqual([getAgentEndpoint('stream'), getAgentEndpoint('chat')])
+  })
+
+  it('reports an accepted stream that fails instead of sending the message again', async () => {
+    const urls = stubFetch((_url, init) => sseReply(init, ['{"status": "succ'], 'error'))
+
+    const result = await streamAIAgent('My answer is: B', AGENT_ID)
+    expect(result).toMatchObject({ success: false, error: 'Connection reset' })
+    expect(urls).toEqual([getAgentEndpoint('stream')])
+  })
+
+  it('reports an accepted stream that stalls before any text', async () => {
+    const urls = stubFetch((_url, init) => sseReply(init, [], 'stall'))
+
+    const result = await streamAIAgent('Next question please', AGENT_ID, { policy: { timeoutMs: 20 } })
+    expect(result).toMatchObject({ success: false, error: 'Stream stalled for 20ms' })
+    expect(urls).toEqual([getAgentEndpoint('stream')])
+  })
+
+  it('reports an accepted stream that ends without text', async () => {
+    const urls = stubFetch((_url, init) => sseReply(init, []))
+
+    const result = await streamAIAgent('Next question please', AGENT_ID)
+    expect(result).toMatchObject({ success: false, error: 'Stream ended without a response' })
+    expect(urls).toEqual([getAgentEndpoint('stream')])
+  })
+
+  it('returns an aborted result without falling back', async () => {
+    const controller = new AbortController()
+    const urls = stubFetch((_url, init) => {
+      queueMicrotask(() => controller.abort())
+      return sseReply(init, [], 'stall')
+    })
+
+    const result = await streamAIAgent('Next question please', AGENT_ID, { signal: controller.signal })
+    expect(result).toMatchObject({ success: false, aborted: true })
+    expect(urls).toEqual([getAgentEndpoint('stream')])
+  })
+})
+
+describe('callAIAgent', () => {
+  it('resolves to the agent reply', async () => {
+    stubFetch(() => chatReply())
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID)
+    expect(result.success).toBe(true)
+    expect(result.response.result.game_state).toBe('question')
+  })
+})
+
+describe('callAIAgent schema validation', () => {
+  const validator = createResponseValidator({ response_schema: { status: 'string', result: { game_state: 'string' } } }, { name: 'turn' })
+  const INVALID = JSON.stringify({ status: 'success', result: { game_state: 7 } })
+
+  /** Reply with each text in turn, recording the prompts sent */
+  const replies = (...texts: string[]) => {
+    const prompts: string[] = []
+    stubFetch((_url, init) => {
+      prompts.push(JSON.parse(String(init.body)).message)
+      return chatReply(texts[Math.min(prompts.length - 1, texts.length - 1)])
+    })
+    return prompts
+  }
+
+  it('re-asks once with the violations listed and returns the corrected reply', async () => {
+    const prompts = replies(INVALID, REPLY)
+
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { validate: validator })
+    expect(result.success).toBe(true)
+    expect(prompts).toHaveLength(2)
+    expect(prompts[1]).toMatch(/^Start a new trivia game\.\n\nYour previous reply did not match the required JSON response schema:\n- \$\.result\.game_state: expected string, got number\n/)
+  })
+
+  it('reports the violations once the retries run out', async () => {
+    const prompts = replies(INVALID)
+
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { validate: validator })
+    expect(prompts).toHaveLength(2)
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Agent response failed schema validation (turn): $.result.game_state: expected string, got number',
+      schema_errors: [{ path: '$.result.game_state', expected: 'string', received: 'number' }],
+    })
+    expect(result.response.status).toBe('error')
+  })
+
+  it('follows maxSchemaRetries', async () => {
+    const prompts = replies(INVALID)
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { validate: validator, maxSchemaRetries: 0 })
+    expect(result.success).toBe(false)
+    expect(prompts).toHaveLength(1)
+  })
+
+  it('does not validate error replies', async () => {
+    const prompts = replies(JSON.stringify({ status: 'error', result: {}, message: 'Out of questions' }))
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { validate: validator })
+    expect(result.schema_errors).toBeUndefined()
+    expect(prompts).toHaveLength(1)
+  })
+})
+
+describe('request policy', () => {
+  const POLICY = { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 1000, timeoutMs: 1000 }
+
+  /** Reply with each status in turn, then with the agent reply */
+  const statuses = (codes: number[], headers: Record<string, string> = {}) => {
+    const queue = [...codes]
+    return stubFetch(() => {
+      const status = queue.shift()
+      return status ? new Response('{}', { status, headers }) : chatReply()
+    })
+  }
+
+  /** Delays announced by the retry warnings, in ms */
+  const retryDelays = () =>
+    vi.mocked(console.warn).mock.calls
+      .map(([message]) => String(message).match(/retrying in (\d+)ms/)?.[1])
+      .filter(Boolean)
+      .map(Number)
+
+  /** fetch that never answers but rejects once the request is aborted, like the real one */
+  const hangingFetch = () =>
+    stubFetch((_url, init) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')))
+    }))
+
+  beforeEach(() => {
+    // Full jitter at its ceiling, so delays are the capped exponential backoff
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+  })
+
+  it('retries 5xx and 429 responses with exponential backoff', async () => {
+    const urls = statuses([500, 503, 429])
+
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: POLICY })
+    expect(result.success).toBe(true)
+    expect(urls).toHaveLength(4)
+    expect(retryDelays()).toEqual([10, 20, 40])
+  })
+
+  it('caps the backoff at maxDelayMs', async () => {
+    statuses([500, 500, 500])
+    await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: { ...POLICY, baseDelayMs: 20, maxDelayMs: 30 } })
+    expect(retryDelays()).toEqual([20, 30, 30])
+  })
+
+  it('does not retry other errors', async () => {
+    const urls = statuses([400])
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: POLICY })
+    expect(result.success).toBe(false)
+    expect(urls).toHaveLength(1)
+  })
+
+  it('returns the last error response once retries run out', async () => {
+    const urls = statuses([503, 503, 503])
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: { ...POLICY, maxRetries: 2 } })
+    expect(result.success).toBe(false)
+    expect(urls).toHaveLength(3)
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    statuses([429], { 'Retry-After': '0.05' })
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: POLICY })
+    expect(result.success).toBe(true)
+    expect(retryDelays()).toEqual([50])
+  })
+
+  it('reads Retry-After as an HTTP date', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.parse('2026-01-28T07:40:00Z') })
+    statuses([503], { 'Retry-After': 'Wed, 28 Jan 2026 07:40:00 GMT' })
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: POLICY })
+    vi.useRealTimers()
+    expect(result.success).toBe(true)
+    expect(retryDelays()).toEqual([0])
+  })
+
+  it('cuts a Retry-After longer than maxDelayMs down to maxDelayMs and retries', async () => {
+    const urls = statuses([429], { 'Retry-After': '30' })
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: { ...POLICY, maxDelayMs: 20 } })
+    expect(result.success).toBe(true)
+    expect(urls).toHaveLength(2)
+    expect(retryDelays()).toEqual([20])
+  })
+
+  it('times out each attempt and retries', async () => {
+    const urls = hangingFetch()
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { policy: { ...POLICY, maxRetries: 1, timeoutMs: 20 } })
+    expect(result).toMatchObject({ success: false, error: 'Request timed out after 20ms' })
+    expect(urls).toHaveLength(2)
+  })
+
+  it('stops at once when aborted mid-request', async () => {
+    const controller = new AbortController()
+    const urls = hangingFetch()
+    const pending = callAIAgent('Start a new trivia game.', AGENT_ID, { signal: controller.signal, policy: POLICY })
+    controller.abort()
+
+    expect(await pending).toMatchObject({ success: false, aborted: true, error: 'Request aborted' })
+    expect(urls).toHaveLength(1)
+  })
+
+  it('stops waiting for a retry when aborted', async () => {
+    const controller = new AbortController()
+    const urls = stubFetch(() => {
+      setTimeout(() => controller.abort(), 10)
+      return new Response('{}', { status: 503 })
+    })
+    const started = Date.now()
+
+    const result = await callAIAgent('Start a new trivia game.', AGENT_ID, { signal: controller.signal, policy: { ...POLICY, baseDelayMs: 5000, maxDelayMs: 5000 } })
+    expect(result).toMatchObject({ success: false, aborted: true })
+    expect(urls).toHaveLength(1)
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+})
@@ -31,15 +31,28 @@
  * ```
  */
 
-import parseLLMJson from '@/utils/jsonParser'
+import { getAgentEndpoint, isTransportConfigured, transportFetch } from '@/lib/agent-transport'
+import { parseLLMResponse } from '@/lib/json-parser'
+import { createSSEStreamParser, getEventMessage, parseSSEEvent, type RawSSEMessage } from '@/lib/event-parser'
+import { formatSchemaError, type ResponseValidator, type SchemaValidationError } from '@/utils/responseSchema'
+import { isRecording, isReplaying, recordExchange, takeReplayedExchange } from '@/utils/agentRecorder'
+import type { SSEEvent } from '@/types'
 import React from 'react'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+// Endpoints and the API key come from the transport layer (see agent-transport.ts)
+
+const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+}
+
+let requestPolicy: RequestPolicy = { ...DEFAULT_REQUEST_POLICY }
 
 // =============================================================================
 // Types - UI can rely on these!
@@ -86,6 +99,42 @@ export interface AIAgentResponse {
   error?: string
   /** Additional error details */
   details?: string
+  /** Schema violations when `validate` was passed and the response never matched */
+  schema_errors?: SchemaValidationError[]
+  /** True when the caller's abort signal cancelled the request */
+  aborted?: boolean
+}
+
+/**
+ * Timeout and retry policy for agent requests
+ */
+export interface RequestPolicy {
+  /** Abort an attempt that takes longer than this (0 disables the timeout) */
+  timeoutMs: number
+  /** Extra attempts after a 5xx, 429, timeout or network error */
+  maxRetries: number
+  /** Backoff before the first retry; doubles on each retry, with full jitter */
+  baseDelayMs: number
+  /** Longest wait between attempts; a longer Retry-After is cut down to this */
+  maxDelayMs: number
+}
+
+/**
+ * Options for callAIAgent
+ */
+export interface CallAIAgentOptions {
+  user_id?: string
+  session_id?: string
+  /** Asset IDs from uploadFiles */
+  assets?: string[]
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal
+  /** Per-call overrides of the global request policy */
+  policy?: Partial<RequestPolicy>
+  /** Validate successful responses against a schema (see responseSchema.ts) */
+  validate?: ResponseValidator
+  /** Times to re-ask the agent after a schema violation (default 1) */
+  maxSchemaRetries?: number
 }
 
 // =============================================================================
@@ -190,12 +239,308 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
 // Main API Function
 // =============================================================================
 
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, policy: RequestPolicy): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
+/**
+ * POST and read the body, applying the timeout and retry policy. Throws on
+ * network errors and timeouts once retries run out, and as soon as `signal`
+ * aborts.
+ */
+async function fetchWithPolicy(
+  url: string,
+  init: RequestInit,
+  policy: RequestPolicy,
+  signal?: AbortSignal
+): Promise<{ response: Response; rawText: string }> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new Error('Request aborted')
+
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort)
+    let timedOut = false
+    const timer = policy.timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, policy.timeoutMs)
+      : null
+
+    let delay: number
+    try {
+      const response = await transportFetch(url, { ...init, signal: controller.signal })
+      const rawText = await response.text()
+      if (!isRetryableStatus(response.status) || attempt >= policy.maxRetries) return { response, rawText }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      delay = retryAfter === null ? backoffDelay(attempt, policy) : Math.min(retryAfter, policy.maxDelayMs)
+      console.warn(`[AIAgent] API returned status ${response.status}, retrying in ${Math.round(delay)}ms`)
+    } catch (error) {
+      if (signal?.aborted) throw new Error('Request aborted')
+      const failure = timedOut ? new Error(`Request timed out after ${policy.timeoutMs}ms`) : error
+      if (attempt >= policy.maxRetries) throw failure
+      delay = backoffDelay(attempt, policy)
+      console.warn(`[AIAgent] ${failure instanceof Error ? failure.message : failure}, retrying in ${Math.round(delay)}ms`)
+    } finally {
+      if (timer) clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+    }
+
+    await sleep(delay, signal)
+  }
+}
+
+/**
+ * Correction appended to the prompt when a response violates the schema
+ */
+function buildSchemaCorrection(message: string, errors: SchemaValidationError[]): string {
+  const problems = errors.map(error => `- ${formatSchemaError(error)}`).join('\n')
+  return `${message}\n\nYour previous reply did not match the required JSON response schema:\n${problems}\n`
+    + 'Reply again with valid JSON that matches the schema exactly.'
+}
+
+/**
+ * Parse and normalize the body of a successful agent call
+ */
+function parseAgentResponse(
+  rawText: string,
+  ids: { agent_id: string; user_id: string; session_id: string }
+): AIAgentResponse {
+  const parsed = parseLLMResponse(rawText)
+
+  if (!parsed.success) {
+    const errorMsg = 'No valid JSON found in the response'
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: errorMsg
+      },
+      error: errorMsg,
+      raw_response: rawText,
+    }
+  }
+
+  // Normalize to guaranteed structure
+  const normalized = normalizeResponse(parsed.data)
+
+  return {
+    success: true,
+    response: normalized,
+    ...ids,
+    timestamp: new Date().toISOString(),
+    raw_response: rawText,
+  }
+}
+
+/**
+ * Failed result for a response that never matched the schema
+ */
+function schemaFailure(
+  result: AIAgentResponse,
+  validator: ResponseValidator,
+  errors: SchemaValidationError[]
+): AIAgentResponse {
+  const errorMsg = `Agent response failed schema validation (${validator.name}): ${errors.map(formatSchemaError).join('; ')}`
+  return {
+    ...result,
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    schema_errors: errors,
+  }
+}
+
+/**
+ * Add a finished request to the fixture being recorded, if any (see agentRecorder.ts)
+ */
+function recordRequest(
+  message: string,
+  ids: { agent_id: string; user_id: string; session_id: string },
+  started: number,
+  outcome: { raw_response: string | null; success: boolean; error?: string; streamed?: boolean }
+) {
+  if (!isRecording()) return
+  recordExchange({
+    message,
+    ...ids,
+    ...outcome,
+    started_at: new Date(started).toISOString(),
+    duration_ms: Date.now() - started,
+  })
+}
+
+/**
+ * Answer a request from the fixture being replayed. Recorded replies go
+ * through the normal parsing, recorded failures come back as errors.
+ */
+function replayRequest(
+  message: string,
+  ids: { agent_id: string; user_id: string; session_id: string }
+): AIAgentResponse | null {
+  const replayed = takeReplayedExchange(ids.agent_id, message)
+  if (!replayed) return null
+
+  const { exchange } = replayed
+  if (exchange?.success && exchange.raw_response !== null) return parseAgentResponse(exchange.raw_response, ids)
+
+  const errorMsg = exchange
+    ? exchange.error || 'Recorded request failed'
+    : `No recorded response for: ${message.slice(0, 80)}`
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    raw_response: exchange?.raw_response ?? undefined,
+  }
+}
+
+/**
+ * Single request to the agent API, normalized
+ */
+async function requestAgent(
+  message: string,
+  agent_id: string,
+  user_id: string,
+  session_id: string,
+  options: { assets?: string[]; signal?: AbortSignal; policy: RequestPolicy }
+): Promise<AIAgentResponse> {
+  const { assets, signal, policy } = options
+  const ids = { agent_id, user_id, session_id }
+
+  const replayed = replayRequest(message, ids)
+  if (replayed) return replayed
+  const started = Date.now()
+
+  // Build request payload
+  const payload: Record<string, any> = {
+    message,
+    agent_id,
+    user_id,
+    session_id,
+  }
+
+  // Add assets if provided (file attachments from uploadFiles)
+  if (assets && assets.length > 0) {
+    payload.assets = assets
+  }
+
+  try {
+    const { response, rawText } = await fetchWithPolicy(getAgentEndpoint('chat'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    }, policy, signal)
+
+    if (response.ok) {
+      recordRequest(message, ids, started, { raw_response: rawText, success: true })
+      return parseAgentResponse(rawText, ids)
+    } else {
+      // API error
+      const errorData = parseLLMResponse(rawText, { unwrap: false })
+      const errorMsg = (errorData.success && (errorData.data?.error || errorData.data?.message))
+        || `API returned status ${response.status}`
+
+      recordRequest(message, ids, started, { raw_response: rawText, success: false, error: errorMsg })
+      return {
+        success: false,
+        response: {
+          status: 'error',
+          result: {},
+          message: errorMsg
+        },
+        error: errorMsg,
+        raw_response: rawText,
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Network error'
+    if (!signal?.aborted) recordRequest(message, ids, started, { raw_response: null, success: false, error: errorMsg })
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: errorMsg
+      },
+      error: errorMsg,
+      details: error instanceof Error ? error.stack : String(error),
+      ...(signal?.aborted ? { aborted: true } : {}),
+    }
+  }
+}
+
+/**
+ * Change the default request policy for every later callAIAgent call
+ *
+ * @example
+ * ```tsx
+ * setRequestPolicy({ timeoutMs: 60000, maxRetries: 3 })
+ * ```
+ */
+export function setRequestPolicy(policy: Partial<RequestPolicy>): RequestPolicy {
+  requestPolicy = { ...requestPolicy, ...policy }
+  return requestPolicy
+}
+
+export function getRequestPolicy(): RequestPolicy {
+  return { ...requestPolicy }
+}
+
 /**
  * Call the AI Agent with a message and agent_id
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required)
- * @param options - Optional user_id, session_id, and assets (file attachments)
+ * @param options - Optional user_id, session_id, assets (file attachments), abort
+ *   signal, request policy and response validator. Timeouts, 5xx, 429 and network
+ *   errors are retried with backoff per the policy (see setRequestPolicy). With
+ *   `validate`, a response that violates the schema is re-requested in the same
+ *   session with the violations listed, up to `maxSchemaRetries` times, before
+ *   failing with `schema_errors`.
  * @returns Promise with normalized AI agent response
  *
  * @example
@@ -209,6 +554,18 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *   assets: uploadResult.asset_ids
  * })
  *
+ * // Cancellable, with a shorter timeout
+ * const controller = new AbortController()
+ * const result = await callAIAgent('Next question please', 'your-agent-id', {
+ *   signal: controller.signal,
+ *   policy: { timeoutMs: 10000 }
+ * })
+ *
+ * // Strict schema validation (retries once on violation)
+ * const result = await callAIAgent('Start a game', 'your-agent-id', {
+ *   validate: triviaHostResponseValidator
+ * })
+ *
  * if (result.success) {
  *   console.log(result.response.status)  // "success"
  *   console.log(result.response.result)  // { ...agent's data }
@@ -218,98 +575,226 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: CallAIAgentOptions
 ): Promise<AIAgentResponse> {
   const user_id = options?.user_id || `user-${generateUUID()}`
   const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  const validator = options?.validate
+  const maxRetries = options?.maxSchemaRetries ?? 1
+  const request = {
+    assets: options?.assets,
+    signal: options?.signal,
+    policy: { ...requestPolicy, ...options?.policy },
+  }
 
-  // Build request payload
-  const payload: Record<string, any> = {
-    message,
-    agent_id,
-    user_id,
-    session_id,
+  let prompt = message
+  for (let attempt = 0; ; attempt++) {
+    const result = await requestAgent(prompt, agent_id, user_id, session_id, request)
+    if (!validator || !result.success || result.response.status !== 'success') return result
+
+    const { valid, errors } = validator.validate(result.response)
+    if (valid) return result
+
+    console.warn(`[AIAgent] Response failed ${validator.name} validation:`, errors.map(formatSchemaError))
+    if (attempt >= maxRetries) return schemaFailure(result, validator, errors)
+    prompt = buildSchemaCorrection(message, errors)
   }
+}
 
-  // Add assets if provided (file attachments from uploadFiles)
-  if (options?.assets && options.assets.length > 0) {
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Options for streamAIAgent
+ */
+export interface StreamAIAgentOptions extends CallAIAgentOptions {
+  /** Called for every text chunk with the full text received so far */
+  onText?: (delta: string, text: string) => void
+  /** Called for progress events such as chat_started, chat_progress or tool_use */
+  onEvent?: (event: SSEEvent) => void
+}
+
+type StreamItem = { text: string } | { event: SSEEvent } | { done: true } | null
+
+const STREAM_FAILURE_EVENTS = ['chat_failed', 'error']
+
+/**
+ * Interpret one SSE message from the stream endpoint. Data is either a raw
+ * text chunk, a JSON chunk ({ content | delta | chunk }) or a progress event.
+ */
+function readStreamMessage(message: RawSSEMessage, request_id: string): StreamItem {
+  if (message.data === '[DONE]') return { done: true }
+
+  if (message.data.trimStart().startsWith('{')) {
+    try {
+      const payload = JSON.parse(message.data)
+      const delta = payload.content ?? payload.delta ?? payload.chunk
+      if (typeof delta === 'string') return { text: delta }
+      if (payload.type || message.event !== 'message') {
+        const parsed = parseSSEEvent(message.event, message.data, request_id)
+        return parsed.event ? { event: parsed.event } : null
+      }
+    } catch {
+      // Not JSON on its own - a text chunk that happens to start with "{"
+    }
+  }
+
+  return { text: message.data }
+}
+
+/**
+ * Streaming variant of callAIAgent. Reads the agent's reply from the SSE
+ * stream endpoint, reporting text chunks and progress events as they arrive,
+ * and resolves to the same normalized AIAgentResponse once the stream ends.
+ *
+ * The policy timeout applies to the gap between chunks. If the stream endpoint
+ * rejects the request (an error status or no body), the call falls back to
+ * callAIAgent. Once the stream is accepted the agent may already be acting on
+ * the message, so a stream that fails, stalls or ends empty is reported as an
+ * error rather than sent again. A schema violation (with `validate`) is
+ * corrected through callAIAgent.
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent('Next question please', 'your-agent-id', {
+ *   session_id,
+ *   onText: (_delta, text) => setPartialText(text),
+ *   onEvent: (event) => console.log(getEventMessage(event)),
+ * })
+ * ```
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options: StreamAIAgentOptions = {}
+): Promise<AIAgentResponse> {
+  const user_id = options.user_id || `user-${generateUUID()}`
+  const session_id = options.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  const { signal, onText, onEvent, validate: validator } = options
+  const policy = { ...requestPolicy, ...options.policy }
+  const fallback = () => callAIAgent(message, agent_id, { ...options, user_id, session_id })
+  const ids = { agent_id, user_id, session_id }
+
+  // A replayed fixture answers through callAIAgent, delivering the reply as one chunk
+  if (isReplaying()) {
+    const result = await fallback()
+    if (result.raw_response) onText?.(result.raw_response, result.raw_response)
+    return result
+  }
+
+  const payload: Record<string, any> = { message, agent_id, user_id, session_id }
+  if (options.assets && options.assets.length > 0) {
     payload.assets = options.assets
   }
 
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  signal?.addEventListener('abort', abort)
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  // Idle timeout, restarted whenever a chunk arrives
+  const resetTimer = () => {
+    if (timer) clearTimeout(timer)
+    if (policy.timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, policy.timeoutMs)
+    }
+  }
+
+  let text = ''
+  // Set when the stream endpoint turned the request away, so nothing reached the agent
+  let rejected = false
+  const started = Date.now()
   try {
-    const response = await fetch(LYZR_API_URL, {
+    if (signal?.aborted) throw new Error('Request aborted')
+    resetTimer()
+    const response = await transportFetch(getAgentEndpoint('stream'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(payload),
+      signal: controller.signal,
     })
+    if (!response.ok || !response.body) {
+      rejected = true
+      throw new Error(`Stream returned status ${response.status}`)
+    }
 
-    const rawText = await response.text()
-
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check for parser error
-      if (parsed?.success === false && parsed?.error) {
-        return {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error
-          },
-          error: parsed.error,
-          raw_response: rawText,
-        }
-      }
-
-      // Normalize to guaranteed structure
-      const normalized = normalizeResponse(parsed)
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    const parser = createSSEStreamParser()
+    let failure: string | null = null
 
-      return {
-        success: true,
-        response: normalized,
-        agent_id,
-        user_id,
-        session_id,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
-      }
-    } else {
-      // API error
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
+    read: for (;;) {
+      const { done, value } = await reader.read()
+      resetTimer()
+      const messages = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }))
 
-      return {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg
-        },
-        error: errorMsg,
-        raw_response: rawText,
+      for (const item of messages.map(msg => readStreamMessage(msg, session_id))) {
+        if (!item) continue
+        if ('done' in item) break read
+        if ('event' in item) {
+          onEvent?.(item.event)
+          if (STREAM_FAILURE_EVENTS.includes(item.event.type)) {
+            failure = getEventMessage(item.event)
+            break read
+          }
+          continue
+        }
+        text += item.text
+        onText?.(item.text, text)
       }
+      if (done) break
     }
+    reader.cancel().catch(() => undefined)
+    if (failure) throw new Error(failure)
+    if (!text) throw new Error('Stream ended without a response')
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Network error'
+    const errorMsg = timedOut
+      ? `Stream stalled for ${policy.timeoutMs}ms`
+      : error instanceof Error ? error.message : 'Network error'
+    if (!signal?.aborted && rejected) {
+      console.warn(`[AIAgent] Streaming unavailable (${errorMsg}), falling back to a regular request`)
+      return fallback()
+    }
+    if (!signal?.aborted) recordRequest(message, ids, started, { raw_response: text, success: false, error: errorMsg, streamed: true })
     return {
       success: false,
       response: {
         status: 'error',
         result: {},
-        message: errorMsg
+        message: signal?.aborted ? 'Request aborted' : errorMsg
       },
-      error: errorMsg,
+      error: signal?.aborted ? 'Request aborted' : errorMsg,
+      raw_response: text || undefined,
       details: error instanceof Error ? error.stack : String(error),
+      ...(signal?.aborted ? { aborted: true } : {}),
     }
+  } finally {
+    if (timer) clearTimeout(timer)
+    signal?.removeEventListener('abort', abort)
   }
+
+  recordRequest(message, ids, started, { raw_response: text, success: true, streamed: true })
+  const result = parseAgentResponse(text, ids)
+  if (!validator || !result.success || result.response.status !== 'success') return result
+
+  const { valid, errors } = validator.validate(result.response)
+  if (valid) return result
+
+  console.warn(`[AIAgent] Streamed response failed ${validator.name} validation:`, errors.map(formatSchemaError))
+  const maxRetries = options.maxSchemaRetries ?? 1
+  if (maxRetries <= 0) return schemaFailure(result, validator, errors)
+  return callAIAgent(buildSchemaCorrection(message, errors), agent_id, {
+    ...options,
+    user_id,
+    session_id,
+    maxSchemaRetries: maxRetries - 1,
+  })
 }
 
 // =============================================================================
@@ -352,7 +837,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: CallAIAgentOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -379,6 +864,100 @@ export function useAIAgent() {
   }
 }
 
+/**
+ * React hook for streaming agent calls. `partialText` grows as chunks arrive
+ * and `events` collects progress events. A new call cancels the previous one.
+ *
+ * @example
+ * ```tsx
+ * function StreamingAnswer() {
+ *   const { streamAgent, cancel, loading, partialText, events } = useAIAgentStream()
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => streamAgent('Tell me a story', 'agent-id')}>Ask AI</button>
+ *       {loading && <button onClick={cancel}>Stop</button>}
+ *       {events.length > 0 && <p>{getEventMessage(events[events.length - 1])}</p>}
+ *       <pre>{partialText}</pre>
+ *     </div>
+ *   )
+ * }
+ * ```
+ */
+export function useAIAgentStream() {
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [response, setResponse] = React.useState<NormalizedAgentResponse | null>(null)
+  const [partialText, setPartialText] = React.useState('')
+  const [events, setEvents] = React.useState<SSEEvent[]>([])
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  const cancel = () => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setLoading(false)
+  }
+
+  const streamAgent = async (
+    message: string,
+    agent_id: string,
+    options?: StreamAIAgentOptions
+  ) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const abort = () => controller.abort()
+    options?.signal?.addEventListener('abort', abort, { once: true })
+
+    setLoading(true)
+    setError(null)
+    setResponse(null)
+    setPartialText('')
+    setEvents([])
+
+    let result: AIAgentResponse
+    try {
+      result = await streamAIAgent(message, agent_id, {
+        ...options,
+        signal: controller.signal,
+        onText: (delta, text) => {
+          setPartialText(text)
+          options?.onText?.(delta, text)
+        },
+        onEvent: (event) => {
+          setEvents(prev => [...prev, event])
+          options?.onEvent?.(event)
+        },
+      })
+    } finally {
+      options?.signal?.removeEventListener('abort', abort)
+    }
+
+    // A newer call (or cancel) owns the state now
+    if (result.aborted) return result
+
+    if (result.success) {
+      setResponse(result.response)
+    } else {
+      setError(result.error || 'Unknown error')
+      setResponse(result.response)
+    }
+
+    setLoading(false)
+    return result
+  }
+
+  return {
+    streamAgent,
+    cancel,
+    loading,
+    error,
+    response,
+    partialText,
+    events,
+  }
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -439,8 +1018,6 @@ export async function generateDocs(code: string, agent_id: string): Promise<stri
 // File Upload API
 // =============================================================================
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-
 /**
  * Upload result for a single file
  */
@@ -516,7 +1093,7 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
     }
   }
 
-  if (!LYZR_API_KEY) {
+  if (!isTransportConfigured()) {
     return {
       success: false,
       asset_ids: [],
@@ -536,12 +1113,9 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
       formData.append('files', file, file.name)
     }
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
+    // Don't set Content-Type - let fetch set it with boundary for multipart
+    const response = await transportFetch(getAgentEndpoint('upload'), {
       method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-        // Don't set Content-Type - let fetch set it with boundary for multipart
-      },
       body: formData,
     })
 
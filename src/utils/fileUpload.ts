@@ -17,13 +17,8 @@
  * const response = await callAIAgent('What is in this image?', 'your-agent-id')
  */
 
-import parseLLMJson from '@/utils/jsonParser'
-
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
-// API Key from environment variable
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+import { parseLLMResponse } from '@/lib/json-parser'
+import { getAgentEndpoint, transportFetch } from '@/lib/agent-transport'
 
 export interface UploadedAsset {
   success: boolean
@@ -155,11 +150,10 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
 
   // Call Lyzr Agent API directly with assets
   try {
-    const response = await fetch(LYZR_API_URL, {
+    const response = await transportFetch(getAgentEndpoint('chat'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify({
         message,
@@ -173,17 +167,17 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
     const rawText = await response.text()
 
     if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
+      const result = parseLLMResponse(rawText)
 
       // Check if parsing failed
-      if (parsed?.success === false || parsed?.error) {
+      if (!result.success || result.data?.error) {
         return {
           success: false,
-          error: parsed?.error || 'Failed to parse agent response',
+          error: result.data?.error || 'Failed to parse agent response',
           raw_response: rawText,
         }
       }
+      const parsed = result.data
 
       // The parsed data should be the agent's response object:
       // { status: "success", result: {...}, message: "..." }
@@ -199,12 +193,8 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
       }
     } else {
       // Try to parse error response
-      let errorData: any = { error: 'Unknown error' }
-      try {
-        errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-      } catch {
-        errorData = { error: rawText || `API returned status ${response.status}` }
-      }
+      const result = parseLLMResponse(rawText, { unwrap: false })
+      const errorData = result.success ? result.data : { error: rawText || `API returned status ${response.status}` }
 
       return {
         success: false,
@@ -0,0 +1,111 @@
+import { readFileSync } from 'node:fs'
+import { afterEach, describe, expect, it } from 'vitest'
+import parseLLMJson from '@/utils/jsonParser'
+import { callAIAgent } from '@/utils/aiAgent'
+import { configureTransport, resetTransport } from '@/lib/agent-transport'
+import { triviaHostResponseValidator } from '@/utils/responseSchema'
+import { FAILS, LLM_OUTPUT_CORPUS } from '@/test/llm-output-corpus'
+
+const PARSE_FAILURE = {
+  success: false,
+  data: null,
+  error: 'No valid JSON found in the response',
+  rawJson: null,
+}
+
+describe('parseLLMJson', () => {
+  describe('corpus', () => {
+    it.each(LLM_OUTPUT_CORPUS)('$name', ({ input, llm }) => {
+      expect(parseLLMJson(input)).toEqual(llm === FAILS ? PARSE_FAILURE : llm)
+    })
+  })
+
+  describe('inputs', () => {
+    it('returns null for empty input', () => {
+      expect(parseLLMJson(null)).toBeNull()
+      expect(parseLLMJson(undefined)).toBeNull()
+      expect(parseLLMJson('')).toBeNull()
+      expect(parseLLMJson('   \n')).toBeNull()
+    })
+
+    it('reads Anthropic-style content blocks', () => {
+      expect(parseLLMJson({ content: [{ type: 'text', text: '{"a":1}' }] })).toEqual({ a: 1 })
+    })
+
+    it('reads OpenAI-style choices', () => {
+      expect(parseLLMJson({ choices: [{ message: { content: '{"b":2}' } }] })).toEqual({ b: 2 })
+    })
+
+    it('unwraps an already parsed response object', () => {
+      expect(parseLLMJson({ data: { status: 'success', result: { x: 1 } } })).toEqual({ status: 'success', result: { x: 1 } })
+    })
+
+    it('ignores invalid options', () => {
+      expect(parseLLMJson('{"a":1}', null)).toEqual({ a: 1 })
+      expect(parseLLMJson('{"a":1}', [] as any)).toEqual({ a: 1 })
+    })
+  })
+
+  describe('options', () => {
+    it('does not repair JSON with attemptFix: false', () => {
+      expect(parseLLMJson("{'a': 1}", { attemptFix: false })).toEqual(PARSE_FAILURE)
+      expect(parseLLMJson("{'a': 1}")).toEqual({ a: 1 })
+    })
+
+    it('stops unwrapping at maxUnwrapDepth', () => {
+      const wrapped = JSON.stringify({ data: { output: { a: 1 } } })
+      expect(parseLLMJson(wrapped, { maxUnwrapDepth: 1 })).toEqual({ output: { a: 1 } })
+      expect(parseLLMJson(wrapped)).toEqual({ a: 1 })
+    })
+
+    it('unwraps only the keys given in unwrapKeys', () => {
+      const wrapped = JSON.stringify({ payload: { a: 1 } })
+      expect(parseLLMJson(wrapped)).toEqual({ payload: { a: 1 } })
+      expect(parseLLMJson(wrapped, { unwrapKeys: ['payload'] })).toEqual({ a: 1 })
+    })
+
+    it('prefers raw_response over response unless preferRawResponse is off', () => {
+      const input = JSON.stringify({ response: '{"from":"response"}', raw_response: '{"from":"raw"}' })
+      expect(parseLLMJson(input)).toEqual({ from: 'raw' })
+      expect(parseLLMJson(input, { preferRawResponse: false, unwrapKeys: ['response'] })).toEqual({ from: 'response' })
+    })
+  })
+})
+
+describe('parseLLMJson in callAIAgent', () => {
+  afterEach(() => {
+    resetTransport()
+  })
+
+  const replyWith = (body: string) => {
+    configureTransport({
+      apiKey: 'test-key',
+      fetch: async () => new Response(body, { status: 200 }),
+    })
+  }
+
+  it.each(LLM_OUTPUT_CORPUS.filter(({ llm }) => llm !== FAILS))('normalizes a wrapped reply: $name', async ({ input }) => {
+    replyWith(JSON.stringify({ response: input }))
+    const result = await callAIAgent('Next question please', 'agent', { policy: { maxRetries: 0 } })
+    expect(result.success).toBe(true)
+    expect(result.raw_response).toBe(JSON.stringify({ response: input }))
+  })
+
+  it('fails with the parser error when no JSON is found', async () => {
+    replyWith('not json at all')
+    const result = await callAIAgent('Next question please', 'agent', { policy: { maxRetries: 0 } })
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('No valid JSON found in the response')
+  })
+
+  it('turns a recorded agent reply into a valid trivia host response', async () => {
+    const recording = JSON.parse(readFileSync('response_schemas/test_results/trivia_host_agent_test_result.json', 'utf8'))
+    replyWith(JSON.stringify({ response: recording.raw_response }))
+    const result = await callAIAgent(recording.test_message, 'agent', {
+      policy: { maxRetries: 0 },
+      validate: triviaHostResponseValidator,
+    })
+    expect(result.success).toBe(true)
+    expect(result.response).toMatchObject(recording.actual_response)
+  })
+})
@@ -24,13 +24,13 @@
  */
 
 import { useState } from 'react'
+import { getRagEndpoint, isTransportConfigured, transportFetch } from '@/lib/agent-transport'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+// RAG base URL and API key come from the transport layer (see agent-transport.ts)
 
 // Supported file types with their parsers
 const FILE_TYPE_CONFIG: Record<string, { type: 'pdf' | 'docx' | 'txt'; parser: string }> = {
@@ -169,15 +169,14 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
+    if (!isTransportConfigured()) {
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${ragId}/`, {
+    const response = await transportFetch(getRagEndpoint(`/rag/documents/${ragId}/`), {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
     })
 
@@ -263,7 +262,7 @@ export async function uploadAndTrainDocument(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
+    if (!isTransportConfigured()) {
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
@@ -290,13 +289,10 @@ export async function uploadAndTrainDocument(
       parseFormData.append('chunk_overlap', '100')
     }
 
-    const parseUrl = `${LYZR_RAG_BASE_URL}/parse/${fileConfig.type}/`
+    const parseUrl = getRagEndpoint(`/parse/${fileConfig.type}/`)
 
-    const parseResponse = await fetch(parseUrl, {
+    const parseResponse = await transportFetch(parseUrl, {
       method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
       body: parseFormData,
     })
 
@@ -319,14 +315,13 @@ export async function uploadAndTrainDocument(
     }
 
     // STEP 2: Train knowledge base with parsed documents
-    const trainUrl = `${LYZR_RAG_BASE_URL}/rag/train/${ragId}/`
+    const trainUrl = getRagEndpoint(`/rag/train/${ragId}/`)
 
-    const trainResponse = await fetch(trainUrl, {
+    const trainResponse = await transportFetch(trainUrl, {
       method: 'POST',
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(parseResult.documents),
     })
@@ -383,7 +378,7 @@ export async function deleteDocuments(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
+    if (!isTransportConfigured()) {
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
@@ -399,14 +394,13 @@ export async function deleteDocuments(
       return `storage/${doc}`
     })
 
-    const deleteUrl = `${LYZR_RAG_BASE_URL}/rag/${ragId}/docs/`
+    const deleteUrl = getRagEndpoint(`/rag/${ragId}/docs/`)
 
-    const response = await fetch(deleteUrl, {
+    const response = await transportFetch(deleteUrl, {
       method: 'DELETE',
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
       },
       body: JSON.stringify(formattedDocuments),
     })
@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createResponseValidator,
+  formatSchemaError,
+  triviaBatchResponseValidator,
+  triviaGradeResponseValidator,
+  triviaHostResponseValidator,
+  validateAgainstSchema,
+  type ResponseValidator,
+} from '@/utils/responseSchema'
+import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import triviaHostSchema from '../../response_schemas/trivia_host_agent_response.json'
+import triviaBatchSchema from '../../response_schemas/trivia_batch_response.json'
+import triviaGradeSchema from '../../response_schemas/trivia_grade_response.json'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Copy of a schema file's example response, edited */
+function example(schemaFile: { example_response: unknown }, edit: (response: any) => void = () => {}): NormalizedAgentResponse {
+  const response = structuredClone(schemaFile.example_response) as any
+  edit(response)
+  return response
+}
+
+const problems = (validator: ResponseValidator, response: NormalizedAgentResponse) =>
+  validator.validate(response).errors.map(formatSchemaError)
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('validateAgainstSchema', () => {
+  const shape = { name: 'string', tags: ['string'], owner: { id: 'number' } }
+
+  it('accepts matching values and ignores extra fields', () => {
+    expect(validateAgainstSchema({ name: 'Ada', tags: ['x'], owner: { id: 1 }, extra: true }, shape)).toEqual([])
+  })
+
+  it('reports missing and mistyped fields with their paths', () => {
+    expect(validateAgainstSchema({ tags: ['x', 2], owner: { id: '1' } }, shape).map(formatSchemaError)).toEqual([
+      '$.name: is required',
+      '$.tags[1]: expected string, got number',
+      '$.owner.id: expected number, got string',
+    ])
+  })
+
+  it('lets nested objects be null but not missing', () => {
+    expect(validateAgainstSchema({ name: 'Ada', tags: [], owner: null }, shape)).toEqual([])
+    expect(validateAgainstSchema({ name: 'Ada', tags: [] }, shape).map(formatSchemaError)).toEqual(['$.owner: is required'])
+    expect(validateAgainstSchema(null, shape).map(formatSchemaError)).toEqual(['$: expected object, got null'])
+  })
+
+  it('skips optional paths, with [] standing for any array index', () => {
+    const options = { optional: ['$.name', '$.items[].note'] }
+    const value = { tags: [], owner: { id: 1 }, items: [{ note: null }, {}] }
+    expect(validateAgainstSchema(value, { ...shape, items: [{ note: 'string' }] }, options)).toEqual([])
+  })
+
+  it('describes what was expected and received', () => {
+    expect(validateAgainstSchema({ name: 'Ada', tags: 'x', owner: { id: 1 } }, shape)).toEqual([
+      { path: '$.tags', expected: 'array', received: 'string', message: 'expected array, got string' },
+    ])
+  })
+})
+
+describe('createResponseValidator', () => {
+  const schemaFile = { agent_name: 'Echo Agent', response_schema: { status: 'string', result: { text: 'string' } } }
+
+  it('names the validator after the agent unless told otherwise', () => {
+    expect(createResponseValidator(schemaFile).name).toBe('Echo Agent')
+    expect(createResponseValidator(schemaFile, { name: 'echo' }).name).toBe('echo')
+  })
+
+  it('runs refine only once the shape is valid', () => {
+    const refine = vi.fn(() => [{ path: '$.result.text', expected: 'greeting', received: 'string' as const, message: 'must say hello' }])
+    const validator = createResponseValidator(schemaFile, { refine })
+
+    expect(validator.validate({ status: 'success', result: {} })).toMatchObject({ valid: false, errors: [{ path: '$.result.text' }] })
+    expect(refine).not.toHaveBeenCalled()
+    expect(validator.validate({ status: 'success', result: { text: 'bye' } }).errors.map(formatSchemaError)).toEqual([
+      '$.result.text: must say hello',
+    ])
+  })
+})
+
+describe('triviaHostResponseValidator', () => {
+  it('accepts the schema example', () => {
+    expect(problems(triviaHostResponseValidator, example(triviaHostSchema))).toEqual([])
+  })
+
+  it('accepts turns without the optional fields', () => {
+    const response = example(triviaHostSchema, (r) => {
+      delete r.metadata
+      delete r.result.commentary
+      delete r.result.feedback.source_document
+      r.result.game_state = 'question'
+      r.result.feedback = null
+    })
+    expect(problems(triviaHostResponseValidator, response)).toEqual([])
+  })
+
+  it('reports missing required fields', () => {
+    const response = example(triviaHostSchema, (r) => {
+      delete r.result.score
+      delete r.result.question.text
+    })
+    expect(problems(triviaHostResponseValidator, response)).toEqual([
+      '$.result.question.text: is required',
+      '$.result.score: is required',
+    ])
+  })
+
+  it('reports fields of the wrong type', () => {
+    const response = example(triviaHostSchema, (r) => {
+      r.result.score.correct = '1'
+      r.result.feedback.is_correct = 'yes'
+    })
+    expect(problems(triviaHostResponseValidator, response)).toEqual([
+      '$.result.feedback.is_correct: expected boolean, got string',
+      '$.result.score.correct: expected number, got string',
+    ])
+  })
+
+  it('requires a question on question turns and feedback on feedback turns', () => {
+    expect(problems(triviaHostResponseValidator, example(triviaHostSchema, (r) => { r.result.feedback = null }))).toEqual([
+      '$.result.feedback: is required when game_state is "feedback"',
+    ])
+    const questionTurn = example(triviaHostSchema, (r) => {
+      r.result.game_state = 'question'
+      delete r.result.question
+    })
+    expect(problems(triviaHostResponseValidator, questionTurn)).toEqual(['$.result.question: is required when game_state is "question"'])
+  })
+})
+
+describe('triviaBatchResponseValidator', () => {
+  it('accepts the schema example', () => {
+    expect(problems(triviaBatchResponseValidator, example(triviaBatchSchema))).toEqual([])
+  })
+
+  it('accepts questions without the optional fields', () => {
+    const response = example(triviaBatchSchema, (r) => {
+      delete r.metadata
+      delete r.result.commentary
+      for (const question of r.result.questions) {
+        delete question.explanation
+        delete question.commentary
+        delete question.reveal_commentary
+      }
+    })
+    expect(problems(triviaBatchResponseValidator, response)).toEqual([])
+  })
+
+  it('reports missing required fields', () => {
+    const response = example(triviaBatchSchema, (r) => {
+      delete r.result.questions[1].text
+    })
+    expect(problems(triviaBatchResponseValidator, response)).toEqual(['$.result.questions[1].text: is required'])
+  })
+
+  it('reports fields of the wrong type', () => {
+    const response = example(triviaBatchSchema, (r) => {
+      r.result.questions[0].reveal_commentary = 5
+      r.result.questions = [...r.result.questions, 'Why?']
+    })
+    expect(problems(triviaBatchResponseValidator, response)).toEqual([
+      '$.result.questions[0].reveal_commentary: expected string, got number',
+      '$.result.questions[2]: expected object, got string',
+    ])
+  })
+
+  it('checks each question against the variant for its type and its answer key', () => {
+    const response = example(triviaBatchSchema, (r) => {
+      r.result.questions[0].correct_answer = 'E'
+      r.result.questions[1] = { type: 'multi_select', text: 'Which are moons of Mars?', options: ['A) Phobos'], correct_answer: 'A' }
+    })
+    expect(problems(triviaBatchResponseValidator, response)).toEqual([
+      '$.result.questions[0].correct_answer: does not match any option',
+      '$.result.questions[1].options: needs at least two options',
+    ])
+  })
+})
+
+describe('triviaGradeResponseValidator', () => {
+  it('accepts the schema example, with or without metadata', () => {
+    expect(problems(triviaGradeResponseValidator, example(triviaGradeSchema))).toEqual([])
+    expect(problems(triviaGradeResponseValidator, example(triviaGradeSchema, (r) => { delete r.metadata }))).toEqual([])
+  })
+
+  it('needs a boolean verdict', () => {
+    expect(problems(triviaGradeResponseValidator, example(triviaGradeSchema, (r) => { delete r.result.is_correct }))).toEqual([
+      '$.result.is_correct: is required',
+    ])
+    expect(problems(triviaGradeResponseValidator, example(triviaGradeSchema, (r) => { r.result.is_correct = 'yes' }))).toEqual([
+      '$.result.is_correct: expected boolean, got string',
+    ])
+  })
+})
@@ -0,0 +1,296 @@
+/**
+ * Response Schema Validation
+ *
+ * Runtime validation of normalized agent responses against the shapes in
+ * response_schemas/*.json. Those files describe a response by example:
+ * leaves are type names ("string", "number", "boolean"), arrays hold a single
+ * element shape and objects nest. Every violation is reported with a JSON
+ * path such as `$.result.question.options[2]`.
+ *
+ * @example
+ * ```tsx
+ * const check = triviaHostResponseValidator.validate(result.response)
+ * if (!check.valid) {
+ *   console.warn(check.errors.map(formatSchemaError))
+ * }
+ *
+ * // Or let callAIAgent validate and retry on violations
+ * const result = await callAIAgent(message, agentId, { validate: triviaHostResponseValidator })
+ * ```
+ */
+
+import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import { validateQuestion } from '@/lib/question-types'
+import triviaHostSchema from '../../response_schemas/trivia_host_agent_response.json'
+import triviaBatchSchema from '../../response_schemas/trivia_batch_response.json'
+import triviaGradeSchema from '../../response_schemas/trivia_grade_response.json'
+import multipleChoiceSchema from '../../response_schemas/question_types/multiple_choice.json'
+import trueFalseSchema from '../../response_schemas/question_types/true_false.json'
+import multiSelectSchema from '../../response_schemas/question_types/multi_select.json'
+import freeTextSchema from '../../response_schemas/question_types/free_text.json'
+import numericSchema from '../../response_schemas/question_types/numeric.json'
+import orderingSchema from '../../response_schemas/question_types/ordering.json'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SchemaValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null' | 'undefined'
+
+export interface SchemaValidationError {
+  /** JSON path of the offending value, e.g. "$.result.question.options" */
+  path: string
+  expected: string
+  received: SchemaValueType
+  message: string
+}
+
+export interface SchemaValidationResult {
+  valid: boolean
+  errors: SchemaValidationError[]
+}
+
+/**
+ * Shape description as found under "response_schema" in response_schemas/*.json
+ */
+export type SchemaShape = string | SchemaShape[] | { [key: string]: SchemaShape }
+
+export interface SchemaOptions {
+  /** Paths that may be missing or null; use `[]` for any array index (nested objects are always nullable) */
+  optional?: string[]
+}
+
+/**
+ * Question variant as found in response_schemas/question_types/*.json
+ */
+export interface QuestionTypeSchema {
+  question_type: string
+  question_schema: SchemaShape
+  /** Fields of the question that may be left out */
+  optional_fields: string[]
+}
+
+export interface ResponseValidator {
+  /** Schema name, used in logs and error messages */
+  name: string
+  validate: (response: NormalizedAgentResponse) => SchemaValidationResult
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function typeOf(value: unknown): SchemaValueType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value as SchemaValueType
+}
+
+function describeShape(shape: SchemaShape): string {
+  if (typeof shape === 'string') return shape
+  return Array.isArray(shape) ? 'array' : 'object'
+}
+
+export function formatSchemaError(error: SchemaValidationError): string {
+  return `${error.path}: ${error.message}`
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a value against a schema shape. Nested objects may be null (e.g.
+ * `feedback` on a question turn); other fields are required unless listed in
+ * `options.optional`. Extra fields are allowed.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  shape: SchemaShape,
+  options: SchemaOptions = {},
+  path = '$'
+): SchemaValidationError[] {
+  const optional = options.optional ?? []
+  const received = typeOf(value)
+  const fail = (message: string): SchemaValidationError[] => [
+    { path, expected: describeShape(shape), received, message },
+  ]
+
+  if (value === undefined || value === null) {
+    const nullableObject = path !== '$' && typeof shape === 'object' && !Array.isArray(shape)
+    if (optional.includes(path.replace(/\[\d+\]/g, '[]')) || (nullableObject && value === null)) return []
+    return fail(value === undefined ? 'is required' : `expected ${describeShape(shape)}, got null`)
+  }
+
+  if (typeof shape === 'string') {
+    return received === shape ? [] : fail(`expected ${shape}, got ${received}`)
+  }
+
+  if (Array.isArray(shape)) {
+    if (received !== 'array') return fail(`expected array, got ${received}`)
+    if (shape.length === 0) return []
+    return (value as unknown[]).flatMap((item, index) =>
+      validateAgainstSchema(item, shape[0], options, `${path}[${index}]`)
+    )
+  }
+
+  if (received !== 'object') return fail(`expected object, got ${received}`)
+  return Object.entries(shape).flatMap(([key, childShape]) =>
+    validateAgainstSchema((value as Record<string, unknown>)[key], childShape, options, `${path}.${key}`)
+  )
+}
+
+/**
+ * Build a validator from a response_schemas/*.json file
+ */
+export function createResponseValidator(
+  schemaFile: { agent_name?: string; response_schema: SchemaShape },
+  options: SchemaOptions & {
+    name?: string
+    /** Extra checks that depend on values, run after the shape check */
+    refine?: (response: NormalizedAgentResponse) => SchemaValidationError[]
+  } = {}
+): ResponseValidator {
+  const name = options.name ?? schemaFile.agent_name ?? 'response'
+
+  return {
+    name,
+    validate: (response) => {
+      const errors = validateAgainstSchema(response, schemaFile.response_schema, options)
+      if (errors.length === 0 && options.refine) errors.push(...options.refine(response))
+      return { valid: errors.length === 0, errors }
+    },
+  }
+}
+
+// =============================================================================
+// Trivia Schemas
+// =============================================================================
+
+/** Question variants by question.type (see src/lib/question-types.ts) */
+export const QUESTION_TYPE_SCHEMAS: Record<string, QuestionTypeSchema> = Object.fromEntries(
+  [multipleChoiceSchema, trueFalseSchema, multiSelectSchema, freeTextSchema, numericSchema, orderingSchema]
+    .map(schema => [schema.question_type, schema as QuestionTypeSchema])
+)
+
+/**
+ * Validate a question against the variant for its type (multiple_choice
+ * when the type is left out)
+ */
+export function validateQuestionShape(question: any, path = '$.question'): SchemaValidationError[] {
+  const type = question?.type ?? 'multiple_choice'
+  const schema = QUESTION_TYPE_SCHEMAS[type]
+  if (!schema) {
+    return [{
+      path: `${path}.type`,
+      expected: Object.keys(QUESTION_TYPE_SCHEMAS).join(' | '),
+      received: typeOf(type),
+      message: `unknown question type ${JSON.stringify(type)}`,
+    }]
+  }
+
+  const errors = validateAgainstSchema(question, schema.question_schema, {
+    // Optional paths use [] for array indices (see validateAgainstSchema)
+    optional: schema.optional_fields.map(field => `${path.replace(/\[\d+\]/g, '[]')}.${field}`),
+  }, path)
+  const takesOptions = 'options' in (schema.question_schema as Record<string, SchemaShape>)
+  if (errors.length === 0 && takesOptions && question.options.length < 2) {
+    errors.push({
+      path: `${path}.options`,
+      expected: 'array of at least 2 options',
+      received: 'array',
+      message: 'needs at least two options',
+    })
+  }
+  return errors
+}
+
+/**
+ * Trivia Host Agent turns. Question and feedback may be left out of turns
+ * that don't need them, but question turns must carry a question and
+ * feedback turns must carry feedback. Questions are checked against the
+ * variant for their type.
+ */
+export const triviaHostResponseValidator = createResponseValidator(triviaHostSchema, {
+  name: 'trivia_host_agent_response',
+  optional: [
+    '$.metadata',
+    '$.metadata.agent_name',
+    '$.metadata.timestamp',
+    '$.result.question',
+    '$.result.question.type',
+    '$.result.question.options',
+    '$.result.question.accepted_answers',
+    '$.result.question.tolerance',
+    '$.result.question.unit',
+    '$.result.feedback',
+    '$.result.feedback.source_document',
+    '$.result.commentary',
+  ],
+  refine: ({ result }) => {
+    const errors: SchemaValidationError[] = []
+    const requireField = (key: 'question' | 'feedback') => {
+      if (!result[key]) {
+        errors.push({
+          path: `$.result.${key}`,
+          expected: 'object',
+          received: typeOf(result[key]),
+          message: `is required when game_state is "${result.game_state}"`,
+        })
+      }
+    }
+    if (result.game_state === 'question') requireField('question')
+    if (result.game_state === 'feedback') requireField('feedback')
+    if (result.question) errors.push(...validateQuestionShape(result.question, '$.result.question'))
+    return errors
+  },
+})
+
+/**
+ * Batch mode turns (several questions per response). Batch answers are graded
+ * on the client, so each question's correct_answer must also fit its options.
+ */
+export const triviaBatchResponseValidator = createResponseValidator(triviaBatchSchema, {
+  name: 'trivia_batch_response',
+  optional: [
+    '$.metadata',
+    '$.metadata.agent_name',
+    '$.metadata.timestamp',
+    '$.result.commentary',
+    '$.result.questions[].type',
+    '$.result.questions[].options',
+    '$.result.questions[].accepted_answers',
+    '$.result.questions[].tolerance',
+    '$.result.questions[].unit',
+    '$.result.questions[].explanation',
+    '$.result.questions[].source_document',
+    '$.result.questions[].commentary',
+    '$.result.questions[].reveal_commentary',
+  ],
+  refine: ({ result }) => {
+    const errors: SchemaValidationError[] = []
+    if (result.questions.length === 0) {
+      errors.push({ path: '$.result.questions', expected: 'non-empty array', received: 'array', message: 'needs at least one question' })
+    }
+    result.questions.forEach((question: any, index: number) => {
+      const path = `$.result.questions[${index}]`
+      const shapeErrors = validateQuestionShape(question, path)
+      errors.push(...shapeErrors)
+      if (shapeErrors.length > 0) return
+      // Answer key problems come back as "<path> <message>"
+      errors.push(...validateQuestion(question, path).map((problem) => {
+        const [problemPath, ...message] = problem.split(' ')
+        return { path: problemPath, expected: 'valid answer key', received: typeOf(question.correct_answer), message: message.join(' ') }
+      }))
+    })
+    return errors
+  },
+})
+
+/**
+ * Batch mode grading of an answer the client couldn't grade itself
+ */
+export const triviaGradeResponseValidator = createResponseValidator(triviaGradeSchema, {
+  name: 'trivia_grade_response',
+  optional: ['$.metadata', '$.metadata.agent_name', '$.metadata.timestamp'],
+})
@@ -3,7 +3,12 @@
 interface ImportMetaEnv {
   readonly VITE_AGENT_ID?: string
   readonly VITE_LYZR_API_KEY?: string
+  readonly VITE_AGENT_API_URL?: string
+  readonly VITE_RAG_API_URL?: string
   readonly VITE_API_URL?: string
+  readonly VITE_TRIVIA_QUESTION_SOURCE?: 'agent' | 'batch' | 'offline'
+  readonly VITE_ROOM_SERVER_URL?: string
+  readonly VITE_TRIVIA_RAG_ID?: string
 }
 
 interface ImportMeta {